@@ -1,6 +1,8 @@
 
 import React, { useEffect, useState } from 'react';
 import { db } from './services/db';
+import { SchemaVersionError } from './services/migrations';
+import { profiles } from './services/profiles';
 import { Layout } from './components/Layout';
 import { Dashboard } from './components/Dashboard';
 import { FoodLogger } from './components/FoodLogger';
@@ -9,24 +11,58 @@ import { DailyTracker } from './components/DailyTracker';
 import { Onboarding } from './components/Onboarding';
 import { Marketplace } from './components/Marketplace';
 import { Settings } from './components/Settings';
+import { UnlockScreen } from './components/UnlockScreen';
 
 export default function App() {
   const [initialized, setInitialized] = useState(false);
   const [isOnboarded, setIsOnboarded] = useState(false);
   const [activeTab, setActiveTab] = useState('dashboard');
+  const [loadError, setLoadError] = useState<Error | null>(null);
+  const [isLocked, setIsLocked] = useState(false);
 
-  useEffect(() => {
+  const syncFromDb = () => {
+    setLoadError(db.getLoadError());
+    setIsLocked(db.isLocked());
     const state = db.getState();
     if (state.user && state.user.onboardingCompleted) {
       setIsOnboarded(true);
     }
-    setInitialized(true);
+  };
+
+  useEffect(() => {
+    db.init().then(() => {
+      syncFromDb();
+      setInitialized(true);
+    });
   }, []);
 
   if (!initialized) return null;
 
+  if (isLocked) {
+    return <UnlockScreen onUnlock={syncFromDb} />;
+  }
+
+  if (loadError) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center p-6">
+        <div className="max-w-md w-full bg-white p-8 rounded-[2.5rem] shadow-2xl shadow-slate-200/50 space-y-3">
+          <h1 className="text-2xl font-black text-slate-900 tracking-tight">{loadError instanceof SchemaVersionError ? 'Update Required' : 'Data Could Not Be Loaded'}</h1>
+          <p className="text-sm text-slate-500 font-medium leading-relaxed">{loadError.message}</p>
+          <p className="text-xs text-slate-400">Your data has not been modified.</p>
+        </div>
+      </div>
+    );
+  }
+
   if (!isOnboarded) {
-    return <Onboarding onComplete={() => setIsOnboarded(true)} />;
+    // A freshly added profile can be abandoned, which drops its empty database
+    const handleCancel = profiles.list().length > 1
+      ? async () => {
+          await profiles.remove(profiles.getActive().id);
+          window.location.reload();
+        }
+      : undefined;
+    return <Onboarding onComplete={() => setIsOnboarded(true)} onCancel={handleCancel} />;
   }
 
   const renderContent = () => {
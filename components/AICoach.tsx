@@ -1,36 +1,50 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { db } from '../services/db';
-import { chatWithCoach } from '../services/geminiService';
-import { ChatMessage } from '../types';
-import { Send, User, Bot, Loader2, Sparkles, ExternalLink, Utensils, ShoppingBag, ArrowRight } from 'lucide-react';
+import { chatWithCoach, updateCoachMemory } from '../services/geminiService';
+import { isAbortError } from '../services/aiScheduler';
+import { coachTools } from '../services/coachTools';
+import { ValidationError, formatValidationIssues } from '../services/validation';
+import { ChatMessage, CoachAction } from '../types';
+import { Send, User, Bot, Loader2, Sparkles, ExternalLink, Utensils, ShoppingBag, ArrowRight, Square, RotateCcw, Check, X } from 'lucide-react';
+
+const GREETING: ChatMessage = {
+  id: 'greeting',
+  role: 'model',
+  text: 'Hello! I’m your Bio-Twin Neural Interface. I have access to your labs, logs, and marketplace. How can I optimize your biology today?',
+  timestamp: new Date().toISOString()
+};
 
 export const AICoach: React.FC = () => {
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>(() => db.getState().chatHistory || []);
   const [input, setInput] = useState('');
   const [isTyping, setIsTyping] = useState(false);
+  const [streamingText, setStreamingText] = useState('');
+  const [applyingAction, setApplyingAction] = useState<string | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
+  // The reply in flight; aborted by the stop button or when the user leaves the chat
+  const aiAbort = useRef<AbortController | null>(null);
 
-  useEffect(() => {
-    // Load initial greeting or history
-    setMessages([
-      {
-        id: '1',
-        role: 'model',
-        text: 'Hello! I’m your Bio-Twin Neural Interface. I have access to your labs, logs, and marketplace. How can I optimize your biology today?',
-        timestamp: new Date().toISOString()
-      }
-    ]);
-  }, []);
+  useEffect(() => () => aiAbort.current?.abort(), []);
 
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [messages]);
+  }, [messages, streamingText]);
+
+  const saveConversation = (history: ChatMessage[]) => {
+    setMessages(history);
+    db.saveChatHistory(history);
+    const { chatSummary, user } = db.getState();
+    // Summarizing runs in the background; until it lands the oldest turns are just left out
+    updateCoachMemory(history, chatSummary, user)
+      .then(summary => summary && db.saveChatSummary(summary))
+      .catch(e => console.warn("Coach memory update failed", e));
+  };
 
   const handleSend = async (text: string = input) => {
-    if (!text.trim()) return;
+    if (!text.trim() || isTyping) return;
 
     const userMsg: ChatMessage = {
       id: crypto.randomUUID(),
@@ -39,33 +53,86 @@ export const AICoach: React.FC = () => {
       timestamp: new Date().toISOString()
     };
 
-    setMessages(prev => [...prev, userMsg]);
+    const state = db.getState();
+    const history = [...messages, userMsg];
+    setMessages(history);
     setInput('');
     setIsTyping(true);
+    setStreamingText('');
+    const controller = new AbortController();
+    aiAbort.current = controller;
+    let partial = '';
 
     try {
-      const state = db.getState();
-      // Call updated service expecting rich content
-      const response = await chatWithCoach(userMsg.text, state);
-      
-      const botMsg: ChatMessage = {
+      const response = await chatWithCoach(userMsg.text, state, reply => setStreamingText(partial = reply), controller.signal);
+      saveConversation([...history, {
         id: crypto.randomUUID(),
         role: 'model',
         text: response.reply,
         timestamp: new Date().toISOString(),
         suggestions: response.suggestions,
-        // @ts-ignore - Assuming service returns this, matching type definition
-        richContent: response.richContent
-      };
-      
-      setMessages(prev => [...prev, botMsg]);
+        richContent: response.richContent,
+        actions: response.actions
+      }]);
     } catch (e) {
-      console.error(e);
+      if (!isAbortError(e)) {
+        console.error(e);
+        alert("The coach could not reply. Please try again.");
+      }
+      // The conversation was reset while this reply was pending
+      if (aiAbort.current !== controller) return;
+      // Whatever streamed before a stop is kept
+      if (partial && isAbortError(e)) {
+        saveConversation([...history, { id: crypto.randomUUID(), role: 'model', text: `${partial}…`, timestamp: new Date().toISOString() }]);
+      } else {
+        db.saveChatHistory(history);
+      }
     } finally {
       setIsTyping(false);
+      setStreamingText('');
     }
   };
 
+  // Nothing the coach proposes is saved until the user confirms its card
+  const handleAction = async (messageId: string, action: CoachAction, confirmed: boolean) => {
+    if (applyingAction) return;
+    if (confirmed) {
+      setApplyingAction(action.id);
+      try {
+        // false means nothing was written (store locked, failed to load, or unknown action); keep the card pending
+        if (!await coachTools.apply(action)) {
+          alert("Could not save this change. Your data is unchanged; please try again.");
+          return;
+        }
+      } catch (e) {
+        console.error(e);
+        alert(e instanceof ValidationError ? `Not saved:\n${formatValidationIssues(e.issues)}` : "Could not save. Please try again.");
+        return;
+      } finally {
+        setApplyingAction(null);
+      }
+    }
+    const status: CoachAction['status'] = confirmed ? 'confirmed' : 'dismissed';
+    const history = messages.map(m => m.id !== messageId ? m : {
+      ...m,
+      actions: m.actions?.map(a => a.id === action.id ? { ...a, status } : a)
+    });
+    setMessages(history);
+    db.saveChatHistory(history);
+  };
+
+  const handleStop = () => aiAbort.current?.abort();
+
+  const handleNewChat = () => {
+    if (!confirm("Start a new conversation? The coach will forget this one.")) return;
+    const pending = aiAbort.current;
+    aiAbort.current = null;
+    pending?.abort();
+    setMessages([]);
+    db.saveChatHistory([]);
+    db.saveChatSummary(null);
+  };
+
   const renderRichContent = (content: any) => {
       if (!content) return null;
       
@@ -133,14 +200,19 @@ export const AICoach: React.FC = () => {
           <Sparkles className="w-5 h-5" />
           <span className="absolute -top-1 -right-1 w-3 h-3 bg-green-400 rounded-full border-2 border-slate-900"></span>
         </div>
-        <div>
+        <div className="flex-1">
            <h2 className="font-bold text-lg">Neural Interface</h2>
            <p className="text-slate-400 text-xs">Bio-Twin Active • Listening</p>
         </div>
+        {messages.length > 0 && (
+          <button onClick={handleNewChat} title="New conversation" className="p-2 text-slate-400 hover:text-white transition-colors">
+            <RotateCcw className="w-4 h-4" />
+          </button>
+        )}
       </div>
 
       <div className="flex-1 overflow-y-auto p-4 space-y-6 bg-slate-50" ref={scrollRef}>
-        {messages.map((msg) => (
+        {[GREETING, ...messages].map((msg) => (
           <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
             <div className={`flex flex-col max-w-[85%] ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
                 <div className={`flex items-end gap-2 ${msg.role === 'user' ? 'flex-row-reverse' : 'flex-row'}`}>
@@ -158,6 +230,31 @@ export const AICoach: React.FC = () => {
                 
                 {/* Rich Content Card */}
                 {msg.richContent && renderRichContent(msg.richContent)}
+
+                {/* Proposed changes awaiting confirmation */}
+                {msg.actions && msg.actions.length > 0 && (
+                    <div className="mt-3 ml-10 space-y-2 w-full max-w-sm">
+                        {msg.actions.map(action => (
+                            <div key={action.id} className="bg-white border border-slate-200 rounded-xl p-3 flex items-center justify-between gap-3 shadow-sm">
+                                <p className={`text-xs font-bold ${action.status === 'dismissed' ? 'text-slate-400 line-through' : 'text-slate-700'}`}>{action.label}</p>
+                                {action.status === 'pending' ? (
+                                    <div className="flex gap-1 flex-shrink-0">
+                                        <button onClick={() => handleAction(msg.id, action, false)} title="Dismiss" className="p-2 rounded-lg border border-slate-200 text-slate-400 hover:text-slate-600">
+                                            <X className="w-3.5 h-3.5" />
+                                        </button>
+                                        <button onClick={() => handleAction(msg.id, action, true)} disabled={!!applyingAction} className="px-3 py-2 rounded-lg bg-teal-600 text-white text-xs font-bold flex items-center gap-1 hover:bg-teal-700 disabled:opacity-50">
+                                            {applyingAction === action.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Check className="w-3.5 h-3.5" />} Confirm
+                                        </button>
+                                    </div>
+                                ) : (
+                                    <span className={`text-[10px] font-black uppercase flex-shrink-0 ${action.status === 'confirmed' ? 'text-teal-600' : 'text-slate-400'}`}>
+                                        {action.status === 'confirmed' ? 'Saved' : 'Dismissed'}
+                                    </span>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
                 
                 {/* Suggestions Pills */}
                 {msg.suggestions && msg.suggestions.length > 0 && (
@@ -182,8 +279,8 @@ export const AICoach: React.FC = () => {
                <div className="w-8 h-8 rounded-full bg-teal-600 flex items-center justify-center flex-shrink-0">
                   <Bot className="w-4 h-4 text-white" />
                </div>
-               <div className="bg-white p-4 rounded-2xl rounded-bl-none border border-slate-200 shadow-sm">
-                 <Loader2 className="w-5 h-5 text-teal-500 animate-spin" />
+               <div className="bg-white p-4 rounded-2xl rounded-bl-none border border-slate-200 shadow-sm text-sm leading-relaxed text-slate-700 whitespace-pre-wrap">
+                 {streamingText || <Loader2 className="w-5 h-5 text-teal-500 animate-spin" />}
                </div>
              </div>
            </div>
@@ -200,13 +297,23 @@ export const AICoach: React.FC = () => {
             placeholder="Ask anything (e.g. 'Find safe snacks')..."
             className="flex-1 p-3 bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-teal-500 transition-all text-sm"
           />
-          <button 
-            onClick={() => handleSend()}
-            disabled={!input.trim() || isTyping}
-            className="bg-slate-900 text-white p-3 rounded-xl disabled:opacity-50 hover:bg-slate-800 transition-colors shadow-lg"
-          >
-            <Send className="w-5 h-5" />
-          </button>
+          {isTyping ? (
+            <button
+              onClick={handleStop}
+              title="Stop"
+              className="bg-rose-500 text-white p-3 rounded-xl hover:bg-rose-600 transition-colors shadow-lg"
+            >
+              <Square className="w-5 h-5" />
+            </button>
+          ) : (
+            <button 
+              onClick={() => handleSend()}
+              disabled={!input.trim()}
+              className="bg-slate-900 text-white p-3 rounded-xl disabled:opacity-50 hover:bg-slate-800 transition-colors shadow-lg"
+            >
+              <Send className="w-5 h-5" />
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,71 @@
+import React, { useEffect, useState } from 'react';
+import { aiCache, AiCacheSummary, AI_CACHE_TTL_MS } from '../services/aiCache';
+import { AI_TASK_LABELS } from '../services/aiProvider';
+import { Zap } from 'lucide-react';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const formatTtl = (ms: number) => ms >= 24 * HOUR_MS ? `${Math.round(ms / (24 * HOUR_MS))}d` : `${Math.round(ms / HOUR_MS)}h`;
+
+const formatBytes = (bytes: number) => bytes >= 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${bytes} B`;
+
+// Inspector for the persistent AI response cache
+export const AiCachePanel: React.FC = () => {
+  const [summary, setSummary] = useState<AiCacheSummary[] | null>(null);
+
+  const load = () => {
+    aiCache.summarize()
+      .then(setSummary)
+      .catch(e => {
+        console.error("Failed to read AI cache", e);
+        setSummary([]);
+      });
+  };
+
+  useEffect(load, []);
+
+  const handleClear = async () => {
+    try {
+      await aiCache.clear();
+    } catch (e) {
+      console.error("Failed to clear AI cache", e);
+      alert("Could not clear the AI cache.");
+    }
+    load();
+  };
+
+  const total = (summary || []).reduce((acc, s) => ({ count: acc.count + s.count, bytes: acc.bytes + s.bytes }), { count: 0, bytes: 0 });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between px-1">
+        <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">AI Cache</h4>
+        {total.count > 0 && (
+          <button onClick={handleClear} className="text-[10px] font-black text-rose-500 uppercase tracking-widest">Clear</button>
+        )}
+      </div>
+      <div className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm space-y-2">
+        {summary === null ? null : summary.length === 0 ? (
+          <p className="text-xs text-slate-400 font-medium text-center py-2">Repeat AI lookups are answered from this device instead of the network.</p>
+        ) : (
+          <>
+            {summary.map(s => (
+              <div key={s.task} className="flex items-center gap-3 p-2 rounded-xl hover:bg-slate-50">
+                <div className="bg-slate-50 p-2 rounded-lg"><Zap className="w-4 h-4 text-amber-500" /></div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-bold text-slate-700 truncate">{AI_TASK_LABELS[s.task] || s.task}</p>
+                  <p className="text-[10px] text-slate-400 font-medium">
+                    {s.count} saved · {formatBytes(s.bytes)} · keeps {formatTtl(AI_CACHE_TTL_MS[s.task] || 0)} · last {new Date(s.newest).toLocaleDateString()}
+                  </p>
+                </div>
+              </div>
+            ))}
+            <p className="text-[10px] text-slate-400 font-medium px-2">
+              {total.count} answers · {formatBytes(total.bytes)}. Entries that used your sensitivity list are dropped when it changes.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import React, { useEffect, useState } from 'react';
+import { aiScheduler, AiQueueState } from '../services/aiScheduler';
+import { Hourglass, Loader2 } from 'lucide-react';
+
+// Shows when AI work is held back by rate budgets, so a spinner is never left unexplained
+export const AiQueueStatus: React.FC = () => {
+  const [queue, setQueue] = useState<AiQueueState>(aiScheduler.getState());
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => aiScheduler.subscribe(setQueue), []);
+
+  const waiting = queue.jobs.find(j => j.status === 'waiting');
+
+  useEffect(() => {
+    if (!waiting) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [waiting]);
+
+  const queued = queue.jobs.filter(j => j.status !== 'running').length;
+  if (!waiting && queued < 2) return null;
+
+  const seconds = waiting?.waitUntil ? Math.max(1, Math.ceil((waiting.waitUntil - now) / 1000)) : 0;
+
+  return (
+    <div className="fixed top-20 left-0 right-0 z-40 flex justify-center px-4 pointer-events-none animate-in slide-in-from-top-2">
+      <div className="bg-amber-50 border border-amber-100 text-amber-700 rounded-2xl shadow-sm flex items-center gap-2 px-4 py-2 max-w-md">
+        {waiting ? <Hourglass className="w-4 h-4" /> : <Loader2 className="w-4 h-4 animate-spin" />}
+        <span className="text-xs font-bold">
+          {waiting ? `Waiting for AI quota · ${seconds}s` : `${queued} AI requests queued`}
+          {waiting && queued > 1 && ` · ${queued - 1} more queued`}
+        </span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { aiUsage, AiUsageEntry, AiUsageSummary } from '../services/aiUsage';
+import { AI_TASK_LABELS } from '../services/aiProvider';
+import { AVAILABLE_MODELS } from '../services/modelRouting';
+import { Activity } from 'lucide-react';
+
+const RECENT_LIMIT = 8;
+
+const formatUsd = (usd: number) => usd > 0 && usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`;
+
+const formatTokens = (tokens: number) => tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+const modelLabel = (id?: string) => id ? AVAILABLE_MODELS.find(m => m.id === id)?.label || id : '—';
+
+const STATUS_STYLES: Record<AiUsageEntry['status'], string> = {
+  success: 'text-teal-600',
+  error: 'text-rose-500',
+  cancelled: 'text-slate-400',
+  blocked: 'text-amber-600'
+};
+
+// This month's AI calls, tokens and estimated spend, with an optional budget cap
+export const AiUsagePanel: React.FC = () => {
+  const [summary, setSummary] = useState<AiUsageSummary | null>(null);
+  const [recent, setRecent] = useState<AiUsageEntry[]>([]);
+  const [budget, setBudget] = useState<number | null>(aiUsage.getMonthlyBudget());
+
+  const load = () => {
+    setSummary(aiUsage.summarize(aiUsage.monthStart()));
+    setRecent(aiUsage.getEntries().slice(0, RECENT_LIMIT));
+  };
+
+  useEffect(load, []);
+
+  const handleBudget = (value: string) => {
+    const parsed = Number(value);
+    const next = value.trim() !== '' && isFinite(parsed) && parsed > 0 ? parsed : null;
+    if (next === budget) return;
+    aiUsage.setMonthlyBudget(next);
+    setBudget(next);
+  };
+
+  const handleClear = () => {
+    if (confirm("Clear the AI usage history? This also resets this month's spend toward the budget.")) {
+      aiUsage.clear();
+      load();
+    }
+  };
+
+  if (!summary) return null;
+
+  const budgetUsed = budget ? Math.min(100, (summary.costUsd / budget) * 100) : 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between px-1">
+        <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">AI Usage This Month</h4>
+        {recent.length > 0 && (
+          <button onClick={handleClear} className="text-[10px] font-black text-rose-500 uppercase tracking-widest">Clear</button>
+        )}
+      </div>
+      <div className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm space-y-4">
+        <div className="grid grid-cols-3 gap-2 text-center">
+          <div className="bg-slate-50 rounded-xl p-2">
+            <p className="text-lg font-black text-slate-800">{summary.calls}</p>
+            <p className="text-[10px] font-bold text-slate-400 uppercase">Calls</p>
+          </div>
+          <div className="bg-slate-50 rounded-xl p-2">
+            <p className="text-lg font-black text-slate-800">{formatTokens(summary.tokens)}</p>
+            <p className="text-[10px] font-bold text-slate-400 uppercase">Tokens</p>
+          </div>
+          <div className="bg-slate-50 rounded-xl p-2">
+            <p className="text-lg font-black text-slate-800">{formatUsd(summary.costUsd)}</p>
+            <p className="text-[10px] font-bold text-slate-400 uppercase">Est. Cost</p>
+          </div>
+        </div>
+        <p className="text-[10px] text-slate-400 font-medium">
+          {summary.failures} failed · {summary.retries} retries · {summary.fallbacks} fallbacks
+          {summary.blocked > 0 && ` · ${summary.blocked} skipped over budget`}
+        </p>
+
+        <div className="space-y-2">
+          <label className="flex items-center justify-between gap-3">
+            <span className="text-xs font-bold text-slate-600">Monthly budget (USD)</span>
+            <input
+              type="number" min={0} step={0.5}
+              placeholder="No limit"
+              defaultValue={budget ?? ''}
+              onBlur={e => handleBudget(e.target.value)}
+              className="w-28 p-2 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold text-slate-700 text-right focus:ring-2 focus:ring-teal-500 focus:outline-none"
+            />
+          </label>
+          {budget && (
+            <>
+              <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                <div className={`h-full rounded-full ${budgetUsed >= 100 ? 'bg-rose-500' : 'bg-teal-500'}`} style={{ width: `${budgetUsed}%` }} />
+              </div>
+              <p className="text-[10px] text-slate-400 font-medium">
+                Once reached, background features (reminders, product picks, community trends) pause until next month. Scans and the coach keep working.
+              </p>
+            </>
+          )}
+        </div>
+
+        {summary.byTask.length > 0 && (
+          <div className="space-y-1">
+            {summary.byTask.map(row => (
+              <div key={row.task} className="flex items-center justify-between text-xs px-1">
+                <span className="font-bold text-slate-600 truncate">{AI_TASK_LABELS[row.task] || row.task}</span>
+                <span className="text-slate-400 font-medium shrink-0">{row.calls} · {formatTokens(row.tokens)} tok · {formatUsd(row.costUsd)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {recent.length === 0 ? (
+          <p className="text-xs text-slate-400 font-medium text-center py-2">Every AI request is logged here with its model, tokens and cost estimate.</p>
+        ) : (
+          <div className="space-y-1 border-t border-slate-100 pt-3">
+            {recent.map(entry => (
+              <div key={entry.id} className="flex items-center gap-3 p-2 rounded-xl hover:bg-slate-50">
+                <div className="bg-slate-50 p-2 rounded-lg"><Activity className={`w-4 h-4 ${STATUS_STYLES[entry.status]}`} /></div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-bold text-slate-700 truncate">{AI_TASK_LABELS[entry.task] || entry.task}</p>
+                  <p className="text-[10px] text-slate-400 font-medium truncate" title={entry.error}>
+                    {new Date(entry.timestamp).toLocaleString()} · {modelLabel(entry.models[entry.models.length - 1])}
+                    {entry.fallbacks > 0 && ' (fallback)'}
+                    {entry.retries > 0 && ` · ${entry.retries} retry`}
+                    {entry.status === 'success' || entry.status === 'error' ? ` · ${(entry.latencyMs / 1000).toFixed(1)}s · ${formatTokens(entry.totalTokens)} tok` : ` · ${entry.status}`}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        <p className="text-[10px] text-slate-400 font-medium">Costs are estimates from list prices. The offline mock provider is free.</p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,31 @@
+import React, { useEffect, useState } from 'react';
+import { attachments } from '../services/attachments';
+
+interface AttachmentImageProps {
+  attachmentId?: string;
+  legacyUrl?: string; // Inline data URL on records not yet moved to the attachment store
+  variant?: 'thumbnail' | 'full';
+  className?: string;
+  alt?: string;
+  fallback?: React.ReactNode;
+}
+
+export const AttachmentImage: React.FC<AttachmentImageProps> = ({ attachmentId, legacyUrl, variant = 'thumbnail', className, alt = '', fallback = null }) => {
+  const [src, setSrc] = useState<string | null>(legacyUrl || null);
+
+  useEffect(() => {
+    if (!attachmentId) {
+      setSrc(legacyUrl || null);
+      return;
+    }
+    let cancelled = false;
+    const load = variant === 'thumbnail' ? attachments.getThumbnail(attachmentId) : attachments.getObjectUrl(attachmentId);
+    load
+      .then(url => { if (!cancelled) setSrc(url || legacyUrl || null); })
+      .catch(e => console.error("Failed to load attachment", e));
+    return () => { cancelled = true; };
+  }, [attachmentId, legacyUrl, variant]);
+
+  if (!src) return <>{fallback}</>;
+  return <img src={src} alt={alt} className={className} />;
+};
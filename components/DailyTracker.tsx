@@ -3,6 +3,7 @@ import React, { useState } from 'react';
 import { db } from '../services/db';
 import { processVoiceCommand } from '../services/geminiService';
 import { BehaviorLog } from '../types';
+import { ValidationError, formatValidationIssues, partitionValid, validateBehaviorLog } from '../services/validation';
 import { Droplet, Moon, CloudSun, Dumbbell, Zap, Smile, Activity, Brain, UserPlus } from 'lucide-react';
 import { VoiceRecorder } from './VoiceRecorder';
 
@@ -19,13 +20,18 @@ export const DailyTracker: React.FC = () => {
   const [isProcessingVoice, setIsProcessingVoice] = useState(false);
 
   const saveLog = (type: BehaviorLog['type'], value: number | string, quality?: number) => {
-    db.addBehaviorLog({
-      id: crypto.randomUUID(),
-      timestamp: new Date().toISOString(),
-      type,
-      value,
-      quality
-    });
+    try {
+      db.addBehaviorLog({
+        id: crypto.randomUUID(),
+        timestamp: new Date().toISOString(),
+        type,
+        value,
+        quality
+      });
+    } catch (e) {
+      console.error(e);
+      if (e instanceof ValidationError) alert(`Log not saved:\n${formatValidationIssues(e.issues)}`);
+    }
   };
 
   const handleWater = (increment: number) => {
@@ -49,18 +55,20 @@ export const DailyTracker: React.FC = () => {
     try {
       const result = await processVoiceCommand(text, user);
       
-      result.behaviorLogs.forEach(log => {
-        if (log.type && log.value) {
-           db.addBehaviorLog({
-             id: crypto.randomUUID(),
-             timestamp: new Date().toISOString(),
-             type: log.type,
-             value: log.value,
-             details: log.details
-           } as BehaviorLog);
-        }
-      });
-      alert(`Processed ${result.behaviorLogs.length} updates from voice.`);
+      const { valid, errors } = partitionValid((result.behaviorLogs || []).map(log => ({
+        id: crypto.randomUUID(),
+        timestamp: new Date().toISOString(),
+        type: log.type,
+        value: log.value,
+        details: log.details
+      })), validateBehaviorLog);
+      valid.forEach(log => db.addBehaviorLog(log, 'ai'));
+      if (errors.length > 0) {
+        console.warn("Skipped invalid voice logs", errors);
+        alert(`Processed ${valid.length} updates from voice. Skipped ${errors.length} that could not be understood:\n${formatValidationIssues(errors)}`);
+      } else {
+        alert(`Processed ${valid.length} updates from voice.`);
+      }
     } catch (e) {
       console.error(e);
     } finally {
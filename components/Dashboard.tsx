@@ -1,9 +1,14 @@
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { db } from '../services/db';
-import { generatePatternInsights, getSmartReminders, runFlareDetective } from '../services/geminiService';
+import { generatePatternInsights, getSmartReminders, runFlareDetective, buildPatternInsightsPrompt, buildFlareDetectivePrompt } from '../services/geminiService';
+import { isAbortError } from '../services/aiScheduler';
+import { getProviderId } from '../services/aiProvider';
+import { redaction } from '../services/redaction';
+import { triggerAnalytics, TriggerAnalysis, LagAnalysis } from '../services/triggerAnalytics';
+import { trials } from '../services/trials';
 import { AppState, Reminder, DeepAnalysis, FlareDetectiveReport } from '../types';
-import { Sparkles, TrendingUp, TrendingDown, Activity, Bell, Clock, Beaker, Shield, AlertOctagon, RefreshCw, CheckCircle2, Flame, X, ArrowRight, ScanLine, Search, Camera, ScanBarcode, Microscope, CalendarHeart, Loader2, Layers, AlertTriangle, Plus, CloudSun, Utensils, Smile, Heart, Sunrise, CloudRain, Sun, HelpCircle, MessageCircle, Zap, ShieldAlert, Info, ShoppingBag, Fingerprint, BrainCircuit, BarChart, Database } from 'lucide-react';
+import { Sparkles, TrendingUp, TrendingDown, Activity, Bell, Clock, Beaker, Shield, AlertOctagon, RefreshCw, CheckCircle2, Flame, X, ArrowRight, ScanLine, Search, Camera, ScanBarcode, Microscope, CalendarHeart, Loader2, Layers, AlertTriangle, Plus, CloudSun, Utensils, Smile, Heart, Sunrise, CloudRain, Sun, HelpCircle, MessageCircle, Zap, ShieldAlert, Info, ShoppingBag, Fingerprint, BrainCircuit, BarChart, Database, FileText, Download } from 'lucide-react';
 import {
   AreaChart,
   Area,
@@ -12,6 +17,12 @@ import {
   XAxis
 } from 'recharts';
 import { LabManager } from './LabManager';
+import { PayloadPreview } from './PayloadPreview';
+import { LagResponsePanel } from './LagResponsePanel';
+import { ExperimentsPanel } from './ExperimentsPanel';
+import { TrialsPanel } from './TrialsPanel';
+
+const MAX_STACKING_TRIGGERS = 5;
 
 export const Dashboard: React.FC = () => {
   const [data, setData] = useState<AppState | null>(null);
@@ -24,14 +35,21 @@ export const Dashboard: React.FC = () => {
   const [hasSufficientData, setHasSufficientData] = useState(false);
   const [detectiveReport, setDetectiveReport] = useState<FlareDetectiveReport | null>(null);
   const [isRunningDetective, setIsRunningDetective] = useState(false);
-  const [triggerMap, setTriggerMap] = useState<{name: string, probability: number, volume: number}[]>([]);
+  const [triggerMap, setTriggerMap] = useState<TriggerAnalysis | null>(null);
+  const [lagAnalysis, setLagAnalysis] = useState<LagAnalysis | null>(null);
+  const [stackingTriggers, setStackingTriggers] = useState<NonNullable<DeepAnalysis['stackingTriggers']>>([]);
   const [showIndexInfo, setShowIndexInfo] = useState(false);
+  const [pendingSend, setPendingSend] = useState<{ title: string; payload: string; run: () => void } | null>(null);
+  // Cancels queued and in-flight AI requests when the user leaves the screen
+  const aiAbort = useRef<AbortController | null>(null);
 
   useEffect(() => {
-    loadData();
+    aiAbort.current = new AbortController();
+    loadData(aiAbort.current.signal);
+    return () => aiAbort.current?.abort();
   }, []);
 
-  const loadData = async () => {
+  const loadData = async (signal?: AbortSignal) => {
     const state = db.getState();
     setData(state);
     setAnalysis(state.currentAnalysis || null);
@@ -48,8 +66,8 @@ export const Dashboard: React.FC = () => {
     calculateTriggerCorrelations(state);
     
     try {
-        const smartReminders = await getSmartReminders(state);
-        if (smartReminders) setReminders(smartReminders);
+        const smartReminders = await getSmartReminders(state, signal);
+        if (smartReminders && !signal?.aborted) setReminders(smartReminders);
     } catch (e) {
         console.warn("Reminders offline.");
     }
@@ -57,37 +75,12 @@ export const Dashboard: React.FC = () => {
 
   const calculateTriggerCorrelations = (state: AppState) => {
     if (!state.foodLogs) return;
-    const stats: Record<string, { exposures: number; flares: number }> = {};
-    const WINDOW = 48 * 60 * 60 * 1000;
-
-    state.foodLogs.forEach(foodLog => {
-        const foodTime = new Date(foodLog.timestamp).getTime();
-        const relevantFlare = (state.flareLogs || []).find(f => {
-            const fTime = new Date(f.timestamp).getTime();
-            return fTime > foodTime && fTime < (foodTime + WINDOW) && f.severity >= 2;
-        });
-
-        if (foodLog.detectedItems) {
-            foodLog.detectedItems.forEach(item => {
-                const cat = item.category || 'Other';
-                if (cat === 'Other' || cat === 'Manual Entry') return; 
-                if (!stats[cat]) stats[cat] = { exposures: 0, flares: 0 };
-                stats[cat].exposures += 1;
-                if (relevantFlare) stats[cat].flares += 1;
-            });
-        }
-    });
-
-    const mapData = Object.entries(stats)
-        .map(([name, data]) => ({
-            name,
-            probability: data.exposures > 0 ? Math.round((data.flares / data.exposures) * 100) : 0,
-            volume: data.exposures
-        }))
-        .filter(item => item.volume > 0) 
-        .sort((a, b) => b.probability - a.probability);
-
-    setTriggerMap(mapData);
+    setTriggerMap(triggerAnalytics.analyze(state.foodLogs, state.flareLogs || []));
+    setLagAnalysis(triggerAnalytics.analyzeLags(state.foodLogs, state.flareLogs || [], state.behaviorLogs || []));
+    setStackingTriggers(triggerAnalytics.stacking(state.foodLogs, state.flareLogs || [], state.behaviorLogs || [])
+      .filter(pair => pair.significant)
+      .slice(0, MAX_STACKING_TRIGGERS)
+      .map(pair => triggerAnalytics.describeStacking(pair)));
   };
 
   const prepareChartData = (state: AppState) => {
@@ -117,39 +110,59 @@ export const Dashboard: React.FC = () => {
     setStreakDays(currentStreak);
   };
 
-  const handleGenerateInsights = async () => {
+  // Lets the user review the redacted payload first, unless turned off or nothing leaves the device
+  const confirmSend = (title: string, payload: string, run: () => void) => {
+      if (redaction.getSettings().previewBeforeSending && getProviderId() !== 'mock') {
+          setPendingSend({ title, payload, run });
+      } else {
+          run();
+      }
+  };
+
+  const handleGenerateInsights = () => {
       if (!data) return;
       if (!data.foodLogs || data.foodLogs.length < 3) {
           alert("Log at least 3 meals to generate a Bio-Forecast.");
           return;
       }
+      confirmSend("Bio-Forecast Data", buildPatternInsightsPrompt(data).text, syncInsights);
+  };
+
+  const syncInsights = async () => {
       setLoadingInsights(true);
       try {
-          const result = await generatePatternInsights(data);
+          const result = await generatePatternInsights(data, aiAbort.current?.signal);
           if (result) {
-              setAnalysis(result);
-              db.saveAnalysis(result);
+              const saved = { ...result, stackingTriggers };
+              setAnalysis(saved);
+              db.saveAnalysis(saved);
           }
       } catch (e) {
+          if (isAbortError(e)) return;
           alert("Neural engine busy. Retrying...");
       } finally {
           setLoadingInsights(false);
       }
   };
 
-  const handleRunDetective = async () => {
+  const handleRunDetective = () => {
       if (!data || !data.foodLogs || data.foodLogs.length < 2) {
           alert("Detective mode requires more history.");
           return;
       }
+      confirmSend("Detective Data", buildFlareDetectivePrompt(data).text, runDetective);
+  };
+
+  const runDetective = async () => {
       setIsRunningDetective(true);
       try {
-          const report = await runFlareDetective(data);
+          const report = await runFlareDetective(data, aiAbort.current?.signal);
           if (report) {
             setDetectiveReport(report);
             db.saveFlareDetectiveReport(report);
           }
       } catch (e) {
+          if (isAbortError(e)) return;
           alert("Detective analysis failed.");
       } finally {
           setIsRunningDetective(false);
@@ -157,6 +170,19 @@ export const Dashboard: React.FC = () => {
   };
 
   const currentScore = chartData.length > 0 ? chartData[chartData.length - 1].score : 0;
+  // Only foods that raise the flare rate are suspects
+  const suspects = (triggerMap?.tested || []).filter(s => s.relativeRisk > 1);
+  // The analysis' own summary plus any trial reports the user attached
+  const clinicalSummary = trials.clinicalSummary(analysis?.clinicalSummary, data?.trials || []);
+
+  const handleDownloadSummary = () => {
+    const url = URL.createObjectURL(new Blob([clinicalSummary], { type: 'text/markdown' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `flarefinder_clinician_summary_${new Date().toISOString().split('T')[0]}.md`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
   
   const getWeatherIcon = (status?: string) => {
       if (status?.includes('Sunny')) return <Sun className="w-10 h-10 text-amber-200" />;
@@ -222,6 +248,20 @@ export const Dashboard: React.FC = () => {
          </div>
        )}
 
+       {stackingTriggers.length > 0 && (
+           <div className="bg-white p-5 rounded-3xl shadow-sm border border-slate-100 space-y-3">
+               <h4 className="font-black text-slate-400 text-[10px] uppercase tracking-widest flex items-center gap-2">
+                   <Layers className="w-4 h-4 text-rose-500" /> Stacking Triggers
+               </h4>
+               {stackingTriggers.map((stack, i) => (
+                   <div key={i} className="border-t border-slate-100 pt-3 first:border-0 first:pt-0">
+                       <p className="text-xs font-black text-slate-800">{stack.combinedEffect}</p>
+                       {stack.evidence && <p className="text-[10px] text-slate-400 font-medium leading-relaxed mt-1">{stack.evidence}</p>}
+                   </div>
+               ))}
+           </div>
+       )}
+
        <div className="bg-slate-900 rounded-[2.5rem] p-7 text-white shadow-2xl shadow-slate-200 relative overflow-hidden">
            <div className="absolute top-0 right-0 w-64 h-64 bg-teal-500/10 rounded-full blur-3xl -mr-20 -mt-20" />
            <div className="relative z-10">
@@ -285,7 +325,7 @@ export const Dashboard: React.FC = () => {
            </div>
        </div>
 
-       {triggerMap.length > 0 && (
+       {suspects.length > 0 && (
            <div className="space-y-4">
                <div className="flex items-center justify-between px-1">
                   <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.3em] flex items-center gap-2">
@@ -296,35 +336,46 @@ export const Dashboard: React.FC = () => {
                   </div>
                </div>
                <div className="grid grid-cols-1 gap-3">
-                   {triggerMap.slice(0, 4).map((suspect, i) => (
-                       <div key={i} className="bg-white p-5 rounded-3xl border border-slate-100 shadow-sm flex items-center gap-4 group hover:border-rose-200 transition-all relative overflow-hidden">
-                           {suspect.volume < 3 && (
+                   {suspects.slice(0, 4).map(suspect => (
+                       <div key={`${suspect.kind}:${suspect.name}`} className="bg-white p-5 rounded-3xl border border-slate-100 shadow-sm flex items-center gap-4 group hover:border-rose-200 transition-all relative overflow-hidden">
+                           {!suspect.significant && (
                                <div className="absolute top-0 right-0 bg-slate-900 text-white px-3 py-1 text-[8px] font-black uppercase tracking-widest rounded-bl-xl border-l border-b border-slate-800">
-                                  Low Confidence (Data Needed)
+                                  Not Significant Yet
                                </div>
                            )}
-                           <div className={`w-12 h-12 rounded-2xl flex items-center justify-center font-black text-lg ${suspect.probability > 60 ? 'bg-rose-100 text-rose-600' : 'bg-amber-100 text-amber-600'}`}>
-                               {suspect.probability}%
+                           <div className={`w-12 h-12 rounded-2xl flex items-center justify-center font-black text-base ${suspect.significant ? 'bg-rose-100 text-rose-600' : 'bg-amber-100 text-amber-600'}`}>
+                               {suspect.relativeRisk.toFixed(1)}×
                            </div>
-                           <div className="flex-1">
-                               <h4 className="font-black text-slate-800 text-base">{suspect.name}</h4>
+                           <div className="flex-1 min-w-0">
+                               <h4 className="font-black text-slate-800 text-base capitalize truncate">
+                                   {suspect.name} <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{suspect.kind}</span>
+                               </h4>
+                               <p className="text-[10px] text-slate-400 font-medium">
+                                   Flare after {Math.round(suspect.risk * 100)}% vs {Math.round(suspect.baselineRisk * 100)}% otherwise · 95% CI {suspect.ciLow.toFixed(1)}–{suspect.ciHigh.toFixed(1)}×
+                               </p>
                                <div className="w-full h-1.5 bg-slate-100 rounded-full mt-2 overflow-hidden">
-                                   <div className={`h-full rounded-full transition-all duration-1000 ${suspect.probability > 60 ? 'bg-rose-500' : 'bg-amber-500'}`} style={{ width: `${suspect.probability}%` }} />
+                                   <div className={`h-full rounded-full transition-all duration-1000 ${suspect.significant ? 'bg-rose-500' : 'bg-amber-500'}`} style={{ width: `${Math.round(suspect.risk * 100)}%` }} />
                                </div>
                            </div>
                            <div className="text-right">
                                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Exposures</p>
-                               <p className="text-xs font-black text-slate-700">{suspect.volume}x</p>
+                               <p className="text-xs font-black text-slate-700">{suspect.exposures}x</p>
                            </div>
                        </div>
                    ))}
                </div>
                <p className="text-[10px] text-center text-slate-400 font-medium px-4 leading-relaxed italic">
-                 "100% correlation means every recorded exposure preceded a flare within 48h. More data volume increases suspect reliability."
+                 "2.0× means flares followed meals with this food twice as often as meals without it, within {triggerMap.options.windowHours}h. Significance is corrected for the {triggerMap.tested.length} foods tested; {triggerMap.insufficient.length} more need {triggerMap.options.minExposures}+ exposures."
                </p>
            </div>
        )}
 
+       {lagAnalysis && <LagResponsePanel analysis={lagAnalysis} />}
+
+       <ExperimentsPanel suggestions={analysis?.experiments} />
+
+       <TrialsPanel onChange={() => setData(db.getState())} />
+
        {detectiveReport && (
            <div className="bg-indigo-50 border border-indigo-100 p-6 rounded-[2.5rem] shadow-sm animate-in slide-in-from-bottom-4 duration-500">
                <div className="flex items-center gap-3 mb-5">
@@ -346,6 +397,20 @@ export const Dashboard: React.FC = () => {
            </div>
        )}
 
+       {clinicalSummary && (
+           <div className="bg-white p-6 rounded-[2.5rem] shadow-sm border border-slate-100 space-y-4">
+               <div className="flex items-center justify-between">
+                   <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.3em] flex items-center gap-2">
+                       <FileText className="w-4 h-4 text-indigo-500" /> Clinician Summary
+                   </h3>
+                   <button onClick={handleDownloadSummary} className="text-[10px] font-black text-indigo-600 uppercase tracking-widest flex items-center gap-1">
+                       <Download className="w-3 h-3" /> Download
+                   </button>
+               </div>
+               <pre className="text-[11px] text-slate-600 font-mono whitespace-pre-wrap leading-relaxed max-h-64 overflow-y-auto bg-slate-50 p-4 rounded-2xl">{clinicalSummary}</pre>
+           </div>
+       )}
+
        <div className="w-full">
           <button onClick={() => setShowLabs(true)} className="w-full bg-white p-6 rounded-[2.5rem] shadow-sm border border-slate-100 flex items-center gap-6 hover:border-indigo-200 active:scale-95 transition-all">
               <div className="bg-indigo-50 p-5 rounded-3xl flex-shrink-0"><Microscope className="w-10 h-10 text-indigo-600" /></div>
@@ -357,6 +422,14 @@ export const Dashboard: React.FC = () => {
        </div>
 
        {showLabs && <LabManager onClose={() => setShowLabs(false)} />}
+       {pendingSend && (
+           <PayloadPreview
+               title={pendingSend.title}
+               payload={pendingSend.payload}
+               onSend={() => { pendingSend.run(); setPendingSend(null); }}
+               onCancel={() => setPendingSend(null)}
+           />
+       )}
     </div>
   );
 };
@@ -0,0 +1,265 @@
+import React, { useEffect, useState } from 'react';
+import { db } from '../services/db';
+import { experiments, ExperimentDay, DEFAULT_EXPERIMENT_DAYS } from '../services/experiments';
+import { ValidationError, formatValidationIssues } from '../services/validation';
+import { AppState, Experiment, ExperimentResult } from '../types';
+import { FlaskConical, Plus, X, CheckCircle2, AlertTriangle, Loader2 } from 'lucide-react';
+
+const SHOWN_COMPLETED = 3;
+
+const PHASE_LABELS: Record<ExperimentDay['phase'], string> = {
+  elimination: 'Elimination',
+  reintroduction: 'Challenge',
+  washout: 'Washout'
+};
+
+const VERDICT_STYLES: Record<ExperimentResult['verdict'], string> = {
+  reactive: 'bg-rose-100 text-rose-600',
+  tolerated: 'bg-teal-100 text-teal-700',
+  inconclusive: 'bg-slate-100 text-slate-500'
+};
+
+const dayStyle = (day?: ExperimentDay) => {
+  if (!day) return 'bg-white border border-slate-200';
+  if (day.followedPlan === undefined) return 'bg-slate-200';
+  return day.followedPlan ? 'bg-teal-500' : 'bg-rose-500';
+};
+
+const emptyDraft = () => ({ target: '', hypothesis: '', ...DEFAULT_EXPERIMENT_DAYS });
+
+interface ActiveExperimentProps {
+  experiment: Experiment;
+  state: AppState;
+  onSave: (experiment: Experiment) => Promise<boolean>;
+  onAbandon: (experiment: Experiment) => void;
+}
+
+const ActiveExperiment: React.FC<ActiveExperimentProps> = ({ experiment, state, onSave, onAbandon }) => {
+  const [checkIn, setCheckIn] = useState<{ severity: number | null; followedPlan: boolean }>({ severity: null, followedPlan: true });
+
+  const handleCheckIn = async (day: number) => {
+    if (checkIn.severity === null) return;
+    const saved = await onSave({
+      ...experiment,
+      checkIns: [...experiment.checkIns.filter(c => c.day !== day), {
+        day, severity: checkIn.severity, followedPlan: checkIn.followedPlan, timestamp: new Date().toISOString()
+      }]
+    });
+    if (saved) setCheckIn({ severity: null, followedPlan: true });
+  };
+
+  const days = experiments.days(experiment, state.foodLogs, state.flareLogs);
+  const total = experiments.totalDays(experiment);
+  const today = days[days.length - 1];
+  const logged = days.filter(d => d.followedPlan !== undefined);
+  const followed = logged.filter(d => d.followedPlan).length;
+  return (
+    <div className="bg-white p-5 rounded-3xl border border-slate-100 shadow-sm space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <h4 className="font-black text-slate-800 text-sm">{experiment.hypothesis}</h4>
+          <p className="text-[10px] text-slate-400 font-medium">
+            {today ? `${PHASE_LABELS[today.phase]} · day ${today.day + 1} of ${total}` : 'Starts today'} · plan followed on {followed} of {logged.length} logged days
+          </p>
+        </div>
+        <button onClick={() => onAbandon(experiment)} title="Stop experiment" className="p-1 text-slate-300 hover:text-rose-500"><X className="w-4 h-4" /></button>
+      </div>
+
+      {today && (
+        <p className={`text-xs font-bold p-3 rounded-xl ${today.phase === 'reintroduction' ? 'bg-amber-50 text-amber-700' : 'bg-teal-50 text-teal-700'}`}>
+          {today.phase === 'reintroduction' ? `Challenge day: eat some ${experiment.target} today.` : `Avoid ${experiment.target} today.`}
+          {today.phase !== 'reintroduction' && today.exposed && (
+            <span className="flex items-center gap-1 text-rose-600 mt-1"><AlertTriangle className="w-3.5 h-3.5" /> A meal logged today contains {experiment.target}.</span>
+          )}
+        </p>
+      )}
+
+      <div className="flex gap-1">
+        {Array.from({ length: total }, (_, i) => (
+          <div key={i} title={`Day ${i + 1}: ${PHASE_LABELS[experiments.phaseOn(experiment, i)!]}`}
+            className={`flex-1 h-2 rounded-full ${dayStyle(days[i])} ${experiments.phaseOn(experiment, i) === 'reintroduction' ? 'ring-1 ring-amber-300' : ''}`} />
+        ))}
+      </div>
+
+      {today && (today.checkIn ? (
+        <p className="text-[10px] text-slate-400 font-medium flex items-center gap-1">
+          <CheckCircle2 className="w-3.5 h-3.5 text-teal-500" /> Checked in today: symptoms {today.checkIn.severity}/5{today.checkIn.followedPlan ? '' : ', plan not followed'}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-xs font-bold text-slate-600">How were your symptoms today?</p>
+          <div className="grid grid-cols-6 gap-1">
+            {[0, 1, 2, 3, 4, 5].map(level => (
+              <button key={level} onClick={() => setCheckIn({ ...checkIn, severity: level })}
+                className={`py-2 rounded-lg text-xs font-black ${checkIn.severity === level ? 'bg-slate-900 text-white' : 'bg-slate-50 text-slate-500 border border-slate-200'}`}>
+                {level}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center justify-between gap-3">
+            <label className="flex items-center gap-2 text-xs text-slate-500 font-medium cursor-pointer">
+              <input type="checkbox" checked={checkIn.followedPlan} onChange={e => setCheckIn({ ...checkIn, followedPlan: e.target.checked })} className="w-4 h-4 accent-teal-600" />
+              I followed the plan
+            </label>
+            <button onClick={() => handleCheckIn(today.day)} disabled={checkIn.severity === null}
+              className="px-4 py-2 rounded-xl bg-teal-600 text-white text-xs font-black uppercase disabled:opacity-50">
+              Check in
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Elimination-reintroduction experiments: plan, daily check-ins and results
+export const ExperimentsPanel: React.FC<{ suggestions?: string[] }> = ({ suggestions = [] }) => {
+  const [state, setState] = useState(db.getState());
+  const [draft, setDraft] = useState<ReturnType<typeof emptyDraft> | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const all = state.experiments || [];
+  const active = all.filter(e => e.status === 'active');
+  const completed = all.filter(e => e.status === 'completed').slice(0, SHOWN_COMPLETED);
+
+  const save = async (experiment: Experiment, source: 'manual' | 'system' = 'manual') => {
+    try {
+      await db.saveExperiment({ ...experiment, updatedAt: new Date().toISOString() }, source);
+    } catch (e) {
+      console.error(e);
+      if (e instanceof ValidationError) alert(`Experiment not saved:\n${formatValidationIssues(e.issues)}`);
+      return false;
+    }
+    setState(db.getState());
+    return true;
+  };
+
+  // Experiments that ran their course get their result as soon as the panel is seen
+  useEffect(() => {
+    const current = db.getState();
+    const finished = (current.experiments || []).filter(e => e.status === 'active' && experiments.isFinished(e));
+    if (finished.length === 0) return;
+    Promise.all(finished.map(e => save({
+      ...e, status: 'completed', result: experiments.evaluate(e, current.foodLogs, current.flareLogs)
+    }, 'system')));
+  }, []);
+
+  const handleStart = async () => {
+    if (!draft || !draft.target.trim()) return;
+    setSaving(true);
+    const started = await save(experiments.create({
+      ...draft,
+      hypothesis: draft.hypothesis.trim() || `Does ${draft.target.trim()} affect my flares?`
+    }));
+    setSaving(false);
+    if (started) setDraft(null);
+  };
+
+  const handleSuggestion = (text: string) => {
+    const parsed = experiments.fromSuggestion(text);
+    setDraft({ ...emptyDraft(), hypothesis: text, ...parsed });
+  };
+
+  const handleAbandon = (experiment: Experiment) => {
+    if (confirm(`Stop the ${experiment.target} experiment? It will not produce a result.`)) save({ ...experiment, status: 'abandoned' });
+  };
+
+  const handleSaveSensitivity = async (experiment: Experiment) => {
+    const level = experiment.result && experiments.sensitivityLevel(experiment.result);
+    if (!level) return;
+    try {
+      await db.updateUserSensitivities([{ food: experiment.target, level, source: 'manual', dateDetected: new Date().toISOString() }]);
+    } catch (e) {
+      console.error(e);
+      if (e instanceof ValidationError) alert(`Sensitivity not saved:\n${formatValidationIssues(e.issues)}`);
+      return;
+    }
+    save({ ...experiment, result: { ...experiment.result!, savedAsSensitivity: level } });
+  };
+
+  const inputClass = "w-full p-2.5 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold text-slate-700 focus:ring-2 focus:ring-teal-500 focus:outline-none";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between px-1">
+        <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.3em] flex items-center gap-2">
+          <FlaskConical className="w-4 h-4 text-teal-500" /> Experiments
+        </h3>
+        {!draft && (
+          <button onClick={() => setDraft(emptyDraft())} className="text-[10px] font-black text-teal-600 uppercase tracking-widest flex items-center gap-1">
+            <Plus className="w-3 h-3" /> New
+          </button>
+        )}
+      </div>
+
+      {!draft && active.length === 0 && suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {suggestions.map((s, i) => (
+            <button key={i} onClick={() => handleSuggestion(s)} className="text-xs bg-white border border-slate-200 px-3 py-1.5 rounded-full text-slate-600 hover:border-teal-400 hover:text-teal-600 transition-colors shadow-sm">
+              {s}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {draft && (
+        <div className="bg-white p-5 rounded-3xl border border-slate-100 shadow-sm space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="font-black text-slate-800 text-sm">New experiment</h4>
+            <button onClick={() => setDraft(null)} className="p-1 text-slate-400 hover:text-slate-600"><X className="w-4 h-4" /></button>
+          </div>
+          <input value={draft.target} onChange={e => setDraft({ ...draft, target: e.target.value })} placeholder="Food or category to test, e.g. dairy" className={inputClass} />
+          <input value={draft.hypothesis} onChange={e => setDraft({ ...draft, hypothesis: e.target.value })} placeholder="Hypothesis, e.g. Dairy makes my flares worse" className={inputClass} />
+          <div className="grid grid-cols-3 gap-2">
+            {([['eliminationDays', 'Avoid (days)'], ['challengeDays', 'Reintroduce'], ['washoutDays', 'Washout']] as const).map(([key, label]) => (
+              <label key={key} className="space-y-1">
+                <span className="text-[10px] font-black text-slate-400 uppercase">{label}</span>
+                <input
+                  type="number" min={key === 'washoutDays' ? 0 : 1} max={90}
+                  value={draft[key]}
+                  onChange={e => setDraft({ ...draft, [key]: Math.max(0, Math.round(Number(e.target.value) || 0)) })}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+          </div>
+          <p className="text-[10px] text-slate-400 font-medium leading-relaxed">
+            Avoid it, then eat it on the challenge days, then avoid it again while delayed reactions show up. Log meals and check in daily.
+          </p>
+          <button onClick={handleStart} disabled={!draft.target.trim() || saving} className="w-full py-3 rounded-xl bg-slate-900 text-white text-xs font-black uppercase disabled:opacity-50 flex items-center justify-center gap-2">
+            {saving && <Loader2 className="w-3.5 h-3.5 animate-spin" />} Start today
+          </button>
+        </div>
+      )}
+
+      {active.map(experiment => (
+        <ActiveExperiment key={experiment.id} experiment={experiment} state={state} onSave={save} onAbandon={handleAbandon} />
+      ))}
+
+      {completed.map(experiment => {
+        const result = experiment.result;
+        if (!result) return null;
+        const level = experiments.sensitivityLevel(result);
+        return (
+          <div key={experiment.id} className="bg-white p-5 rounded-3xl border border-slate-100 shadow-sm space-y-2">
+            <div className="flex items-center justify-between gap-3">
+              <h4 className="font-black text-slate-800 text-sm truncate">{experiment.hypothesis}</h4>
+              <span className={`text-[8px] font-black uppercase tracking-widest px-2 py-1 rounded-lg flex-shrink-0 ${VERDICT_STYLES[result.verdict]}`}>{result.verdict}</span>
+            </div>
+            <p className="text-xs text-slate-600 font-medium leading-relaxed">{result.summary}</p>
+            <p className="text-[10px] text-slate-400 font-medium">
+              {result.daysWithData} days logged · plan followed {Math.round(result.adherence * 100)}% · {new Date(result.evaluatedAt).toLocaleDateString()}
+            </p>
+            {level && (result.savedAsSensitivity ? (
+              <p className="text-[10px] font-black text-teal-600 uppercase">Saved as {result.savedAsSensitivity} sensitivity</p>
+            ) : (
+              <button onClick={() => handleSaveSensitivity(experiment)} className="w-full py-2.5 rounded-xl border border-rose-200 text-rose-600 text-xs font-black uppercase hover:bg-rose-50">
+                Save {experiment.target} as a {level} sensitivity
+              </button>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
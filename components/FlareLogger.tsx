@@ -2,7 +2,9 @@
 import React, { useState, useEffect } from 'react';
 import { db } from '../services/db';
 import { FlareLog } from '../types';
+import { ValidationError, formatValidationIssues } from '../services/validation';
 import { Flame, MapPin, Frown, Save, X, Plus, Clock, RotateCcw, CloudSun, Loader2, ShieldAlert, PhoneCall, ExternalLink, Thermometer, Droplets, StickyNote, ChevronRight, Trash2, ArrowLeft, History } from 'lucide-react';
+import { RecordHistory } from './RecordHistory';
 
 export const FlareLogger: React.FC = () => {
   const [showForm, setShowForm] = useState(false);
@@ -17,6 +19,7 @@ export const FlareLogger: React.FC = () => {
 
   useEffect(() => {
     loadHistory();
+    return db.subscribe(loadHistory);
   }, []);
 
   const loadHistory = () => {
@@ -45,10 +48,8 @@ export const FlareLogger: React.FC = () => {
   const handleDeleteLog = (e: React.MouseEvent, id: string) => {
     e.preventDefault();
     e.stopPropagation();
-    if (window.confirm("Delete this record permanently?")) {
-        db.deleteFlareLog(id);
-        loadHistory();
-    }
+    db.deleteFlareLog(id);
+    loadHistory();
   };
 
   const fetchWeatherData = async (): Promise<{temperature: number, humidity: number} | undefined> => {
@@ -80,7 +81,14 @@ export const FlareLogger: React.FC = () => {
       notes,
       weather
     };
-    db.addFlareLog(log);
+    try {
+      db.addFlareLog(log);
+    } catch (err) {
+      console.error(err);
+      if (err instanceof ValidationError) alert(`Flare not saved:\n${formatValidationIssues(err.issues)}`);
+      setIsSaving(false);
+      return;
+    }
     resetForm();
     loadHistory();
   };
@@ -190,6 +198,12 @@ export const FlareLogger: React.FC = () => {
                     >
                         <Trash2 className="w-5 h-5" />
                     </button>
+                    <RecordHistory
+                        collection="flareLogs"
+                        recordId={log.id}
+                        title="Flare History"
+                        className="absolute bottom-6 right-6 p-2 bg-slate-50 text-slate-400 rounded-xl hover:text-indigo-500 transition-all z-[20] shadow-sm active:scale-90"
+                    />
                 </div>
               ))
           )}
@@ -2,9 +2,15 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Camera, Upload, Loader2, CheckCircle, AlertCircle, Plus, Flame, Leaf, HelpCircle, Utensils, ArrowRight, Sparkles, Clock, Calendar, Trash2, X, ThumbsUp, ThumbsDown, Check, Edit2, Keyboard, FlaskConical, AlertTriangle, ShieldCheck, ScanBarcode, ShoppingCart, ListPlus, Activity, ChefHat, Droplet, Save, ShieldAlert, Shield, SearchX, Zap, Info, XCircle } from 'lucide-react';
 import { analyzeFoodImage, processVoiceCommand, simulateMealImpact, scanGroceryProduct, enrichManualFoodItem } from '../services/geminiService';
+import { isAbortError } from '../services/aiScheduler';
 import { db } from '../services/db';
+import { attachments, isDataUrl } from '../services/attachments';
+import { experiments } from '../services/experiments';
+import { ValidationError, ValidationIssue } from '../services/validation';
 import { FoodLog, FoodItem, SimulationResult, ShoppingListItem } from '../types';
 import { VoiceRecorder } from './VoiceRecorder';
+import { AttachmentImage } from './AttachmentImage';
+import { RecordHistory } from './RecordHistory';
 
 // Helper for robust level detection
 const isHighRisk = (level?: string) => {
@@ -42,6 +48,7 @@ const compressImage = (base64Str: string, maxWidth = 1024, quality = 0.7): Promi
 export const FoodLogger: React.FC = () => {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [imageId, setImageId] = useState<string | null>(null);
   const [analysisResult, setAnalysisResult] = useState<Partial<FoodLog> | null>(null);
   const [history, setHistory] = useState<FoodLog[]>([]);
   const [manualAddInput, setManualAddInput] = useState('');
@@ -51,9 +58,18 @@ export const FoodLogger: React.FC = () => {
   const [mode, setMode] = useState<'meal' | 'grocery'>('meal');
   const [isSavingStatus, setIsSavingStatus] = useState(false);
   const [saveSuccess, setSaveSuccess] = useState(false);
+  const [saveErrors, setSaveErrors] = useState<ValidationIssue[]>([]);
+  // Cancels queued and in-flight AI requests when the user leaves the screen
+  const aiAbort = useRef<AbortController | null>(null);
 
   useEffect(() => {
     loadHistory();
+    return db.subscribe(loadHistory);
+  }, []);
+
+  useEffect(() => {
+    aiAbort.current = new AbortController();
+    return () => aiAbort.current?.abort();
   }, []);
 
   const loadHistory = () => {
@@ -72,6 +88,7 @@ export const FoodLogger: React.FC = () => {
       const rawBase64 = reader.result as string;
       const compressed = await compressImage(rawBase64);
       setImagePreview(compressed);
+      setImageId(null);
       const dataPayload = compressed.split(',')[1];
       if (action === 'scan') processGroceryScan(dataPayload);
       else processImage(dataPayload);
@@ -85,10 +102,11 @@ export const FoodLogger: React.FC = () => {
     setMode('meal');
     const user = db.getState().user;
     try {
-      const result = await analyzeFoodImage(base64, "image/jpeg", user);
+      const result = await analyzeFoodImage(base64, "image/jpeg", user, aiAbort.current?.signal);
       if (result) setAnalysisResult(result);
       else throw new Error("AI returned no results.");
     } catch (err) {
+      if (isAbortError(err)) return;
       console.error(err);
       alert("Analysis failed. Please try again.");
       resetForm();
@@ -105,13 +123,14 @@ export const FoodLogger: React.FC = () => {
       const user = db.getState().user;
       if (!user) return;
       try {
-          const enrichedItem = await enrichManualFoodItem(itemToEnrich, user);
+          const enrichedItem = await enrichManualFoodItem(itemToEnrich, user, aiAbort.current?.signal);
           setAnalysisResult(prev => ({
               ...prev,
               detectedItems: [...(prev?.detectedItems || []), enrichedItem],
               timestamp: prev?.timestamp || new Date().toISOString()
           }));
       } catch (err) {
+          if (isAbortError(err)) return;
           console.error(err);
           setAnalysisResult(prev => ({
               ...prev,
@@ -131,9 +150,10 @@ export const FoodLogger: React.FC = () => {
     setMode('grocery');
     const user = db.getState().user;
     try {
-      const result = await scanGroceryProduct(base64, "image/jpeg", user);
+      const result = await scanGroceryProduct(base64, "image/jpeg", user, aiAbort.current?.signal);
       if (result) setAnalysisResult(result);
     } catch (err) {
+      if (isAbortError(err)) return;
       console.error(err);
       alert("Grocery scan failed.");
     } finally {
@@ -148,18 +168,23 @@ export const FoodLogger: React.FC = () => {
     setIsAnalyzing(true);
     const user = db.getState().user;
     try {
-      const result = await processVoiceCommand(originalText, user);
+      const result = await processVoiceCommand(originalText, user, aiAbort.current?.signal);
       if (result.foodLogs && result.foodLogs.length > 0) setAnalysisResult(result.foodLogs[0]);
       else {
-          const enrichedItem = await enrichManualFoodItem(originalText, user!);
+          const enrichedItem = await enrichManualFoodItem(originalText, user!, aiAbort.current?.signal);
           setAnalysisResult({ detectedItems: [enrichedItem], timestamp: new Date().toISOString() });
       }
-    } catch (err) { console.error(err); alert("Processing error."); } finally { setIsAnalyzing(false); }
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error(err);
+      alert("Processing error.");
+    } finally { setIsAnalyzing(false); }
   };
 
   const startEdit = (log: FoodLog) => {
     setAnalysisResult(log);
     setImagePreview(log.imageUrl || null);
+    setImageId(log.imageId || null);
     setEditingLogId(log.id);
     setMode(log.isGroceryScan ? 'grocery' : 'meal');
     window.scrollTo({ top: 0, behavior: 'smooth' });
@@ -175,25 +200,47 @@ export const FoodLogger: React.FC = () => {
   const handleDeleteLog = (e: React.MouseEvent, id: string) => {
     e.preventDefault();
     e.stopPropagation();
-    if (window.confirm("Delete this meal log permanently?")) {
-        db.deleteFoodLog(id);
-        loadHistory();
-    }
+    db.deleteFoodLog(id);
+    loadHistory();
   };
 
   const handleSave = async () => {
     if (!analysisResult?.detectedItems?.length || isEnrichingManual) return;
     setIsSavingStatus(true);
     await new Promise(r => setTimeout(r, 400));
+    let savedImageId = imageId || undefined;
+    let inlineImage: string | undefined;
+    if (isDataUrl(imagePreview)) {
+      try {
+        savedImageId = await attachments.save(imagePreview);
+      } catch (err) {
+        // Keep the photo inline; db.init moves it to the attachment store on next launch
+        console.error(err);
+        inlineImage = imagePreview;
+      }
+    }
     const log: FoodLog = {
       id: editingLogId || (typeof crypto !== 'undefined' && crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36)),
       timestamp: analysisResult.timestamp || new Date().toISOString(),
-      imageUrl: imagePreview || undefined,
+      imageId: savedImageId,
+      imageUrl: inlineImage,
       detectedItems: analysisResult.detectedItems as FoodItem[],
       isGroceryScan: mode === 'grocery'
     };
-    if (editingLogId) db.updateFoodLog(log);
-    else db.addFoodLog(log);
+    try {
+      if (editingLogId) db.updateFoodLog(log);
+      else db.addFoodLog(log);
+    } catch (err) {
+      console.error(err);
+      setSaveErrors(err instanceof ValidationError ? err.issues : [{ path: 'log', message: 'could not be saved' }]);
+      setIsSavingStatus(false);
+      return;
+    }
+    setSaveErrors([]);
+    const broken = experiments.violatedBy(log, db.getState().experiments || []);
+    if (broken.length > 0) {
+      alert(`This meal contains ${broken.map(e => e.target).join(', ')}, which your experiment says to avoid today. It has been logged and counted as off-plan.`);
+    }
     setSaveSuccess(true);
     setTimeout(() => {
         setSaveSuccess(false);
@@ -205,10 +252,12 @@ export const FoodLogger: React.FC = () => {
 
   const resetForm = () => {
     setImagePreview(null);
+    setImageId(null);
     setAnalysisResult(null);
     setIsAnalyzing(false);
     setEditingLogId(null);
     setManualAddInput('');
+    setSaveErrors([]);
   };
 
   const getMealVerdict = () => {
@@ -403,7 +452,7 @@ export const FoodLogger: React.FC = () => {
                     <div key={log.id} className="relative group overflow-visible">
                         <div onClick={() => startEdit(log)} className="bg-white rounded-[2rem] p-4 shadow-sm border border-slate-100 flex gap-4 cursor-pointer hover:border-teal-200 hover:shadow-md transition-all relative z-10">
                             <div className="w-24 h-24 bg-slate-100 rounded-2xl overflow-hidden flex-shrink-0 border border-slate-50 relative">
-                                {log.imageUrl ? <img src={log.imageUrl} className="w-full h-full object-cover" /> : <Utensils className="w-8 h-8 m-auto text-slate-300" />}
+                                <AttachmentImage attachmentId={log.imageId} legacyUrl={log.imageUrl} className="w-full h-full object-cover" fallback={<Utensils className="w-8 h-8 m-auto text-slate-300" />} />
                                 <div className="absolute bottom-1 right-1 flex gap-0.5">
                                     {items.slice(0, 3).map((item, idx) => {
                                         const high = isHighRisk(item.sensitivityAlert?.level) || item.ingredientAnalysis?.some(ia => isHighRisk(ia.safetyLevel));
@@ -454,6 +503,12 @@ export const FoodLogger: React.FC = () => {
                         >
                             <Trash2 className="w-5 h-5" />
                         </button>
+                        <RecordHistory
+                            collection="foodLogs"
+                            recordId={log.id}
+                            title="Meal History"
+                            className="absolute bottom-4 right-4 p-2 bg-slate-50 text-slate-400 rounded-xl hover:text-indigo-500 transition-all z-[20] shadow-sm active:scale-90"
+                        />
                     </div>
                   );
                 })
@@ -473,6 +528,14 @@ export const FoodLogger: React.FC = () => {
                     <span className="font-bold">Entry Synchronized!</span>
                 </div>
             )}
+           {saveErrors.length > 0 && (
+                <div className="bg-rose-50 border border-rose-200 text-rose-700 p-4 rounded-2xl space-y-1 animate-in zoom-in duration-300">
+                    <p className="font-black text-sm flex items-center gap-2"><AlertCircle className="w-4 h-4" /> Entry not saved</p>
+                    {saveErrors.map((issue, i) => (
+                        <p key={i} className="text-xs font-medium"><span className="font-bold">{issue.path}</span> {issue.message}</p>
+                    ))}
+                </div>
+            )}
            {verdict && (
                 <div className={`${verdict.color} text-white p-7 rounded-[3rem] shadow-2xl flex items-center gap-5 relative overflow-hidden ring-4 ring-white/30 animate-in slide-in-from-top-4`}>
                     <div className="bg-white/20 p-4 rounded-3xl backdrop-blur-md shadow-inner border border-white/20">{verdict.icon}</div>
@@ -482,9 +545,11 @@ export const FoodLogger: React.FC = () => {
                     </div>
                 </div>
             )}
-           {imagePreview && (
+           {(imagePreview || imageId) && (
                 <div className="rounded-[2.5rem] overflow-hidden shadow-lg aspect-video bg-slate-100 border-4 border-white">
-                    <img src={imagePreview} alt="Analysis" className="w-full h-full object-cover" />
+                    {imagePreview
+                        ? <img src={imagePreview} alt="Analysis" className="w-full h-full object-cover" />
+                        : <AttachmentImage attachmentId={imageId!} variant="full" alt="Analysis" className="w-full h-full object-cover" />}
                 </div>
             )}
            <div className="space-y-5">
@@ -2,6 +2,10 @@
 import React, { useState, useEffect } from 'react';
 import { Upload, FileText, CheckCircle2, AlertTriangle, X, Loader2, Scan, BarChart3, PieChart, Info, Search, FlaskConical, Dna, Activity, ChevronDown, ChevronUp, Plus, TrendingUp, Tag, Save, HelpCircle } from 'lucide-react';
 import { db } from '../services/db';
+import { attachments } from '../services/attachments';
+import { RecordHistory } from './RecordHistory';
+import { AttachmentImage } from './AttachmentImage';
+import { ValidationError, formatValidationIssues, partitionValid, validateFoodSensitivity, validateBiomarker } from '../services/validation';
 import { parseLabResults } from '../services/geminiService';
 import { FoodSensitivity, AppState, LabReport, Biomarker } from '../types';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
@@ -63,12 +67,20 @@ export const LabManager: React.FC<{ onClose: () => void }> = ({ onClose }) => {
                     const base64Data = base64Raw.split(',')[1];
                     
                     try {
-                        const { sensitivities: newSensitivities, summary, extractedBiomarkers } = await parseLabResults(
+                        const parsed = await parseLabResults(
                             base64Data, 
                             file.type, 
                             uploadType, 
+                            db.getState().user,
                             (status) => setProcessingStatus(status)
                         );
+                        const summary = parsed.summary;
+                        // Drop malformed AI rows (e.g. non-numeric biomarker values) instead of storing them
+                        const { valid: newSensitivities, errors: sensitivityErrors } = partitionValid(parsed.sensitivities || [], validateFoodSensitivity);
+                        const { valid: extractedBiomarkers, errors: biomarkerErrors } = partitionValid(parsed.extractedBiomarkers || [], validateBiomarker);
+                        if (sensitivityErrors.length + biomarkerErrors.length > 0) {
+                            console.warn(`Skipped invalid rows in ${file.name}`, [...sensitivityErrors, ...biomarkerErrors]);
+                        }
                         
                         if (newSensitivities.length > 0) {
                             db.updateUserSensitivities(newSensitivities);
@@ -79,11 +91,16 @@ export const LabManager: React.FC<{ onClose: () => void }> = ({ onClose }) => {
                             db.addBiomarkers(extractedBiomarkers);
                         }
                         
+                        const imageId = file.type.startsWith('image/')
+                            ? await attachments.save(base64Raw).catch(err => { console.error(err); return undefined; })
+                            : undefined;
+
                         const newReport: LabReport = {
                             id: crypto.randomUUID(),
                             type: uploadType,
                             dateUploaded: new Date().toISOString(),
                             summary: summary,
+                            imageId,
                             extractedBiomarkers: extractedBiomarkers
                         };
                         db.addLabReport(newReport);
@@ -128,7 +145,7 @@ export const LabManager: React.FC<{ onClose: () => void }> = ({ onClose }) => {
             summary: "Manual Entry: " + manualText.substring(0, 100) + "...",
             rawText: manualText
           };
-          db.addLabReport(newReport);
+          db.addLabReport(newReport, 'manual');
           setReports(prev => [newReport, ...prev]);
           setManualText('');
           setManualMode(false);
@@ -149,7 +166,13 @@ export const LabManager: React.FC<{ onClose: () => void }> = ({ onClose }) => {
           source: 'manual',
           dateDetected: new Date().toISOString()
       };
-      db.updateUserSensitivities([newSensitivity]);
+      try {
+          db.updateUserSensitivities([newSensitivity]);
+      } catch (e) {
+          console.error(e);
+          if (e instanceof ValidationError) alert(`Trigger not saved:\n${formatValidationIssues(e.issues)}`);
+          return;
+      }
       loadData();
       setNewTriggerName('');
       setShowAddTrigger(false);
@@ -332,11 +355,14 @@ export const LabManager: React.FC<{ onClose: () => void }> = ({ onClose }) => {
                                  {filteredSensitivities.map((s, i) => (
                                      <div key={i} className="flex justify-between items-center bg-white p-3 rounded-lg shadow-sm border border-slate-100">
                                          <span className="font-bold text-slate-700">{s.food}</span>
-                                         <span className={`text-[10px] font-black px-2 py-1 rounded-full uppercase ${
-                                             s.level === 'high' ? 'bg-rose-100 text-rose-600' : 
-                                             s.level === 'medium' ? 'bg-orange-100 text-orange-600' : 
-                                             'bg-emerald-100 text-emerald-600'
-                                         }`}>{s.level}</span>
+                                         <div className="flex items-center gap-1">
+                                             <RecordHistory collection="foodSensitivities" recordId={s.food.toLowerCase()} title={`${s.food} History`} />
+                                             <span className={`text-[10px] font-black px-2 py-1 rounded-full uppercase ${
+                                                 s.level === 'high' ? 'bg-rose-100 text-rose-600' : 
+                                                 s.level === 'medium' ? 'bg-orange-100 text-orange-600' : 
+                                                 'bg-emerald-100 text-emerald-600'
+                                             }`}>{s.level}</span>
+                                         </div>
                                      </div>
                                  ))}
                              </div>
@@ -449,6 +475,9 @@ export const LabManager: React.FC<{ onClose: () => void }> = ({ onClose }) => {
                                     <span className="font-bold text-slate-800 capitalize text-sm">{report.type.replace('_', ' ')}</span>
                                     <span className="text-[10px] text-slate-400">{new Date(report.dateUploaded).toLocaleDateString()}</span>
                                 </div>
+                                {expandedReportId === report.id && (report.imageId || report.imageUrl) && (
+                                    <AttachmentImage attachmentId={report.imageId} legacyUrl={report.imageUrl} variant="full" alt="Lab scan" className="w-full rounded-lg border border-slate-100 mb-2" />
+                                )}
                                 <p className={`text-xs text-slate-600 leading-relaxed ${expandedReportId === report.id ? '' : 'line-clamp-2'}`}>{report.summary}</p>
                                 <button onClick={() => setExpandedReportId(expandedReportId === report.id ? null : report.id)} className="text-[10px] font-black text-indigo-600 mt-2 uppercase tracking-wider">
                                     {expandedReportId === report.id ? 'Collapse' : 'Expand Details'}
@@ -0,0 +1,58 @@
+import React from 'react';
+import { BarChart, Bar, Cell, XAxis, ReferenceLine, Tooltip, ResponsiveContainer } from 'recharts';
+import { LagAnalysis, LagStat } from '../services/triggerAnalytics';
+import { Clock } from 'lucide-react';
+
+const SHOWN = 3;
+
+const lagLabel = (lag: LagStat) => `${lag.startHours}-${lag.endHours}h`;
+
+// How flare risk after each suspect changes with the delay, from the on-device lag analysis
+export const LagResponsePanel: React.FC<{ analysis: LagAnalysis }> = ({ analysis }) => {
+  const triggers = analysis.triggers.filter(t => t.peak.relativeRisk > 1).slice(0, SHOWN);
+  if (triggers.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.3em] flex items-center gap-2 px-1">
+        <Clock className="w-4 h-4 text-indigo-500" /> Delayed Reactions
+      </h3>
+      {triggers.map(trigger => (
+        <div key={`${trigger.kind}:${trigger.name}`} className="bg-white p-5 rounded-3xl border border-slate-100 shadow-sm space-y-3">
+          <div className="flex items-start justify-between gap-3">
+            <div className="min-w-0">
+              <h4 className="font-black text-slate-800 text-base capitalize truncate">{trigger.name}</h4>
+              <p className="text-[10px] text-slate-400 font-medium">
+                Strongest {lagLabel(trigger.peak)} after · {trigger.peak.relativeRisk.toFixed(1)}× flare risk · {trigger.exposures} exposures
+              </p>
+            </div>
+            <span className={`text-[8px] font-black uppercase tracking-widest px-2 py-1 rounded-lg flex-shrink-0 ${trigger.significant ? 'bg-rose-100 text-rose-600' : 'bg-slate-100 text-slate-500'}`}>
+              {trigger.significant ? 'Significant' : 'Not significant yet'}
+            </span>
+          </div>
+          <div className="h-24">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={trigger.lags.map(lag => ({ ...lag, label: lagLabel(lag) }))}>
+                <XAxis dataKey="label" tick={{ fontSize: 9, fill: '#94a3b8' }} axisLine={false} tickLine={false} interval={0} />
+                <ReferenceLine y={1} stroke="#cbd5e1" strokeDasharray="3 3" />
+                <Tooltip
+                  cursor={{ fill: '#f8fafc' }}
+                  contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', fontSize: '11px' }}
+                  formatter={(value: number) => [`${value.toFixed(1)}×`, 'Relative risk']}
+                />
+                <Bar dataKey="relativeRisk" radius={[4, 4, 0, 0]}>
+                  {trigger.lags.map(lag => (
+                    <Cell key={lag.startHours} fill={lag === trigger.peak ? (trigger.significant ? '#f43f5e' : '#f59e0b') : '#e2e8f0'} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      ))}
+      <p className="text-[10px] text-center text-slate-400 font-medium px-4 leading-relaxed italic">
+        "Each bar compares flares in that window after an exposure with the same window after meals or logs without it. The dashed line is no difference."
+      </p>
+    </div>
+  );
+};
@@ -1,6 +1,9 @@
 
 import { LayoutDashboard, Camera, Flame, Activity, Settings, ShoppingBag } from 'lucide-react';
 import React from 'react';
+import { UndoBar } from './UndoBar';
+import { AiQueueStatus } from './AiQueueStatus';
+import { ProfileSwitcher } from './ProfileSwitcher';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -19,16 +22,19 @@ export const Layout: React.FC<LayoutProps> = ({ children, activeTab, onTabChange
             </div>
             <h1 className="text-xl font-bold text-slate-800 tracking-tight">FlareFinder<span className="text-teal-500">.ai</span></h1>
           </div>
-          <button 
-            onClick={() => onTabChange('settings')} 
-            className={`p-2 rounded-xl transition-all ${
-                activeTab === 'settings' 
-                ? 'bg-slate-100 text-slate-900 shadow-inner' 
-                : 'text-slate-400 hover:text-slate-600 hover:bg-slate-50'
-            }`}
-          >
-            <Settings className={`w-6 h-6 ${activeTab === 'settings' ? 'rotate-90' : ''} transition-transform duration-500`} />
-          </button>
+          <div className="flex items-center gap-1">
+            <ProfileSwitcher />
+            <button 
+              onClick={() => onTabChange('settings')} 
+              className={`p-2 rounded-xl transition-all ${
+                  activeTab === 'settings' 
+                  ? 'bg-slate-100 text-slate-900 shadow-inner' 
+                  : 'text-slate-400 hover:text-slate-600 hover:bg-slate-50'
+              }`}
+            >
+              <Settings className={`w-6 h-6 ${activeTab === 'settings' ? 'rotate-90' : ''} transition-transform duration-500`} />
+            </button>
+          </div>
         </div>
       </header>
 
@@ -38,6 +44,9 @@ export const Layout: React.FC<LayoutProps> = ({ children, activeTab, onTabChange
         </div>
       </main>
 
+      <AiQueueStatus />
+      <UndoBar />
+
       <nav className="bg-white border-t border-slate-200 fixed bottom-0 w-full z-40 pb-safe">
         <div className="max-w-md mx-auto flex justify-around items-center h-16 px-1">
           <NavButton 
@@ -1,8 +1,9 @@
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { ShoppingBag, Star, TrendingUp, Users, ShieldCheck, ExternalLink, RefreshCw, List, Trash2, CheckSquare, Square, ChefHat, ScanLine, ArrowRight, Loader2, Plus, Sparkles } from 'lucide-react';
 import { db } from '../services/db';
 import { getMarketplaceRecommendations, getGlobalInsights, generateSafeMealPlan, analyzeRestaurantMenu } from '../services/geminiService';
+import { isAbortError } from '../services/aiScheduler';
 import { MarketplaceProduct, GlobalInsight, ShoppingListItem, DayPlan, MenuAnalysis } from '../types';
 
 export const Marketplace: React.FC = () => {
@@ -15,22 +16,31 @@ export const Marketplace: React.FC = () => {
   const [generatingPlan, setGeneratingPlan] = useState(false);
   const [menuAnalysis, setMenuAnalysis] = useState<MenuAnalysis | null>(null);
   const [analyzingMenu, setAnalyzingMenu] = useState(false);
+  // Cancels queued and in-flight AI requests when the user leaves the screen
+  const aiAbort = useRef<AbortController | null>(null);
 
   useEffect(() => {
-    loadData();
+    aiAbort.current = new AbortController();
+    loadData(aiAbort.current.signal);
     loadShoppingList();
+    const unsubscribe = db.subscribe(loadShoppingList);
+    return () => {
+      unsubscribe();
+      aiAbort.current?.abort();
+    };
   }, []);
 
-  const loadData = async () => {
+  const loadData = async (signal?: AbortSignal) => {
     const user = db.getState().user;
     if (!user) return;
     
     setLoading(true);
     try {
       const [recs, globalData] = await Promise.all([
-        getMarketplaceRecommendations(user),
-        getGlobalInsights(user.condition)
+        getMarketplaceRecommendations(user, signal),
+        getGlobalInsights(user.condition, signal)
       ]);
+      if (signal?.aborted) return;
       setProducts(recs);
       setInsights(globalData);
     } catch (e) {
@@ -60,9 +70,10 @@ export const Marketplace: React.FC = () => {
       if (!user) return;
       setGeneratingPlan(true);
       try {
-          const plan = await generateSafeMealPlan(user);
+          const plan = await generateSafeMealPlan(user, aiAbort.current?.signal);
           setMealPlan(plan);
       } catch(e) {
+          if (isAbortError(e)) return;
           console.error(e);
           alert("Could not generate meal plan.");
       } finally {
@@ -94,9 +105,10 @@ export const Marketplace: React.FC = () => {
       reader.onloadend = async () => {
           try {
              const base64 = (reader.result as string).split(',')[1];
-             const result = await analyzeRestaurantMenu(base64, file.type, user);
+             const result = await analyzeRestaurantMenu(base64, file.type, user, aiAbort.current?.signal);
              setMenuAnalysis(result);
           } catch (e) {
+              if (isAbortError(e)) return;
               console.error(e);
               alert("Menu analysis failed.");
           } finally {
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { AI_TASK_LABELS, AiTask } from '../services/aiProvider';
+import { modelRouting, ModelRoute, AVAILABLE_MODELS } from '../services/modelRouting';
+import { ChevronDown, RotateCcw, SlidersHorizontal } from 'lucide-react';
+
+const TASKS = Object.keys(AI_TASK_LABELS) as AiTask[];
+
+const modelLabel = (id: string) => AVAILABLE_MODELS.find(m => m.id === id)?.label || id;
+
+const parseOptional = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return isFinite(parsed) ? parsed : undefined;
+};
+
+// Advanced: which model serves each AI feature, and with which settings
+export const ModelRoutingPanel: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const [routes, setRoutes] = useState(() => Object.fromEntries(TASKS.map(t => [t, modelRouting.getRoute(t)])) as Record<AiTask, ModelRoute>);
+
+  const refresh = () => setRoutes(Object.fromEntries(TASKS.map(t => [t, modelRouting.getRoute(t)])) as Record<AiTask, ModelRoute>);
+
+  const update = (task: AiTask, patch: Partial<ModelRoute>) => {
+    if (Object.entries(patch).every(([field, value]) => JSON.stringify(routes[task][field as keyof ModelRoute]) === JSON.stringify(value))) return;
+    modelRouting.setRoute(task, { ...routes[task], ...patch });
+    refresh();
+  };
+
+  const handleResetAll = () => {
+    if (confirm("Restore the default model for every AI feature?")) {
+      modelRouting.reset();
+      refresh();
+    }
+  };
+
+  const fieldClass = "w-full p-2 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold text-slate-700 focus:ring-2 focus:ring-teal-500 focus:outline-none";
+
+  return (
+    <div className="space-y-3">
+      <button onClick={() => setOpen(!open)} className="w-full flex items-center justify-between px-1">
+        <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-2">
+          <SlidersHorizontal className="w-3 h-3" /> Advanced: Model Routing
+        </h4>
+        <ChevronDown className={`w-4 h-4 text-slate-300 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </button>
+
+      {open && (
+        <div className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm space-y-4 animate-in slide-in-from-top-2">
+          <p className="text-[10px] text-slate-400 font-medium leading-relaxed">
+            Pick a faster, cheaper model for features where accuracy matters less. Fallbacks are used when the primary model errors or hits its rate limit. Leave temperature and max tokens empty for the model defaults.
+          </p>
+          {TASKS.map(task => {
+            const route = routes[task];
+            // Keyed by the saved route so the uncontrolled number inputs pick up resets
+            return (
+              <div key={`${task}:${JSON.stringify(route)}`} className="border border-slate-100 rounded-2xl p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-bold text-slate-700">{AI_TASK_LABELS[task]}</span>
+                  {modelRouting.isCustomized(task) && (
+                    <button onClick={() => { modelRouting.reset(task); refresh(); }} title="Restore default" className="p-1 text-slate-300 hover:text-teal-600">
+                      <RotateCcw className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <label className="space-y-1">
+                    <span className="text-[10px] font-black text-slate-400 uppercase">Primary</span>
+                    <select value={route.primary} onChange={e => update(task, { primary: e.target.value })} className={fieldClass}>
+                      {AVAILABLE_MODELS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                      {!AVAILABLE_MODELS.some(m => m.id === route.primary) && <option value={route.primary}>{route.primary}</option>}
+                    </select>
+                  </label>
+                  <label className="space-y-1">
+                    <span className="text-[10px] font-black text-slate-400 uppercase">Fallback</span>
+                    <select
+                      value={route.fallbacks[0] || ''}
+                      onChange={e => update(task, { fallbacks: e.target.value ? [e.target.value] : [] })}
+                      className={fieldClass}
+                    >
+                      <option value="">None</option>
+                      {AVAILABLE_MODELS.filter(m => m.id !== route.primary).map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                    </select>
+                  </label>
+                  <label className="space-y-1">
+                    <span className="text-[10px] font-black text-slate-400 uppercase">Temperature</span>
+                    <input
+                      type="number" min={0} max={2} step={0.1}
+                      placeholder="Default"
+                      defaultValue={route.temperature ?? ''}
+                      onBlur={e => update(task, { temperature: parseOptional(e.target.value) })}
+                      className={fieldClass}
+                    />
+                  </label>
+                  <label className="space-y-1">
+                    <span className="text-[10px] font-black text-slate-400 uppercase">Max tokens</span>
+                    <input
+                      type="number" min={1} step={256}
+                      placeholder="Default"
+                      defaultValue={route.maxOutputTokens ?? ''}
+                      onBlur={e => update(task, { maxOutputTokens: parseOptional(e.target.value) })}
+                      className={fieldClass}
+                    />
+                  </label>
+                </div>
+                {route.fallbacks.length > 1 && (
+                  <p className="text-[10px] text-slate-400 font-medium">Then: {route.fallbacks.slice(1).map(modelLabel).join(', ')}</p>
+                )}
+              </div>
+            );
+          })}
+          <button onClick={handleResetAll} className="w-full py-3 rounded-xl border border-slate-200 text-slate-500 text-xs font-bold hover:bg-slate-50">
+            Restore Defaults
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
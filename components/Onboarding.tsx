@@ -6,9 +6,10 @@ import { ChevronRight, ShieldAlert, Check, AlertTriangle, Info, Scale, ShieldChe
 
 interface OnboardingProps {
   onComplete: () => void;
+  onCancel?: () => void; // Offered when adding a profile alongside existing ones
 }
 
-export const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
+export const Onboarding: React.FC<OnboardingProps> = ({ onComplete, onCancel }) => {
   const [step, setStep] = useState(0); 
   const [name, setName] = useState('');
   const [condition, setCondition] = useState('HS');
@@ -265,6 +266,12 @@ export const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
           </div>
         )}
       </div>
+
+      {onCancel && (
+        <button onClick={onCancel} className="mt-6 text-xs font-bold text-slate-400 uppercase tracking-widest hover:text-slate-600">
+          Cancel new profile
+        </button>
+      )}
     </div>
   );
 };
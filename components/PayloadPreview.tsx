@@ -0,0 +1,35 @@
+import React from 'react';
+import { EyeOff, Send, X } from 'lucide-react';
+
+interface Props {
+  title: string;
+  payload: string;
+  onSend: () => void;
+  onCancel: () => void;
+}
+
+// Shows the exact text an analysis will send to the AI provider, after redaction
+export const PayloadPreview: React.FC<Props> = ({ title, payload, onSend, onCancel }) => (
+  <div className="fixed inset-0 z-[60] bg-slate-900/40 flex items-end sm:items-center justify-center p-4" onClick={onCancel}>
+    <div className="bg-white w-full max-w-md max-h-[80vh] flex flex-col rounded-[2rem] p-6 space-y-4 shadow-2xl animate-in slide-in-from-bottom-4" onClick={e => e.stopPropagation()}>
+      <div className="flex items-center justify-between">
+        <h3 className="font-black text-slate-800 text-lg">{title}</h3>
+        <button onClick={onCancel} className="p-2 text-slate-400 hover:text-slate-600">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+      <p className="text-xs text-slate-500 font-medium flex items-start gap-2">
+        <EyeOff className="w-4 h-4 flex-shrink-0 text-teal-500" />
+        This is everything that will leave your device. Personal details are replaced by placeholders like [name]; adjust this under Settings › AI Privacy.
+      </p>
+      <pre className="flex-1 overflow-y-auto bg-slate-50 border border-slate-100 rounded-2xl p-3 text-[10px] text-slate-600 font-mono whitespace-pre-wrap break-all">{payload}</pre>
+      <p className="text-[10px] text-slate-400 font-medium text-right">{payload.length.toLocaleString()} characters</p>
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={onCancel} className="py-3 rounded-xl bg-white border border-slate-200 text-xs font-black uppercase text-slate-500">Cancel</button>
+        <button onClick={onSend} className="py-3 rounded-xl bg-slate-900 text-white text-xs font-black uppercase flex items-center justify-center gap-2">
+          <Send className="w-3.5 h-3.5" /> Send
+        </button>
+      </div>
+    </div>
+  </div>
+);
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { profiles } from '../services/profiles';
+import { ChevronDown, Check, UserPlus } from 'lucide-react';
+
+const initialOf = (name: string) => (name.trim()[0] || '?').toUpperCase();
+
+// Each profile has its own database, so switching reloads the app against it
+export const ProfileSwitcher: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const all = profiles.list();
+  const active = profiles.getActive();
+
+  const handleSelect = (id: string) => {
+    setOpen(false);
+    if (id === active.id) return;
+    profiles.setActive(id);
+    window.location.reload();
+  };
+
+  const handleAdd = () => {
+    setOpen(false);
+    profiles.create();
+    window.location.reload();
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1.5 pl-1 pr-2 py-1 rounded-xl hover:bg-slate-50 transition-all"
+      >
+        <span className="w-7 h-7 rounded-full bg-teal-100 text-teal-700 text-xs font-black flex items-center justify-center">{initialOf(active.name)}</span>
+        <span className="text-sm font-bold text-slate-700 max-w-[6rem] truncate">{active.name}</span>
+        <ChevronDown className={`w-4 h-4 text-slate-400 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 mt-2 w-56 bg-white rounded-2xl border border-slate-100 shadow-xl z-50 p-2 animate-in fade-in slide-in-from-top-1">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-2 py-1">Profiles</p>
+            {all.map(profile => (
+              <button
+                type="button"
+                key={profile.id}
+                onClick={() => handleSelect(profile.id)}
+                className="w-full flex items-center gap-2 p-2 rounded-xl hover:bg-slate-50 text-left"
+              >
+                <span className="w-7 h-7 rounded-full bg-slate-100 text-slate-600 text-xs font-black flex items-center justify-center flex-shrink-0">{initialOf(profile.name)}</span>
+                <span className="flex-1 min-w-0">
+                  <span className="block text-sm font-bold text-slate-700 truncate">{profile.name}</span>
+                  {profile.condition && <span className="block text-[10px] text-slate-400 font-medium truncate">{profile.condition}</span>}
+                </span>
+                {profile.id === active.id && <Check className="w-4 h-4 text-teal-500" />}
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={handleAdd}
+              className="w-full flex items-center gap-2 p-2 mt-1 rounded-xl border-t border-slate-50 text-teal-600 hover:bg-teal-50 text-sm font-bold"
+            >
+              <UserPlus className="w-4 h-4" /> Add Profile
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
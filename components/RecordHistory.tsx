@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { db } from '../services/db';
+import { diffRecords } from '../services/audit';
+import { AuditEntry, AuditSource } from '../types';
+import { History, X, Loader2 } from 'lucide-react';
+
+interface RecordHistoryProps {
+  collection: string;
+  recordId: string;
+  title?: string;
+  className?: string;
+}
+
+const SOURCE_LABELS: Record<AuditSource, string> = {
+  manual: 'You',
+  lab_result: 'Lab result',
+  ai: 'AI',
+  import: 'Import',
+  system: 'System'
+};
+
+const ACTION_STYLES: Record<AuditEntry['action'], string> = {
+  create: 'bg-emerald-50 text-emerald-600',
+  update: 'bg-indigo-50 text-indigo-600',
+  delete: 'bg-rose-50 text-rose-600',
+  restore: 'bg-teal-50 text-teal-600',
+  purge: 'bg-slate-100 text-slate-500'
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+};
+
+// History button plus a sheet listing every audited change to one record
+export const RecordHistory: React.FC<RecordHistoryProps> = ({ collection, recordId, title = 'Edit History', className }) => {
+  const [open, setOpen] = useState(false);
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setEntries(null);
+    db.getRecordHistory(collection, recordId)
+      .then(setEntries)
+      .catch(e => {
+        console.error("Failed to load record history", e);
+        setEntries([]);
+      });
+  }, [open, collection, recordId]);
+
+  const handleOpen = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setOpen(true);
+  };
+
+  return (
+    <>
+      <button type="button" onClick={handleOpen} title={title} className={className || 'p-2 text-slate-300 hover:text-indigo-500 transition-colors'}>
+        <History className="w-4 h-4" />
+      </button>
+
+      {open && (
+        <div className="fixed inset-0 z-[60] bg-slate-900/40 flex items-end sm:items-center justify-center p-4" onClick={() => setOpen(false)}>
+          <div className="bg-white w-full max-w-md max-h-[80vh] overflow-y-auto rounded-[2rem] p-6 space-y-4 shadow-2xl animate-in slide-in-from-bottom-4" onClick={e => e.stopPropagation()}>
+            <div className="flex items-center justify-between">
+              <h3 className="font-black text-slate-800 text-lg">{title}</h3>
+              <button onClick={() => setOpen(false)} className="p-2 text-slate-400 hover:text-slate-600">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {entries === null ? (
+              <div className="flex justify-center py-6"><Loader2 className="w-5 h-5 text-slate-300 animate-spin" /></div>
+            ) : entries.length === 0 ? (
+              <p className="text-xs text-slate-400 font-medium text-center py-6">No recorded changes. History is kept for changes made from this version on.</p>
+            ) : (
+              entries.map(entry => {
+                const changes = entry.action === 'update' ? diffRecords(entry.before, entry.after) : [];
+                return (
+                  <div key={entry.id} className="border border-slate-100 rounded-2xl p-4 space-y-2">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className={`text-[10px] font-black uppercase px-2 py-0.5 rounded-md ${ACTION_STYLES[entry.action]}`}>{entry.action}</span>
+                      <span className="text-[10px] font-black uppercase px-2 py-0.5 rounded-md bg-slate-50 text-slate-500">{SOURCE_LABELS[entry.source] || entry.source}</span>
+                      <span className="text-[10px] text-slate-400 font-medium ml-auto">{new Date(entry.timestamp).toLocaleString()}</span>
+                    </div>
+                    {entry.note && <p className="text-xs text-slate-500 italic">{entry.note}</p>}
+                    {changes.map(change => (
+                      <div key={change.field} className="text-xs">
+                        <span className="font-bold text-slate-600">{change.field}</span>
+                        <div className="flex flex-col gap-0.5 mt-0.5 font-mono text-[10px]">
+                          <span className="text-rose-500 line-through break-all">{formatValue(change.before)}</span>
+                          <span className="text-emerald-600 break-all">{formatValue(change.after)}</span>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { redaction, RedactionSettings } from '../services/redaction';
+import { EyeOff } from 'lucide-react';
+
+const TOGGLES: { key: keyof RedactionSettings; label: string; hint: string }[] = [
+  { key: 'names', label: 'Names', hint: 'Profile names and titled names like "Dr. Patel"' },
+  { key: 'contacts', label: 'Emails & phone numbers', hint: 'Replaced by [email] and [phone]' },
+  { key: 'addresses', label: 'Street addresses', hint: 'Replaced by [address]' },
+  { key: 'identifiers', label: 'Birth dates & record numbers', hint: 'DOB, MRN and patient IDs in lab reports' },
+  { key: 'location', label: 'Location data', hint: 'Coordinates removed, weather readings rounded' },
+  { key: 'previewBeforeSending', label: 'Preview before sending', hint: 'Review the data before Forecast and Detective run' }
+];
+
+// What personal detail is stripped from logs before they reach the AI provider
+export const RedactionPanel: React.FC = () => {
+  const [settings, setSettings] = useState<RedactionSettings>(redaction.getSettings());
+
+  const update = (patch: Partial<RedactionSettings>) => {
+    const next = { ...settings, ...patch };
+    redaction.setSettings(next);
+    setSettings(next);
+  };
+
+  const handleNoteLength = (value: string) => {
+    const parsed = Math.max(0, Math.round(Number(value)));
+    if (!isFinite(parsed) || parsed === settings.maxNoteLength) return;
+    update({ maxNoteLength: parsed });
+  };
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">AI Privacy</h4>
+      <div className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm space-y-3">
+        <p className="text-[10px] text-slate-400 font-medium leading-relaxed flex items-start gap-2">
+          <EyeOff className="w-3.5 h-3.5 flex-shrink-0 text-teal-500" />
+          Log ids and photos are never sent. Choose what else is removed from your logs before an analysis.
+        </p>
+        {TOGGLES.map(toggle => (
+          <label key={toggle.key} className="flex items-center justify-between gap-3 cursor-pointer">
+            <div>
+              <p className="text-sm font-bold text-slate-700">{toggle.label}</p>
+              <p className="text-[10px] text-slate-400 font-medium">{toggle.hint}</p>
+            </div>
+            <input
+              type="checkbox"
+              checked={!!settings[toggle.key]}
+              onChange={e => update({ [toggle.key]: e.target.checked })}
+              className="w-4 h-4 accent-teal-600"
+            />
+          </label>
+        ))}
+        <label className="flex items-center justify-between gap-3">
+          <div>
+            <p className="text-sm font-bold text-slate-700">Note length</p>
+            <p className="text-[10px] text-slate-400 font-medium">Characters of each note to include; 0 leaves notes out</p>
+          </div>
+          <input
+            type="number" min={0} step={50}
+            defaultValue={settings.maxNoteLength}
+            onBlur={e => handleNoteLength(e.target.value)}
+            className="w-20 p-2 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold text-slate-700 text-right focus:ring-2 focus:ring-teal-500 focus:outline-none"
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
@@ -1,23 +1,72 @@
 
 import React, { useState } from 'react';
 import { db } from '../services/db';
-import { ShieldAlert, FileText, User, LogOut, Heart, Trash2, Info, ExternalLink, ShieldCheck, Scale, Download, Upload, RefreshCw, Database } from 'lucide-react';
+import { ImportPreview, MergeStrategies, MergeStrategy, DEFAULT_STRATEGIES, MERGE_COLLECTIONS, COLLECTIONS } from '../services/importMerge';
+import { PassphraseError, isEncryptionSupported } from '../services/encryption';
+import { profiles } from '../services/profiles';
+import { AI_PROVIDERS, AiProviderId, getEnvProviderId, getProviderId, setProviderId } from '../services/aiProvider';
+import { TrashPanel } from './TrashPanel';
+import { AiCachePanel } from './AiCachePanel';
+import { AiUsagePanel } from './AiUsagePanel';
+import { RedactionPanel } from './RedactionPanel';
+import { ModelRoutingPanel } from './ModelRoutingPanel';
+import { ShieldAlert, FileText, User, LogOut, Heart, Trash2, Info, ExternalLink, ShieldCheck, Scale, Download, Upload, RefreshCw, Database, Lock } from 'lucide-react';
+
+const MIN_PASSPHRASE_LENGTH = 8;
 
 export const Settings: React.FC = () => {
   const state = db.getState();
   const user = state.user;
+  const activeProfile = profiles.getActive();
+  const hasOtherProfiles = profiles.list().length > 1;
   const [showTerms, setShowTerms] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{ content: string; preview: ImportPreview; passphrase?: string } | null>(null);
+  const [strategies, setStrategies] = useState<MergeStrategies>(DEFAULT_STRATEGIES);
+  const [encryptionEnabled, setEncryptionEnabled] = useState(db.isEncryptionEnabled());
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [profileLabel, setProfileLabel] = useState('');
+  const [isRekeying, setIsRekeying] = useState(false);
+  const [aiProviderId, setAiProviderId] = useState<AiProviderId>(getProviderId());
+  const providerLockedByEnv = !!getEnvProviderId();
+
+  const handleClearData = async () => {
+    if (confirm(`Are you sure? This will delete all food logs, flares, and bio-data for ${activeProfile.name} forever. This cannot be undone.`)) {
+      await db.clear();
+      window.location.reload();
+    }
+  };
+
+  const handleProviderChange = (id: AiProviderId) => {
+    setProviderId(id);
+    setAiProviderId(id);
+  };
 
-  const handleClearData = () => {
-    if (confirm("Are you sure? This will delete all your food logs, flares, and bio-data forever. This cannot be undone.")) {
-      db.clear();
+  const handleDeleteProfile = async () => {
+    if (confirm(`Delete the profile "${activeProfile.name}" and all of its data? Other profiles are not affected. This cannot be undone.`)) {
+      await profiles.remove(activeProfile.id);
       window.location.reload();
     }
   };
 
-  const handleExport = () => {
-    db.exportData();
+  const handleExport = async () => {
+    let passphrase: string | undefined;
+    if (!db.isEncryptionEnabled() && isEncryptionSupported() && confirm("Protect this backup with a passphrase?")) {
+      passphrase = prompt(`Backup passphrase (at least ${MIN_PASSPHRASE_LENGTH} characters):`) || undefined;
+      if (!passphrase) return;
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        alert(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+        return;
+      }
+    }
+    try {
+      await db.exportData(passphrase);
+    } catch (err) {
+      console.error("Export failed", err);
+      alert("Could not create the backup file.");
+    }
   };
 
   const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -26,18 +75,103 @@ export const Settings: React.FC = () => {
 
     setIsImporting(true);
     const reader = new FileReader();
-    reader.onload = (event) => {
+    reader.onload = async (event) => {
       const content = event.target?.result as string;
-      const success = db.importData(content);
-      setIsImporting(false);
-      if (success) {
-        alert("Data imported successfully! The app will now reload.");
-        window.location.reload();
-      } else {
-        alert("Invalid backup file. Please ensure you selected a FlareFinder JSON file.");
+      let passphrase: string | undefined;
+      if (db.isEncryptedBackup(content)) {
+        passphrase = prompt("This backup is encrypted. Enter its passphrase:") || undefined;
+        if (!passphrase) {
+          setIsImporting(false);
+          return;
+        }
+      }
+      try {
+        const preview = await db.previewImport(content, passphrase);
+        setIsImporting(false);
+        if (preview) {
+          setStrategies(DEFAULT_STRATEGIES);
+          setPendingImport({ content, preview, passphrase });
+        } else {
+          alert("Invalid backup file. Please ensure you selected a FlareFinder JSON file.");
+        }
+      } catch (err: any) {
+        setIsImporting(false);
+        alert(err?.message || "Invalid backup file.");
       }
     };
     reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const handleConfirmImport = async () => {
+    if (!pendingImport) return;
+    setIsImporting(true);
+    const success = await db.importData(pendingImport.content, strategies, pendingImport.passphrase);
+    setIsImporting(false);
+    setPendingImport(null);
+    if (success) {
+      alert("Data merged successfully! The app will now reload.");
+      window.location.reload();
+    } else {
+      alert("Import failed. Your existing data was not changed.");
+    }
+  };
+
+  const resetPassphraseFields = () => {
+    setCurrentPassphrase('');
+    setNewPassphrase('');
+    setConfirmPassphrase('');
+    setProfileLabel('');
+  };
+
+  const checkNewPassphrase = () => {
+    if (newPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      alert(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return false;
+    }
+    if (newPassphrase !== confirmPassphrase) {
+      alert("Passphrases do not match.");
+      return false;
+    }
+    return true;
+  };
+
+  // Re-encrypting every record can take a moment on large histories
+  const runRekey = async (action: () => Promise<boolean>, successMessage: string) => {
+    setIsRekeying(true);
+    try {
+      if (await action()) {
+        resetPassphraseFields();
+        setEncryptionEnabled(db.isEncryptionEnabled());
+        alert(successMessage);
+      } else {
+        alert("Could not update encryption. Your data was not changed.");
+      }
+    } catch (err) {
+      alert(err instanceof PassphraseError ? "Current passphrase is incorrect." : "Could not update encryption.");
+    } finally {
+      setIsRekeying(false);
+    }
+  };
+
+  const handleEnableEncryption = () => {
+    if (!checkNewPassphrase()) return;
+    if (!confirm("If you forget this passphrase your data cannot be recovered. Continue?")) return;
+    runRekey(() => db.enableEncryption(newPassphrase, profileLabel), "Encryption enabled. You'll be asked for your passphrase when the app opens.");
+  };
+
+  const handleChangePassphrase = () => {
+    if (!checkNewPassphrase()) return;
+    runRekey(() => db.changePassphrase(currentPassphrase, newPassphrase), "Passphrase changed.");
+  };
+
+  const handleDisableEncryption = () => {
+    if (!confirm("Store your data unencrypted on this device?")) return;
+    runRekey(() => db.disableEncryption(currentPassphrase), "Encryption turned off.");
+  };
+
+  const setStrategy = (collection: keyof MergeStrategies, strategy: MergeStrategy) => {
+    setStrategies(prev => ({ ...prev, [collection]: strategy }));
   };
 
   return (
@@ -94,14 +228,111 @@ export const Settings: React.FC = () => {
             </label>
           </div>
           
+          {pendingImport && (
+            <div className="bg-slate-50 p-4 rounded-2xl border border-slate-200 space-y-3 animate-in slide-in-from-top-2">
+              <p className="text-sm font-black text-slate-800">Review Import</p>
+              <div className="space-y-2">
+                {MERGE_COLLECTIONS.map(collection => {
+                  const diff = pendingImport.preview.collections[collection];
+                  if (diff.added + diff.conflicts + diff.invalid === 0) return null;
+                  return (
+                    <div key={collection} className="bg-white p-3 rounded-xl border border-slate-100">
+                      <div className="flex justify-between items-center text-xs">
+                        <span className="font-bold text-slate-700">{COLLECTIONS[collection].label}</span>
+                        <span className="text-slate-400 font-medium">
+                          {diff.added} new • {diff.conflicts} conflicting{diff.invalid > 0 ? ` • ${diff.invalid} invalid` : ''}
+                        </span>
+                      </div>
+                      {diff.conflicts > 0 && (
+                        <div className="grid grid-cols-3 gap-1 mt-2">
+                          {(['mine', 'theirs', 'newest'] as MergeStrategy[]).map(option => (
+                            <button
+                              key={option}
+                              onClick={() => setStrategy(collection, option)}
+                              className={`py-1.5 rounded-lg text-[10px] font-black uppercase tracking-wider ${
+                                strategies[collection] === option ? 'bg-teal-500 text-white' : 'bg-slate-50 text-slate-500'
+                              }`}
+                            >
+                              {option === 'mine' ? 'Keep Mine' : option === 'theirs' ? 'Keep Theirs' : 'Keep Newest'}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+              {pendingImport.preview.invalidRecords.length > 0 && (
+                <p className="text-[10px] text-rose-600 font-medium">Invalid records will be skipped.</p>
+              )}
+              <div className="grid grid-cols-2 gap-2">
+                <button onClick={() => setPendingImport(null)} className="py-3 rounded-xl bg-white border border-slate-200 text-xs font-black uppercase text-slate-500">Cancel</button>
+                <button onClick={handleConfirmImport} disabled={isImporting} className="py-3 rounded-xl bg-slate-900 text-white text-xs font-black uppercase disabled:opacity-50">Merge Data</button>
+              </div>
+            </div>
+          )}
+
           <div className="bg-slate-50 p-3 rounded-xl">
             <p className="text-[10px] text-center text-slate-500 font-medium leading-normal italic">
-              "Data is stored in your browser's local memory. Use these tools to move your bio-history to a new phone or browser."
+              "Data is stored in your browser's on-device database. Use these tools to move your bio-history to a new phone or browser."
             </p>
           </div>
         </div>
       </div>
 
+      <TrashPanel />
+
+      <AiCachePanel />
+
+      <AiUsagePanel />
+
+      <RedactionPanel />
+
+      {/* Security Section */}
+      {isEncryptionSupported() && (
+        <div className="space-y-3">
+          <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Security</h4>
+          <div className="bg-white p-5 rounded-2xl border border-slate-100 shadow-sm space-y-4">
+            <div className="flex items-center gap-3">
+              <div className={`p-2.5 rounded-xl ${encryptionEnabled ? 'bg-teal-50 text-teal-600' : 'bg-slate-50 text-slate-400'}`}>
+                <Lock className="w-5 h-5" />
+              </div>
+              <div>
+                <h3 className="font-bold text-slate-800">Passphrase Encryption</h3>
+                <p className="text-xs text-slate-500 font-medium">
+                  {encryptionEnabled ? "On. Data and backups are encrypted on this device." : "Off. Encrypt your health data with a passphrase."}
+                </p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {encryptionEnabled && (
+                <input type="password" value={currentPassphrase} onChange={e => setCurrentPassphrase(e.target.value)} placeholder="Current passphrase" className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-teal-500 focus:outline-none" />
+              )}
+              <input type="password" value={newPassphrase} onChange={e => setNewPassphrase(e.target.value)} placeholder={encryptionEnabled ? "New passphrase" : "Passphrase"} className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-teal-500 focus:outline-none" />
+              <input type="password" value={confirmPassphrase} onChange={e => setConfirmPassphrase(e.target.value)} placeholder="Confirm passphrase" className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-teal-500 focus:outline-none" />
+              {!encryptionEnabled && (
+                <input type="text" value={profileLabel} onChange={e => setProfileLabel(e.target.value)} placeholder="Profile label shown before unlocking (optional)" className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-teal-500 focus:outline-none" />
+              )}
+            </div>
+
+            {encryptionEnabled ? (
+              <div className="grid grid-cols-2 gap-2">
+                <button onClick={handleDisableEncryption} disabled={isRekeying || !currentPassphrase} className="py-3 rounded-xl bg-white border border-slate-200 text-xs font-black uppercase text-slate-500 disabled:opacity-50">Turn Off</button>
+                <button onClick={handleChangePassphrase} disabled={isRekeying || !currentPassphrase} className="py-3 rounded-xl bg-slate-900 text-white text-xs font-black uppercase disabled:opacity-50">Change</button>
+              </div>
+            ) : (
+              <button onClick={handleEnableEncryption} disabled={isRekeying} className="w-full py-3 rounded-xl bg-slate-900 text-white text-xs font-black uppercase disabled:opacity-50">Enable Encryption</button>
+            )}
+            {isRekeying && (
+              <p className="text-[10px] text-center text-slate-400 font-bold uppercase tracking-widest flex items-center justify-center gap-2">
+                <RefreshCw className="w-3 h-3 animate-spin" /> Re-encrypting data...
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Legal & Medical Section */}
       <div className="space-y-3">
         <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-1">Legal & Medical</h4>
@@ -164,11 +395,28 @@ export const Settings: React.FC = () => {
            </div>
            <div className="flex justify-between items-center text-sm">
              <span className="text-slate-500 font-medium">Neural Engine</span>
-             <span className="text-teal-600 font-bold">Gemini 3.0 Pro</span>
+             <select
+               value={aiProviderId}
+               disabled={providerLockedByEnv}
+               onChange={e => handleProviderChange(e.target.value as AiProviderId)}
+               className="text-teal-600 font-bold bg-transparent text-right focus:outline-none disabled:opacity-70"
+             >
+               {(Object.keys(AI_PROVIDERS) as AiProviderId[]).map(id => (
+                 <option key={id} value={id}>{AI_PROVIDERS[id].label}</option>
+               ))}
+             </select>
            </div>
+           {aiProviderId === 'mock' && (
+             <p className="text-[10px] text-slate-400 font-medium">Offline mock: AI features return canned sample results and no data leaves this device.</p>
+           )}
+           {providerLockedByEnv && (
+             <p className="text-[10px] text-slate-400 font-medium">Set by the AI_PROVIDER build variable.</p>
+           )}
         </div>
       </div>
 
+      <ModelRoutingPanel />
+
       {/* Danger Zone */}
       <div className="pt-6">
         <button 
@@ -178,8 +426,16 @@ export const Settings: React.FC = () => {
           <div className="flex items-center gap-2">
             <Trash2 className="w-4 h-4" /> Purge Local Bio-Data
           </div>
-          <span className="text-[9px] font-medium text-slate-400 normal-case tracking-normal">Wipes all logs and profile data from your browser storage.</span>
+          <span className="text-[9px] font-medium text-slate-400 normal-case tracking-normal">Wipes all logs and profile data for {activeProfile.name} from your browser storage.</span>
         </button>
+        {hasOtherProfiles && (
+          <button 
+            onClick={handleDeleteProfile}
+            className="w-full mt-3 bg-white text-rose-500 py-3 rounded-2xl font-black text-xs uppercase tracking-widest flex items-center justify-center gap-2 hover:bg-rose-50 transition-all border border-slate-200"
+          >
+            <LogOut className="w-4 h-4" /> Delete This Profile
+          </button>
+        )}
       </div>
 
       <div className="text-center py-4">
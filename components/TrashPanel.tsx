@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+import { db } from '../services/db';
+import { TrashItem, FoodLog, FlareLog, BehaviorLog, ShoppingListItem } from '../types';
+import { Trash2, RotateCcw, Utensils, Flame, Activity, ShoppingBag } from 'lucide-react';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const describe = (item: TrashItem): { icon: React.ReactNode; title: string } => {
+  switch (item.collection) {
+    case 'foodLogs': {
+      const log = item.record as FoodLog;
+      return { icon: <Utensils className="w-4 h-4 text-teal-500" />, title: log.detectedItems.map(i => i.name).join(', ') || 'Meal' };
+    }
+    case 'flareLogs': {
+      const log = item.record as FlareLog;
+      return { icon: <Flame className="w-4 h-4 text-rose-500" />, title: `Flare ${log.severity}/5 · ${(log.locations || []).join(', ') || log.location}` };
+    }
+    case 'behaviorLogs': {
+      const log = item.record as BehaviorLog;
+      return { icon: <Activity className="w-4 h-4 text-indigo-500" />, title: `${log.type.replace('_', ' ')}: ${log.value}` };
+    }
+    case 'shoppingList':
+      return { icon: <ShoppingBag className="w-4 h-4 text-amber-500" />, title: (item.record as ShoppingListItem).name };
+  }
+};
+
+export const TrashPanel: React.FC = () => {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const retentionDays = db.getTrashRetentionDays();
+
+  useEffect(() => {
+    const load = () => setItems(db.getTrash());
+    load();
+    return db.subscribe(load);
+  }, []);
+
+  const daysLeft = (item: TrashItem) =>
+    Math.max(0, Math.ceil((new Date(item.deletedAt).getTime() + retentionDays * DAY_MS - Date.now()) / DAY_MS));
+
+  const handleDeleteForever = (item: TrashItem) => {
+    if (confirm("Delete this record forever? This cannot be undone.")) {
+      db.deleteFromTrash([item.id]);
+    }
+  };
+
+  const handleEmptyTrash = () => {
+    if (confirm(`Permanently delete ${items.length} records? This cannot be undone.`)) {
+      db.deleteFromTrash(items.map(i => i.id));
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between px-1">
+        <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Trash</h4>
+        {items.length > 0 && (
+          <button onClick={handleEmptyTrash} className="text-[10px] font-black text-rose-500 uppercase tracking-widest">Empty</button>
+        )}
+      </div>
+      <div className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm space-y-2">
+        {items.length === 0 ? (
+          <p className="text-xs text-slate-400 font-medium text-center py-2">Deleted logs are kept here for {retentionDays} days.</p>
+        ) : (
+          items.map(item => {
+            const { icon, title } = describe(item);
+            return (
+              <div key={item.id} className="flex items-center gap-3 p-2 rounded-xl hover:bg-slate-50">
+                <div className="bg-slate-50 p-2 rounded-lg">{icon}</div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-bold text-slate-700 truncate capitalize">{title}</p>
+                  <p className="text-[10px] text-slate-400 font-medium">
+                    Deleted {new Date(item.deletedAt).toLocaleDateString()} · {daysLeft(item)}d left
+                  </p>
+                </div>
+                <button onClick={() => db.restoreFromTrash(item.id)} title="Restore" className="p-2 text-slate-400 hover:text-teal-600">
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+                <button onClick={() => handleDeleteForever(item)} title="Delete forever" className="p-2 text-slate-300 hover:text-rose-500">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
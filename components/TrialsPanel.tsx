@@ -0,0 +1,258 @@
+import React, { useEffect, useState } from 'react';
+import { db } from '../services/db';
+import { trials, TrialDay, DEFAULT_TRIAL_DESIGN, TRIAL_OUTCOMES, MIN_TRIAL_PAIRS } from '../services/trials';
+import { ValidationError, formatValidationIssues } from '../services/validation';
+import { AppState, Trial, TrialOutcomeResult } from '../types';
+import { Shuffle, Plus, X, CheckCircle2, Pill, Loader2, Paperclip } from 'lucide-react';
+
+const SHOWN_COMPLETED = 3;
+
+const DIRECTION_STYLES: Record<TrialOutcomeResult['direction'], string> = {
+  improved: 'text-teal-600',
+  worsened: 'text-rose-600',
+  unchanged: 'text-slate-400'
+};
+
+// On days should have a dose logged and off days none
+const dayStyle = (day?: TrialDay) => {
+  if (!day) return 'bg-white border border-slate-200';
+  return day.took === (day.condition === 'on') ? 'bg-teal-500' : 'bg-rose-500';
+};
+
+const emptyDraft = () => ({ intervention: '', hypothesis: '', ...DEFAULT_TRIAL_DESIGN });
+
+interface ActiveTrialProps {
+  trial: Trial;
+  state: AppState;
+  onSave: (trial: Trial) => Promise<boolean>;
+  onDose: (trial: Trial) => void;
+  onAbandon: (trial: Trial) => void;
+}
+
+const ActiveTrial: React.FC<ActiveTrialProps> = ({ trial, state, onSave, onDose, onAbandon }) => {
+  const [checkIn, setCheckIn] = useState<{ pain: number | null; mood: number | null }>({ pain: null, mood: null });
+
+  const handleCheckIn = async (day: number) => {
+    if (checkIn.pain === null) return;
+    const saved = await onSave({
+      ...trial,
+      checkIns: [...trial.checkIns.filter(c => c.day !== day), {
+        day, pain: checkIn.pain, ...(checkIn.mood !== null ? { mood: checkIn.mood } : {}), timestamp: new Date().toISOString()
+      }]
+    });
+    if (saved) setCheckIn({ pain: null, mood: null });
+  };
+
+  const days = trials.days(trial, state.flareLogs, state.behaviorLogs);
+  const total = trials.totalDays(trial);
+  const today = days[days.length - 1];
+  const scale = (field: 'pain' | 'mood', levels: number[]) => (
+    <div className="grid gap-1" style={{ gridTemplateColumns: `repeat(${levels.length}, minmax(0, 1fr))` }}>
+      {levels.map(level => (
+        <button key={level} onClick={() => setCheckIn({ ...checkIn, [field]: level })}
+          className={`py-2 rounded-lg text-xs font-black ${checkIn[field] === level ? 'bg-slate-900 text-white' : 'bg-slate-50 text-slate-500 border border-slate-200'}`}>
+          {level}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="bg-white p-5 rounded-3xl border border-slate-100 shadow-sm space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <h4 className="font-black text-slate-800 text-sm">{trial.hypothesis}</h4>
+          <p className="text-[10px] text-slate-400 font-medium">
+            {today ? `Block ${today.block + 1} of ${trial.schedule.length} · day ${today.day + 1} of ${total}` : 'Starts today'}
+            {today?.washout ? ' · washout day, not analysed' : ''}
+          </p>
+        </div>
+        <button onClick={() => onAbandon(trial)} title="Stop trial" className="p-1 text-slate-300 hover:text-rose-500"><X className="w-4 h-4" /></button>
+      </div>
+
+      {today && (
+        <div className={`text-xs font-bold p-3 rounded-xl flex items-center justify-between gap-3 ${today.condition === 'on' ? 'bg-indigo-50 text-indigo-700' : 'bg-slate-50 text-slate-600'}`}>
+          <span>{today.condition === 'on' ? `On block: take ${trial.intervention} today.` : `Off block: skip ${trial.intervention} today.`}</span>
+          {today.condition === 'on' && (today.took ? (
+            <span className="flex items-center gap-1 text-teal-600 flex-shrink-0"><CheckCircle2 className="w-3.5 h-3.5" /> Taken</span>
+          ) : (
+            <button onClick={() => onDose(trial)} className="px-3 py-1.5 rounded-lg bg-indigo-600 text-white text-[10px] font-black uppercase flex items-center gap-1 flex-shrink-0">
+              <Pill className="w-3 h-3" /> Log dose
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-1">
+        {Array.from({ length: total }, (_, i) => (
+          <div key={i} title={`Day ${i + 1}: ${trials.conditionOn(trial, i)}`}
+            className={`flex-1 h-2 rounded-full ${dayStyle(days[i])} ${trials.conditionOn(trial, i) === 'on' ? 'ring-1 ring-indigo-300' : ''}`} />
+        ))}
+      </div>
+
+      {today && (today.checkIn ? (
+        <p className="text-[10px] text-slate-400 font-medium flex items-center gap-1">
+          <CheckCircle2 className="w-3.5 h-3.5 text-teal-500" /> Checked in today: pain {today.checkIn.pain}/5{today.checkIn.mood !== undefined ? `, mood ${today.checkIn.mood}/5` : ''}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-xs font-bold text-slate-600">Pain today (0-5)</p>
+          {scale('pain', [0, 1, 2, 3, 4, 5])}
+          <p className="text-xs font-bold text-slate-600">Mood today (optional)</p>
+          {scale('mood', [1, 2, 3, 4, 5])}
+          <button onClick={() => handleCheckIn(today.day)} disabled={checkIn.pain === null}
+            className="w-full py-2 rounded-xl bg-indigo-600 text-white text-xs font-black uppercase disabled:opacity-50">
+            Check in
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// N-of-1 trials: randomized on/off blocks for a supplement or habit, daily check-ins and reports
+export const TrialsPanel: React.FC<{ onChange?: () => void }> = ({ onChange }) => {
+  const [state, setState] = useState(db.getState());
+  const [draft, setDraft] = useState<ReturnType<typeof emptyDraft> | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const all = state.trials || [];
+  const active = all.filter(t => t.status === 'active');
+  const completed = all.filter(t => t.status === 'completed').slice(0, SHOWN_COMPLETED);
+
+  const refresh = () => {
+    setState(db.getState());
+    onChange?.();
+  };
+
+  const save = async (trial: Trial, source: 'manual' | 'system' = 'manual') => {
+    try {
+      await db.saveTrial({ ...trial, updatedAt: new Date().toISOString() }, source);
+    } catch (e) {
+      console.error(e);
+      if (e instanceof ValidationError) alert(`Trial not saved:\n${formatValidationIssues(e.issues)}`);
+      return false;
+    }
+    refresh();
+    return true;
+  };
+
+  // Trials that ran their course get their report as soon as the panel is seen
+  useEffect(() => {
+    const current = db.getState();
+    const finished = (current.trials || []).filter(t => t.status === 'active' && trials.isFinished(t));
+    if (finished.length === 0) return;
+    Promise.all(finished.map(t => save({
+      ...t, status: 'completed', report: trials.evaluate(t, current.flareLogs, current.behaviorLogs)
+    }, 'system')));
+  }, []);
+
+  const handleStart = async () => {
+    if (!draft || !draft.intervention.trim()) return;
+    setSaving(true);
+    const started = await save(trials.create({
+      ...draft,
+      hypothesis: draft.hypothesis.trim() || `Does ${draft.intervention.trim()} help my symptoms?`
+    }));
+    setSaving(false);
+    if (started) setDraft(null);
+  };
+
+  const handleDose = async (trial: Trial) => {
+    try {
+      await db.addBehaviorLog({ id: crypto.randomUUID(), timestamp: new Date().toISOString(), type: 'intervention', value: trial.intervention });
+    } catch (e) {
+      console.error(e);
+      if (e instanceof ValidationError) alert(`Dose not logged:\n${formatValidationIssues(e.issues)}`);
+      return;
+    }
+    refresh();
+  };
+
+  const handleAbandon = (trial: Trial) => {
+    if (confirm(`Stop the ${trial.intervention} trial? It will not produce a report.`)) save({ ...trial, status: 'abandoned' });
+  };
+
+  const inputClass = "w-full p-2.5 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold text-slate-700 focus:ring-2 focus:ring-indigo-500 focus:outline-none";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between px-1">
+        <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.3em] flex items-center gap-2">
+          <Shuffle className="w-4 h-4 text-indigo-500" /> N-of-1 Trials
+        </h3>
+        {!draft && (
+          <button onClick={() => setDraft(emptyDraft())} className="text-[10px] font-black text-indigo-600 uppercase tracking-widest flex items-center gap-1">
+            <Plus className="w-3 h-3" /> New
+          </button>
+        )}
+      </div>
+
+      {draft && (
+        <div className="bg-white p-5 rounded-3xl border border-slate-100 shadow-sm space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="font-black text-slate-800 text-sm">New trial</h4>
+            <button onClick={() => setDraft(null)} className="p-1 text-slate-400 hover:text-slate-600"><X className="w-4 h-4" /></button>
+          </div>
+          <input value={draft.intervention} onChange={e => setDraft({ ...draft, intervention: e.target.value })} placeholder="Supplement or habit, e.g. zinc" className={inputClass} />
+          <input value={draft.hypothesis} onChange={e => setDraft({ ...draft, hypothesis: e.target.value })} placeholder="Hypothesis, e.g. Zinc reduces my flares" className={inputClass} />
+          <div className="grid grid-cols-3 gap-2">
+            {([['blockDays', 'Block (days)', 2, 30], ['pairs', 'On/off pairs', 1, 10], ['washoutDays', 'Washout', 0, draft.blockDays - 1]] as const).map(([key, label, min, max]) => (
+              <label key={key} className="space-y-1">
+                <span className="text-[10px] font-black text-slate-400 uppercase">{label}</span>
+                <input
+                  type="number" min={min} max={max}
+                  value={draft[key]}
+                  onChange={e => setDraft({ ...draft, [key]: Math.max(0, Math.round(Number(e.target.value) || 0)) })}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+          </div>
+          <p className="text-[10px] text-slate-400 font-medium leading-relaxed">
+            {draft.pairs < MIN_TRIAL_PAIRS && <span className="block text-amber-600 font-bold mb-1">With fewer than {MIN_TRIAL_PAIRS} pairs no result can be statistically significant.</span>}
+            {draft.pairs * 2} blocks in random order: take it every day of an on block and skip it on off blocks. Log each dose and check in daily; the first days of each block are not analysed so the last block can wear off.
+          </p>
+          <button onClick={handleStart} disabled={!draft.intervention.trim() || saving} className="w-full py-3 rounded-xl bg-slate-900 text-white text-xs font-black uppercase disabled:opacity-50 flex items-center justify-center gap-2">
+            {saving && <Loader2 className="w-3.5 h-3.5 animate-spin" />} Start today
+          </button>
+        </div>
+      )}
+
+      {active.map(trial => (
+        <ActiveTrial key={trial.id} trial={trial} state={state} onSave={save} onDose={handleDose} onAbandon={handleAbandon} />
+      ))}
+
+      {completed.map(trial => {
+        const report = trial.report;
+        if (!report) return null;
+        return (
+          <div key={trial.id} className="bg-white p-5 rounded-3xl border border-slate-100 shadow-sm space-y-3">
+            <h4 className="font-black text-slate-800 text-sm">{trial.hypothesis}</h4>
+            <p className="text-xs text-slate-600 font-medium leading-relaxed">{report.summary}</p>
+            <div className="space-y-1">
+              {report.outcomes.map(o => (
+                <div key={o.outcome} className="flex items-center justify-between text-[10px] font-medium text-slate-500">
+                  <span className="font-black text-slate-700">{TRIAL_OUTCOMES.find(t => t.outcome === o.outcome)!.label}</span>
+                  <span>
+                    on {o.onMean} · off {o.offMean} ·{' '}
+                    <span className={`font-black ${DIRECTION_STYLES[o.direction]}`}>
+                      {o.pValue === null ? 'not enough data' : `${o.difference > 0 ? '+' : ''}${o.difference} (p = ${o.pValue.toFixed(3)}, ${o.pairs} pairs)`}
+                    </span>
+                  </span>
+                </div>
+              ))}
+            </div>
+            <p className="text-[10px] text-slate-400 font-medium">
+              {report.analysedDays} days analysed · doses on schedule {Math.round(report.adherence * 100)}% · {new Date(report.generatedAt).toLocaleDateString()}
+            </p>
+            <button onClick={() => save({ ...trial, attachToClinicalSummary: !trial.attachToClinicalSummary })}
+              className={`w-full py-2.5 rounded-xl border text-xs font-black uppercase flex items-center justify-center gap-2 ${trial.attachToClinicalSummary ? 'border-teal-200 text-teal-600 bg-teal-50' : 'border-slate-200 text-slate-500 hover:bg-slate-50'}`}>
+              <Paperclip className="w-3.5 h-3.5" /> {trial.attachToClinicalSummary ? 'Attached to clinician summary' : 'Attach to clinician summary'}
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
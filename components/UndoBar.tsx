@@ -0,0 +1,62 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { db } from '../services/db';
+import { Undo2, Redo2 } from 'lucide-react';
+
+const VISIBLE_MS = 6000;
+
+// Floating undo/redo pill that appears for a few seconds after each data change
+export const UndoBar: React.FC = () => {
+  const [undoLabel, setUndoLabel] = useState<string | null>(null);
+  const [redoLabel, setRedoLabel] = useState<string | null>(null);
+  const [visible, setVisible] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const hideTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = db.subscribe(() => {
+      setUndoLabel(db.peekUndo());
+      setRedoLabel(db.peekRedo());
+      setVisible(true);
+      if (hideTimer.current) clearTimeout(hideTimer.current);
+      hideTimer.current = setTimeout(() => setVisible(false), VISIBLE_MS);
+    });
+    return () => {
+      unsubscribe();
+      if (hideTimer.current) clearTimeout(hideTimer.current);
+    };
+  }, []);
+
+  const run = async (action: () => Promise<string | null>) => {
+    setBusy(true);
+    try {
+      await action();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!visible || (!undoLabel && !redoLabel)) return null;
+
+  return (
+    <div className="fixed bottom-20 left-0 right-0 z-40 flex justify-center px-4 pointer-events-none animate-in slide-in-from-bottom-2">
+      <div className="pointer-events-auto bg-slate-900 text-white rounded-2xl shadow-xl flex items-center gap-1 pl-4 pr-1 py-1 max-w-md">
+        <span className="text-xs font-bold truncate mr-2">{undoLabel || "Nothing to undo"}</span>
+        <button
+          onClick={() => run(db.undo)}
+          disabled={busy || !undoLabel}
+          className="flex items-center gap-1 px-3 py-2 rounded-xl text-xs font-black uppercase text-teal-300 hover:bg-white/10 disabled:opacity-40"
+        >
+          <Undo2 className="w-4 h-4" /> Undo
+        </button>
+        <button
+          onClick={() => run(db.redo)}
+          disabled={busy || !redoLabel}
+          title={redoLabel ? `Redo: ${redoLabel}` : undefined}
+          className="p-2 rounded-xl text-slate-300 hover:bg-white/10 disabled:opacity-40"
+        >
+          <Redo2 className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { db } from '../services/db';
+import { profiles } from '../services/profiles';
+import { ProfileSwitcher } from './ProfileSwitcher';
+import { Lock, RefreshCw } from 'lucide-react';
+
+interface UnlockScreenProps {
+  onUnlock: () => void;
+}
+
+export const UnlockScreen: React.FC<UnlockScreenProps> = ({ onUnlock }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+    setIsUnlocking(true);
+    setError(null);
+    const success = await db.unlock(passphrase);
+    setIsUnlocking(false);
+    if (success) {
+      onUnlock();
+    } else {
+      setError("Incorrect passphrase. Please try again.");
+      setPassphrase('');
+    }
+  };
+
+  const handleReset = async () => {
+    if (confirm("Forgot your passphrase? Encrypted data cannot be recovered. This will delete everything on this device and start fresh.")) {
+      await db.clear();
+      window.location.reload();
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center p-6">
+      <form onSubmit={handleUnlock} className="max-w-md w-full bg-white p-8 rounded-[2.5rem] shadow-2xl shadow-slate-200/50 space-y-6">
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="w-12 h-12 bg-teal-50 text-teal-600 rounded-2xl flex items-center justify-center">
+              <Lock className="w-6 h-6" />
+            </div>
+            {profiles.list().length > 1 && <ProfileSwitcher />}
+          </div>
+          <h1 className="text-2xl font-black text-slate-900 tracking-tight">Welcome Back</h1>
+          <p className="text-sm text-slate-500 font-medium leading-relaxed">Your health data is encrypted. Enter your passphrase to unlock it.</p>
+        </div>
+
+        <input
+          type="password"
+          autoFocus
+          value={passphrase}
+          onChange={e => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl focus:ring-2 focus:ring-teal-500 focus:outline-none"
+        />
+        {error && <p className="text-xs text-rose-600 font-bold">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={isUnlocking || !passphrase}
+          className="w-full py-4 rounded-2xl bg-slate-900 text-white font-bold flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          {isUnlocking ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Lock className="w-4 h-4" />}
+          {isUnlocking ? "Unlocking..." : "Unlock"}
+        </button>
+
+        <button type="button" onClick={handleReset} className="w-full text-[10px] text-slate-400 font-bold uppercase tracking-widest">
+          Forgot passphrase?
+        </button>
+      </form>
+    </div>
+  );
+};
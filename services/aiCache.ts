@@ -0,0 +1,147 @@
+import { FoodSensitivity } from '../types';
+import { storage, STORES } from './storage';
+import { hashBytes } from './attachments';
+import { AiProviderId, AiRequest, AiTask } from './aiProvider';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Tasks missing here are never cached (chat, insights and anything built from recent logs)
+export const AI_CACHE_TTL_MS: Partial<Record<AiTask, number>> = {
+  manualFood: 30 * DAY_MS,
+  foodImage: 30 * DAY_MS,
+  groceryScan: 30 * DAY_MS,
+  menuAnalysis: 7 * DAY_MS,
+  mealSimulation: 7 * DAY_MS,
+  marketplace: DAY_MS,
+  globalInsights: 12 * HOUR_MS
+};
+
+export interface AiCacheEntry {
+  id: string; // Hash of provider, task, model, prompt, image and sensitivity hashes
+  task: AiTask;
+  model: string;
+  value: unknown;
+  sensitivityHash?: string; // Set when the answer depends on the user's sensitivity list
+  bytes: number;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface AiCacheSummary {
+  task: AiTask;
+  count: number;
+  bytes: number;
+  newest: string;
+}
+
+export interface AiCacheKeyInput {
+  provider: AiProviderId;
+  task: AiTask;
+  model: string;
+  contents: AiRequest['contents'];
+  sensitivities?: FoodSensitivity[];
+}
+
+const hashText = (text: string) => hashBytes(new TextEncoder().encode(text));
+
+// Order- and case-insensitive so re-saving the same list keeps its hash
+export const hashSensitivities = (sensitivities: FoodSensitivity[] = []): Promise<string> => {
+  const normalized = sensitivities.map(s => `${s.food.trim().toLowerCase()}:${s.level}`).sort();
+  return hashText(JSON.stringify(normalized));
+};
+
+const hashContents = async (contents: AiRequest['contents']) => {
+  if (typeof contents === 'string') return { prompt: contents };
+  const prompt = contents.parts.map(p => 'text' in p ? p.text : '').join('\n');
+  const images = await Promise.all(contents.parts
+    .filter((p): p is Extract<typeof p, { inlineData: unknown }> => 'inlineData' in p)
+    .map(p => hashText(p.inlineData.data)));
+  return { prompt, images };
+};
+
+const isExpired = (entry: AiCacheEntry) => new Date(entry.expiresAt).getTime() <= Date.now();
+
+export const aiCache = {
+  keyFor: async (input: AiCacheKeyInput): Promise<{ id: string; sensitivityHash?: string }> => {
+    const sensitivityHash = input.sensitivities ? await hashSensitivities(input.sensitivities) : undefined;
+    const content = await hashContents(input.contents);
+    const id = await hashText(JSON.stringify([input.provider, input.task, input.model, content, sensitivityHash || null]));
+    return { id, sensitivityHash };
+  },
+
+  get: async <T>(id: string): Promise<T | undefined> => {
+    const entry = await storage.get<AiCacheEntry>(STORES.aiCache, id);
+    if (!entry) return undefined;
+    if (isExpired(entry)) {
+      await storage.delete(STORES.aiCache, id);
+      return undefined;
+    }
+    return entry.value as T;
+  },
+
+  set: (id: string, task: AiTask, model: string, value: unknown, ttlMs: number, sensitivityHash?: string): Promise<void> => {
+    const now = Date.now();
+    const entry: AiCacheEntry = {
+      id,
+      task,
+      model,
+      value,
+      sensitivityHash,
+      bytes: JSON.stringify(value).length,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + ttlMs).toISOString()
+    };
+    return storage.put(STORES.aiCache, entry);
+  },
+
+  /** Live entries grouped by task, for the Settings inspector. */
+  summarize: async (): Promise<AiCacheSummary[]> => {
+    const entries = (await storage.getAll<AiCacheEntry>(STORES.aiCache)).filter(e => !isExpired(e));
+    const byTask = new Map<AiTask, AiCacheSummary>();
+    entries.forEach(entry => {
+      const summary = byTask.get(entry.task) || { task: entry.task, count: 0, bytes: 0, newest: entry.createdAt };
+      summary.count++;
+      summary.bytes += entry.bytes;
+      if (entry.createdAt > summary.newest) summary.newest = entry.createdAt;
+      byTask.set(entry.task, summary);
+    });
+    return Array.from(byTask.values()).sort((a, b) => b.count - a.count);
+  },
+
+  /** Drops answers computed against a sensitivity list. Returns the number removed. */
+  invalidateSensitive: async (): Promise<number> => {
+    const entries = await storage.getAll<AiCacheEntry>(STORES.aiCache);
+    const stale = entries.filter(e => e.sensitivityHash);
+    await Promise.all(stale.map(e => storage.delete(STORES.aiCache, e.id)));
+    return stale.length;
+  },
+
+  clear: (): Promise<void> => storage.replaceAll(STORES.aiCache, [])
+};
+
+/**
+ * Returns the cached result for `input` or calls `run` and stores what it
+ * resolves to. Tasks without a TTL bypass the cache; cache failures never
+ * fail the call, and rejections are not cached.
+ */
+export const withAiCache = async <T>(input: AiCacheKeyInput, run: () => Promise<T>): Promise<T> => {
+  const ttl = AI_CACHE_TTL_MS[input.task];
+  if (!ttl) return run();
+
+  let key: { id: string; sensitivityHash?: string } | null = null;
+  try {
+    key = await aiCache.keyFor(input);
+    const hit = await aiCache.get<T>(key.id);
+    if (hit !== undefined) return hit;
+  } catch (e) {
+    console.warn("AI cache lookup failed", e);
+  }
+
+  const result = await run();
+  if (key && result != null) {
+    aiCache.set(key.id, input.task, input.model, result, ttl, key.sensitivityHash)
+      .catch(e => console.warn("AI cache write failed", e));
+  }
+  return result;
+};
@@ -0,0 +1,108 @@
+import { geminiProvider } from './geminiProvider';
+import { mockAiProvider } from './mockAiProvider';
+
+// Preference set from Settings; the AI_PROVIDER env variable overrides it
+const PROVIDER_KEY = 'flarefinder_ai_provider';
+
+export type AiProviderId = 'gemini' | 'mock';
+
+// Identifies the calling feature so providers (and the mock's fixtures) can tell requests apart
+export type AiTask =
+  | 'labResults'
+  | 'foodImage'
+  | 'manualFood'
+  | 'patternInsights'
+  | 'coachChat'
+  | 'reminders'
+  | 'flareDetective'
+  | 'groceryScan'
+  | 'mealSimulation'
+  | 'menuAnalysis'
+  | 'marketplace'
+  | 'globalInsights'
+  | 'voiceCommand'
+  | 'mealPlan'
+  | 'coachSummary';
+
+export const AI_TASK_LABELS: Record<AiTask, string> = {
+  labResults: 'Lab report parsing',
+  foodImage: 'Meal photos',
+  manualFood: 'Manual food lookups',
+  patternInsights: 'Bio-Forecast',
+  coachChat: 'Coach chat',
+  reminders: 'Smart reminders',
+  flareDetective: 'Flare Detective',
+  groceryScan: 'Grocery scans',
+  mealSimulation: 'Meal simulations',
+  menuAnalysis: 'Menu scans',
+  marketplace: 'Product picks',
+  globalInsights: 'Community trends',
+  voiceCommand: 'Voice logging',
+  mealPlan: 'Meal plans',
+  coachSummary: 'Coach memory'
+};
+
+export type AiPart = { text: string } | { inlineData: { mimeType: string; data: string } };
+
+/** Provider-neutral request, shaped after Gemini's generateContent parameters. */
+export interface AiRequest {
+  task: AiTask;
+  model: string;
+  contents: string | { parts: AiPart[] };
+  config?: {
+    responseMimeType?: string;
+    responseSchema?: unknown;
+    temperature?: number;
+    maxOutputTokens?: number;
+  };
+  signal?: AbortSignal;
+}
+
+export interface AiTokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface AiResponse {
+  text: string | undefined;
+  usage?: AiTokenUsage; // From the provider's usage metadata, when reported
+}
+
+export interface AiProvider {
+  id: AiProviderId;
+  label: string;
+  isAvailable: () => boolean;
+  generate: (request: AiRequest) => Promise<AiResponse>;
+  /** Like generate, but calls `onText` with the text received so far as it arrives. */
+  stream: (request: AiRequest, onText: (text: string) => void) => Promise<AiResponse>;
+}
+
+export const AI_PROVIDERS: Record<AiProviderId, AiProvider> = {
+  gemini: geminiProvider,
+  mock: mockAiProvider
+};
+
+const isProviderId = (value: unknown): value is AiProviderId => typeof value === 'string' && value in AI_PROVIDERS;
+
+export const getEnvProviderId = (): AiProviderId | null => {
+  const fromEnv = process.env.AI_PROVIDER;
+  return isProviderId(fromEnv) ? fromEnv : null;
+};
+
+export const getProviderId = (): AiProviderId => {
+  const envId = getEnvProviderId();
+  if (envId) return envId;
+  const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(PROVIDER_KEY) : null;
+  return isProviderId(stored) ? stored : 'gemini';
+};
+
+export const setProviderId = (id: AiProviderId) => {
+  localStorage.setItem(PROVIDER_KEY, id);
+};
+
+/** The selected provider, or null when it cannot run (e.g. Gemini without an API key). */
+export const getAiProvider = (): AiProvider | null => {
+  const provider = AI_PROVIDERS[getProviderId()];
+  return provider.isAvailable() ? provider : null;
+};
@@ -0,0 +1,295 @@
+import { AiTask } from './aiProvider';
+
+// User-initiated work (a food scan) runs before background refreshes (reminders)
+export type AiPriority = 'interactive' | 'normal' | 'background';
+
+const PRIORITY_RANK: Record<AiPriority, number> = { interactive: 0, normal: 1, background: 2 };
+
+export interface ModelBudget {
+  requestsPerMinute: number;
+  minSpacingMs: number; // Minimum gap between two requests to the same model
+}
+
+const DEFAULT_BUDGET: ModelBudget = { requestsPerMinute: 10, minSpacingMs: 1000 };
+const WINDOW_MS = 60000;
+const RATE_LIMIT_COOLDOWN_MS = 60000;
+const RETRY_BACKOFF_MS = 3000;
+const MAX_TRANSIENT_RETRIES = 1;
+
+export type AiJobStatus = 'queued' | 'waiting' | 'running';
+
+export interface AiJobInfo {
+  id: string;
+  task: AiTask;
+  priority: AiPriority;
+  status: AiJobStatus;
+  model?: string;
+  waitUntil?: number; // Set while waiting for a model's rate budget
+}
+
+export interface AiQueueState {
+  jobs: AiJobInfo[];
+}
+
+/** How a job ended, reported once per scheduled call (e.g. for the usage ledger). */
+export interface AiJobOutcome {
+  task: AiTask;
+  status: 'success' | 'error' | 'cancelled';
+  models: string[]; // Model of each attempt, in order
+  retries: number;
+  fallbacks: number;
+  waitMs: number; // Queued or held back by rate budgets before the first attempt
+  latencyMs: number; // First attempt start to settle
+  error?: string;
+}
+
+export interface ScheduleOptions {
+  task: AiTask;
+  priority: AiPriority;
+  models: string[]; // Preferred model first, then fallbacks
+  signal?: AbortSignal;
+  onSettled?: (outcome: AiJobOutcome) => void;
+}
+
+interface Job {
+  info: AiJobInfo;
+  options: ScheduleOptions;
+  seq: number;
+  modelIndex: number;
+  retries: number;
+  notBefore: number;
+  attempts: string[];
+  enqueuedAt: number;
+  startedAt?: number;
+  run: (model: string, signal?: AbortSignal) => Promise<unknown>;
+  detach?: () => void; // Removes the abort listener once the job settles
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+interface ModelUsage {
+  starts: number[]; // Request start times inside the rolling window
+  cooldownUntil: number;
+}
+
+const budgets = new Map<string, ModelBudget>();
+const usage = new Map<string, ModelUsage>();
+const listeners = new Set<(state: AiQueueState) => void>();
+let queue: Job[] = [];
+let nextSeq = 0;
+let draining = false;
+let wake: (() => void) | null = null;
+
+export const createAbortError = () => new DOMException("AI request cancelled", 'AbortError');
+
+export const isAbortError = (e: unknown) => e instanceof DOMException && e.name === 'AbortError';
+
+const statusOf = (err: any): number | undefined =>
+  [err?.status, err?.error?.status, err?.error?.code].find((s): s is number => typeof s === 'number');
+
+// fetch rejects with a TypeError when the request never reached the server
+const isNetworkError = (err: any) =>
+  statusOf(err) === undefined && (err instanceof TypeError || /network|failed to fetch|fetch failed/i.test(String(err?.message)));
+
+// Rate limits, server errors and dropped connections may pass on another model or a retry; bad requests and bad responses won't
+const isTransient = (err: any) => {
+  const status = statusOf(err);
+  return status === 429 || (status !== undefined && status >= 500) || isNetworkError(err);
+};
+
+const usageOf = (model: string): ModelUsage => {
+  let entry = usage.get(model);
+  if (!entry) {
+    entry = { starts: [], cooldownUntil: 0 };
+    usage.set(model, entry);
+  }
+  return entry;
+};
+
+/** Earliest time `model` may receive another request under its budget. */
+const readyAt = (model: string, now: number): number => {
+  const budget = budgets.get(model) || DEFAULT_BUDGET;
+  const entry = usageOf(model);
+  entry.starts = entry.starts.filter(t => now - t < WINDOW_MS);
+  let ready = entry.cooldownUntil;
+  const last = entry.starts[entry.starts.length - 1];
+  if (last !== undefined) ready = Math.max(ready, last + budget.minSpacingMs);
+  if (entry.starts.length >= budget.requestsPerMinute) ready = Math.max(ready, entry.starts[0] + WINDOW_MS);
+  return ready;
+};
+
+// Skips past models that are cooling down after a rate-limit error, keeping the last as a floor
+const pickModel = (job: Job, now: number): string => {
+  const { models } = job.options;
+  for (let i = job.modelIndex; i < models.length - 1; i++) {
+    if (usageOf(models[i]).cooldownUntil <= now) return models[i];
+    job.modelIndex = i + 1;
+  }
+  return models[models.length - 1];
+};
+
+const notify = () => {
+  const state = aiScheduler.getState();
+  listeners.forEach(listener => listener(state));
+};
+
+const remove = (job: Job) => {
+  queue = queue.filter(j => j !== job);
+};
+
+const settle = (job: Job, status: AiJobOutcome['status'], value?: unknown, error?: any) => {
+  remove(job);
+  job.detach?.();
+  const now = Date.now();
+  try {
+    job.options.onSettled?.({
+      task: job.info.task,
+      status,
+      models: job.attempts,
+      retries: job.retries,
+      fallbacks: job.modelIndex,
+      waitMs: (job.startedAt ?? now) - job.enqueuedAt,
+      latencyMs: job.startedAt ? now - job.startedAt : 0,
+      error: error ? String(error.message || error) : undefined
+    });
+  } catch (e) {
+    console.error("AI job listener failed", e);
+  }
+  if (status === 'success') job.resolve(value);
+  else job.reject(error);
+};
+
+const sleep = (ms: number) => new Promise<void>(resolve => {
+  const timer = setTimeout(done, ms);
+  function done() {
+    clearTimeout(timer);
+    wake = null;
+    resolve();
+  }
+  wake = done;
+});
+
+const nextJob = (now: number): Job | undefined => {
+  const ready = queue.filter(j => j.info.status !== 'running' && j.notBefore <= now);
+  return ready.sort((a, b) => PRIORITY_RANK[a.info.priority] - PRIORITY_RANK[b.info.priority] || a.seq - b.seq)[0];
+};
+
+const execute = async (job: Job, model: string) => {
+  usageOf(model).starts.push(Date.now());
+  job.startedAt ??= Date.now();
+  job.attempts.push(model);
+  job.info = { ...job.info, status: 'running', model, waitUntil: undefined };
+  notify();
+  try {
+    settle(job, 'success', await job.run(model, job.options.signal));
+  } catch (err) {
+    if (job.options.signal?.aborted) {
+      settle(job, 'cancelled', undefined, createAbortError());
+    } else {
+      if (statusOf(err) === 429) usageOf(model).cooldownUntil = Date.now() + RATE_LIMIT_COOLDOWN_MS;
+      const hasFallback = job.modelIndex < job.options.models.length - 1;
+      if (isTransient(err) && (hasFallback || job.retries < MAX_TRANSIENT_RETRIES)) {
+        // Requeue on the next model, or the same one after a backoff
+        if (hasFallback) job.modelIndex++;
+        else job.retries++;
+        job.notBefore = Date.now() + (hasFallback ? 0 : RETRY_BACKOFF_MS);
+        job.info = { ...job.info, status: 'queued', model: undefined };
+      } else {
+        settle(job, 'error', undefined, err);
+      }
+    }
+  }
+  notify();
+};
+
+// One request in flight at a time; jobs wait here for their model's budget
+const drain = async () => {
+  if (draining) return;
+  draining = true;
+  try {
+    while (queue.length > 0) {
+      const now = Date.now();
+      const job = nextJob(now);
+      if (!job) {
+        await sleep(Math.max(0, Math.min(...queue.map(j => j.notBefore)) - now));
+        continue;
+      }
+      const model = pickModel(job, now);
+      const waitUntil = readyAt(model, now);
+      if (waitUntil > now) {
+        job.info = { ...job.info, status: 'waiting', model, waitUntil };
+        notify();
+        // Woken early by new or cancelled jobs so a higher priority job can go first
+        await sleep(waitUntil - now);
+        continue;
+      }
+      await execute(job, model);
+    }
+  } finally {
+    draining = false;
+  }
+};
+
+export const aiScheduler = {
+  /**
+   * Queues `run` and resolves with its result. Jobs run one at a time by
+   * priority, then arrival; each attempt waits for its model's rate budget.
+   * A rate limit, server or network error falls through to the next model in
+   * `options.models`; other errors reject at once. An aborted `signal`
+   * rejects with an AbortError.
+   */
+  schedule: <T>(options: ScheduleOptions, run: (model: string, signal?: AbortSignal) => Promise<T>): Promise<T> => {
+    return new Promise<T>((resolve, reject) => {
+      const { signal } = options;
+      if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+      }
+      const job: Job = {
+        info: { id: crypto.randomUUID(), task: options.task, priority: options.priority, status: 'queued' },
+        options,
+        seq: nextSeq++,
+        modelIndex: 0,
+        retries: 0,
+        notBefore: 0,
+        attempts: [],
+        enqueuedAt: Date.now(),
+        run,
+        resolve,
+        reject
+      };
+      const onAbort = () => {
+        // A running job settles through its own signal-aware request
+        if (job.info.status === 'running' || !queue.includes(job)) return;
+        settle(job, 'cancelled', undefined, createAbortError());
+        notify();
+        wake?.();
+      };
+      if (signal) {
+        signal.addEventListener('abort', onAbort, { once: true });
+        job.detach = () => signal.removeEventListener('abort', onAbort);
+      }
+      queue.push(job);
+      notify();
+      wake?.();
+      drain();
+    });
+  },
+
+  setBudget: (model: string, budget: ModelBudget) => {
+    budgets.set(model, budget);
+  },
+
+  getState: (): AiQueueState => ({
+    jobs: [...queue]
+      .sort((a, b) => PRIORITY_RANK[a.info.priority] - PRIORITY_RANK[b.info.priority] || a.seq - b.seq)
+      .map(j => ({ ...j.info }))
+  }),
+
+  subscribe: (listener: (state: AiQueueState) => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+};
@@ -0,0 +1,395 @@
+import { Type } from "@google/genai";
+import { AiTask } from './aiProvider';
+
+// Gemini response schemas, one per task, mirroring the shapes in types.ts.
+// Ids and timestamps are assigned locally, so they are not requested here.
+
+const NUTRITION = {
+  type: Type.OBJECT,
+  properties: {
+    calories: { type: Type.NUMBER },
+    protein: { type: Type.NUMBER },
+    carbs: { type: Type.NUMBER },
+    fat: { type: Type.NUMBER }
+  }
+};
+
+const SENSITIVITY_ALERT = {
+  type: Type.OBJECT,
+  properties: {
+    level: { type: Type.STRING, enum: ["high", "medium", "low"] },
+    triggerIngredient: { type: Type.STRING },
+    message: { type: Type.STRING }
+  }
+};
+
+const FOOD_ITEM = {
+  type: Type.OBJECT,
+  required: ["name", "category", "ingredients", "reasoning", "nutrition"],
+  properties: {
+    name: { type: Type.STRING },
+    category: { type: Type.STRING },
+    ingredients: { type: Type.ARRAY, items: { type: Type.STRING } },
+    reasoning: { type: Type.STRING },
+    nutrition: NUTRITION,
+    sensitivityAlert: SENSITIVITY_ALERT,
+    ingredientAnalysis: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          safetyLevel: { type: Type.STRING, enum: ["high", "medium", "safe"] },
+          reason: { type: Type.STRING }
+        }
+      }
+    }
+  }
+};
+
+const FOOD_ANALYSIS = {
+  type: Type.OBJECT,
+  required: ["detectedItems"],
+  properties: {
+    detectedItems: { type: Type.ARRAY, items: FOOD_ITEM }
+  }
+};
+
+const LAB_RESULT = {
+  type: Type.OBJECT,
+  properties: {
+    sensitivities: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        required: ["food", "level"],
+        properties: {
+          food: { type: Type.STRING, description: "The specific food or ingredient identified." },
+          level: { type: Type.STRING, enum: ["high", "medium", "low"], description: "The level of sensitivity or reactivity." },
+          category: { type: Type.STRING, description: "Biological category (e.g. Dairy, Nightshade)." }
+        }
+      }
+    },
+    biomarkers: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        required: ["name", "value", "unit"],
+        properties: {
+          name: { type: Type.STRING, description: "Biomarker name like CRP, Glucose, etc." },
+          value: { type: Type.NUMBER, description: "Numerical value." },
+          unit: { type: Type.STRING, description: "Measurement unit (mg/L, mmol, etc.)." },
+          status: { type: Type.STRING, enum: ["normal", "high", "low"] }
+        }
+      }
+    },
+    summary: { type: Type.STRING, description: "A brief clinical summary of the findings." }
+  }
+};
+
+const DEEP_ANALYSIS = {
+  type: Type.OBJECT,
+  required: ["dailyNarrative", "bioWeather", "dailyProtocol"],
+  properties: {
+    dailyNarrative: { type: Type.STRING },
+    bioWeather: {
+      type: Type.OBJECT,
+      required: ["status", "headline", "summary"],
+      properties: {
+        status: { type: Type.STRING, enum: ["Sunny", "Cloudy", "Stormy"] },
+        headline: { type: Type.STRING },
+        summary: { type: Type.STRING }
+      }
+    },
+    dailyProtocol: {
+      type: Type.OBJECT,
+      properties: {
+        nutritionFocus: { type: Type.STRING },
+        movement: { type: Type.STRING },
+        selfCare: { type: Type.STRING },
+        mindset: { type: Type.STRING }
+      }
+    },
+    afirScore: {
+      type: Type.OBJECT,
+      properties: {
+        value: { type: Type.NUMBER, description: "0-100" },
+        trend: { type: Type.STRING, enum: ["improving", "worsening", "stable"] },
+        influencingFactors: { type: Type.ARRAY, items: { type: Type.STRING } }
+      }
+    },
+    forecast: {
+      type: Type.OBJECT,
+      properties: {
+        riskLevel: { type: Type.STRING, enum: ["low", "medium", "high"] },
+        explanation: { type: Type.STRING }
+      }
+    },
+    topTriggers: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          probability: { type: Type.NUMBER, description: "0-100" },
+          reason: { type: Type.STRING }
+        }
+      }
+    },
+    protectiveBehaviors: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          impact: { type: Type.STRING }
+        }
+      }
+    },
+    dailySummary: { type: Type.STRING },
+    recommendations: { type: Type.ARRAY, items: { type: Type.STRING } },
+    experiments: { type: Type.ARRAY, items: { type: Type.STRING } }
+  }
+};
+
+// One flat argument object covers every coach tool; each tool reads only its own fields
+const COACH_TOOL_CALL = {
+  type: Type.OBJECT,
+  required: ["name", "args"],
+  properties: {
+    name: { type: Type.STRING, enum: ["query_food_logs", "log_behavior", "add_to_shopping_list", "add_sensitivity", "start_experiment"] },
+    args: {
+      type: Type.OBJECT,
+      properties: {
+        from: { type: Type.STRING, description: "YYYY-MM-DD" },
+        to: { type: Type.STRING, description: "YYYY-MM-DD" },
+        ingredient: { type: Type.STRING },
+        type: { type: Type.STRING, enum: ["sleep", "water", "workout", "stress", "menstrual", "weather", "mood", "anxiety", "energy", "symptom_pcos", "symptom_hs", "intervention"] },
+        value: { type: Type.STRING },
+        unit: { type: Type.STRING },
+        details: { type: Type.STRING },
+        item: { type: Type.STRING },
+        brand: { type: Type.STRING },
+        food: { type: Type.STRING },
+        level: { type: Type.STRING, enum: ["high", "medium", "low"] },
+        category: { type: Type.STRING },
+        target: { type: Type.STRING },
+        hypothesis: { type: Type.STRING },
+        eliminationDays: { type: Type.NUMBER },
+        challengeDays: { type: Type.NUMBER },
+        washoutDays: { type: Type.NUMBER }
+      }
+    }
+  }
+};
+
+// Reply first so it can be shown while the rest of the JSON streams in
+const COACH_REPLY = {
+  type: Type.OBJECT,
+  required: ["reply"],
+  propertyOrdering: ["reply", "suggestions", "toolCalls"],
+  properties: {
+    reply: { type: Type.STRING },
+    suggestions: { type: Type.ARRAY, items: { type: Type.STRING } },
+    toolCalls: { type: Type.ARRAY, items: COACH_TOOL_CALL }
+  }
+};
+
+const COACH_SUMMARY = {
+  type: Type.OBJECT,
+  required: ["summary"],
+  properties: {
+    summary: { type: Type.STRING }
+  }
+};
+
+const REMINDERS = {
+  type: Type.OBJECT,
+  required: ["reminders"],
+  properties: {
+    reminders: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        required: ["type", "text", "priority"],
+        properties: {
+          type: { type: Type.STRING, enum: ["weather", "cycle", "habit", "general"] },
+          text: { type: Type.STRING },
+          priority: { type: Type.STRING, enum: ["low", "high"] }
+        }
+      }
+    }
+  }
+};
+
+const DETECTIVE_REPORT = {
+  type: Type.OBJECT,
+  required: ["spikeDetected", "suspects", "conclusion"],
+  properties: {
+    spikeDetected: { type: Type.BOOLEAN },
+    suspects: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        required: ["name", "reason", "confidence"],
+        properties: {
+          name: { type: Type.STRING },
+          reason: { type: Type.STRING },
+          confidence: { type: Type.NUMBER, description: "0-100" }
+        }
+      }
+    },
+    conclusion: { type: Type.STRING }
+  }
+};
+
+const GROCERY_SCAN = {
+  type: Type.OBJECT,
+  required: ["detectedItems"],
+  properties: {
+    detectedItems: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        required: ["name"],
+        properties: {
+          name: { type: Type.STRING },
+          category: { type: Type.STRING },
+          sensitivityAlert: SENSITIVITY_ALERT,
+          nutrition: NUTRITION
+        }
+      }
+    }
+  }
+};
+
+const SIMULATION_RESULT = {
+  type: Type.OBJECT,
+  required: ["riskScore", "prediction", "biologicalMechanisms", "verdict"],
+  properties: {
+    riskScore: { type: Type.NUMBER, description: "0-100" },
+    prediction: { type: Type.STRING },
+    biologicalMechanisms: { type: Type.ARRAY, items: { type: Type.STRING } },
+    verdict: { type: Type.STRING, enum: ["Safe", "Caution", "Avoid"] },
+    betterOption: { type: Type.STRING }
+  }
+};
+
+const MENU_ITEM = {
+  type: Type.OBJECT,
+  required: ["dishName", "safetyLevel", "reason"],
+  properties: {
+    dishName: { type: Type.STRING },
+    description: { type: Type.STRING },
+    safetyLevel: { type: Type.STRING, enum: ["safe", "caution", "avoid"] },
+    modification: { type: Type.STRING, nullable: true },
+    reason: { type: Type.STRING }
+  }
+};
+
+const MENU_ANALYSIS = {
+  type: Type.OBJECT,
+  required: ["safeOptions", "cautionOptions", "avoidOptions", "chefCardText"],
+  properties: {
+    safeOptions: { type: Type.ARRAY, items: MENU_ITEM },
+    cautionOptions: { type: Type.ARRAY, items: MENU_ITEM },
+    avoidOptions: { type: Type.ARRAY, items: MENU_ITEM },
+    chefCardText: { type: Type.STRING }
+  }
+};
+
+const MARKETPLACE_PRODUCTS = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    required: ["name", "brand", "category", "matchScore", "matchReason"],
+    properties: {
+      id: { type: Type.STRING },
+      name: { type: Type.STRING },
+      brand: { type: Type.STRING },
+      category: { type: Type.STRING, enum: ["supplement", "food", "skincare", "device"] },
+      price: { type: Type.STRING },
+      matchScore: { type: Type.NUMBER, description: "0-100" },
+      matchReason: { type: Type.STRING }
+    }
+  }
+};
+
+const GLOBAL_INSIGHTS = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    required: ["topic", "stat", "trend"],
+    properties: {
+      topic: { type: Type.STRING },
+      stat: { type: Type.STRING },
+      trend: { type: Type.STRING, enum: ["up", "down", "neutral"] }
+    }
+  }
+};
+
+const VOICE_COMMAND = {
+  type: Type.OBJECT,
+  required: ["foodLogs", "behaviorLogs"],
+  properties: {
+    foodLogs: {
+      type: Type.ARRAY,
+      items: FOOD_ANALYSIS
+    },
+    behaviorLogs: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        required: ["type", "value"],
+        properties: {
+          type: { type: Type.STRING, enum: ["sleep", "water", "workout", "stress", "menstrual", "weather", "mood", "anxiety", "energy", "symptom_pcos", "symptom_hs"] },
+          value: { type: Type.NUMBER },
+          details: { type: Type.STRING }
+        }
+      }
+    }
+  }
+};
+
+const RECIPE = {
+  type: Type.OBJECT,
+  required: ["title", "description", "ingredients", "prepTime"],
+  properties: {
+    id: { type: Type.STRING },
+    title: { type: Type.STRING },
+    description: { type: Type.STRING },
+    ingredients: { type: Type.ARRAY, items: { type: Type.STRING } },
+    prepTime: { type: Type.STRING },
+    tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+    matchScore: { type: Type.NUMBER, description: "0-100" }
+  }
+};
+
+const DAY_PLAN = {
+  type: Type.OBJECT,
+  required: ["breakfast", "lunch", "dinner", "snack"],
+  properties: {
+    breakfast: RECIPE,
+    lunch: RECIPE,
+    dinner: RECIPE,
+    snack: RECIPE
+  }
+};
+
+export const AI_RESPONSE_SCHEMAS: Record<AiTask, object> = {
+  labResults: LAB_RESULT,
+  foodImage: FOOD_ANALYSIS,
+  manualFood: FOOD_ITEM,
+  patternInsights: DEEP_ANALYSIS,
+  coachChat: COACH_REPLY,
+  reminders: REMINDERS,
+  flareDetective: DETECTIVE_REPORT,
+  groceryScan: GROCERY_SCAN,
+  mealSimulation: SIMULATION_RESULT,
+  menuAnalysis: MENU_ANALYSIS,
+  marketplace: MARKETPLACE_PRODUCTS,
+  globalInsights: GLOBAL_INSIGHTS,
+  voiceCommand: VOICE_COMMAND,
+  mealPlan: DAY_PLAN,
+  coachSummary: COACH_SUMMARY
+};
@@ -0,0 +1,188 @@
+import { AiProviderId, AiTask, AiTokenUsage } from './aiProvider';
+import { AiJobOutcome } from './aiScheduler';
+import { AVAILABLE_MODELS } from './modelRouting';
+
+// Device-wide, like the API key it meters
+const LEDGER_KEY = 'flarefinder_ai_usage';
+const BUDGET_KEY = 'flarefinder_ai_budget';
+const MAX_ENTRIES = 2000;
+const RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+export type AiUsageStatus = AiJobOutcome['status'] | 'blocked';
+
+/** One provider request, including schema repair re-prompts. */
+export interface AiCallUsage extends AiTokenUsage {
+  model: string;
+}
+
+/** One AI feature call as the user triggered it, across all its attempts. */
+export interface AiUsageEntry {
+  id: string;
+  timestamp: string;
+  task: AiTask;
+  provider: AiProviderId;
+  status: AiUsageStatus;
+  models: string[]; // Model of each attempt; the last one produced the result
+  retries: number;
+  fallbacks: number;
+  calls: number; // Provider requests, repairs included
+  latencyMs: number;
+  waitMs: number;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  error?: string;
+}
+
+export interface AiTaskUsage {
+  task: AiTask;
+  calls: number;
+  tokens: number;
+  costUsd: number;
+}
+
+export interface AiUsageSummary {
+  calls: number;
+  failures: number;
+  blocked: number;
+  retries: number;
+  fallbacks: number;
+  tokens: number;
+  costUsd: number;
+  byTask: AiTaskUsage[]; // Most expensive first
+}
+
+/** Thrown instead of calling the provider when a non-essential task is over the monthly budget. */
+export class AiBudgetError extends Error {
+  constructor(public task: AiTask, public limitUsd: number) {
+    super(`Monthly AI budget of $${limitUsd.toFixed(2)} reached; skipped ${task}`);
+    this.name = 'AiBudgetError';
+  }
+}
+
+const readLedger = (): AiUsageEntry[] => {
+  try {
+    const raw = localStorage.getItem(LEDGER_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error("Failed to read AI usage ledger", e);
+    return [];
+  }
+};
+
+// Oldest entries go first once the ledger is past its retention or size cap
+const writeLedger = (entries: AiUsageEntry[]) => {
+  const cutoff = Date.now() - RETENTION_MS;
+  const kept = entries.filter(e => new Date(e.timestamp).getTime() >= cutoff).slice(-MAX_ENTRIES);
+  try {
+    localStorage.setItem(LEDGER_KEY, JSON.stringify(kept));
+  } catch (e) {
+    console.error("Failed to write AI usage ledger", e);
+  }
+};
+
+const append = (entry: AiUsageEntry) => {
+  writeLedger([...readLedger(), entry]);
+  return entry;
+};
+
+const costOf = (provider: AiProviderId, calls: AiCallUsage[]) => {
+  if (provider === 'mock') return 0;
+  return calls.reduce((sum, call) => {
+    const pricing = AVAILABLE_MODELS.find(m => m.id === call.model)?.pricing;
+    if (!pricing) return sum;
+    return sum + (call.promptTokens * pricing.inputPerMillion + call.outputTokens * pricing.outputPerMillion) / 1e6;
+  }, 0);
+};
+
+const sumOf = (calls: AiCallUsage[], field: keyof AiTokenUsage) => calls.reduce((sum, call) => sum + call[field], 0);
+
+export const aiUsage = {
+  record: (provider: AiProviderId, outcome: AiJobOutcome, calls: AiCallUsage[]): AiUsageEntry => append({
+    id: crypto.randomUUID(),
+    timestamp: new Date().toISOString(),
+    task: outcome.task,
+    provider,
+    status: outcome.status,
+    models: outcome.models,
+    retries: outcome.retries,
+    fallbacks: outcome.fallbacks,
+    calls: calls.length,
+    latencyMs: outcome.latencyMs,
+    waitMs: outcome.waitMs,
+    promptTokens: sumOf(calls, 'promptTokens'),
+    outputTokens: sumOf(calls, 'outputTokens'),
+    totalTokens: sumOf(calls, 'totalTokens'),
+    costUsd: costOf(provider, calls),
+    error: outcome.error
+  }),
+
+  recordBlocked: (provider: AiProviderId, task: AiTask): AiUsageEntry => append({
+    id: crypto.randomUUID(),
+    timestamp: new Date().toISOString(),
+    task,
+    provider,
+    status: 'blocked',
+    models: [],
+    retries: 0,
+    fallbacks: 0,
+    calls: 0,
+    latencyMs: 0,
+    waitMs: 0,
+    promptTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+    costUsd: 0
+  }),
+
+  /** Newest first. */
+  getEntries: (): AiUsageEntry[] => readLedger().reverse(),
+
+  /** Start of the current calendar month in local time. */
+  monthStart: (now = new Date()): number => new Date(now.getFullYear(), now.getMonth(), 1).getTime(),
+
+  summarize: (since: number): AiUsageSummary => {
+    const entries = readLedger().filter(e => new Date(e.timestamp).getTime() >= since);
+    const byTask = new Map<AiTask, AiTaskUsage>();
+    entries.forEach(e => {
+      if (e.status === 'blocked') return;
+      const row = byTask.get(e.task) || { task: e.task, calls: 0, tokens: 0, costUsd: 0 };
+      row.calls++;
+      row.tokens += e.totalTokens;
+      row.costUsd += e.costUsd;
+      byTask.set(e.task, row);
+    });
+    return {
+      calls: entries.filter(e => e.status !== 'blocked').length,
+      failures: entries.filter(e => e.status === 'error').length,
+      blocked: entries.filter(e => e.status === 'blocked').length,
+      retries: entries.reduce((sum, e) => sum + e.retries, 0),
+      fallbacks: entries.reduce((sum, e) => sum + e.fallbacks, 0),
+      tokens: entries.reduce((sum, e) => sum + e.totalTokens, 0),
+      costUsd: entries.reduce((sum, e) => sum + e.costUsd, 0),
+      byTask: Array.from(byTask.values()).sort((a, b) => b.costUsd - a.costUsd || b.calls - a.calls)
+    };
+  },
+
+  /** Monthly spending cap in USD, or null for none. */
+  getMonthlyBudget: (): number | null => {
+    const value = Number(localStorage.getItem(BUDGET_KEY));
+    return isFinite(value) && value > 0 ? value : null;
+  },
+
+  setMonthlyBudget: (limitUsd: number | null) => {
+    if (limitUsd && limitUsd > 0) localStorage.setItem(BUDGET_KEY, String(limitUsd));
+    else localStorage.removeItem(BUDGET_KEY);
+  },
+
+  isOverBudget: (): boolean => {
+    const limit = aiUsage.getMonthlyBudget();
+    return limit !== null && aiUsage.summarize(aiUsage.monthStart()).costUsd >= limit;
+  },
+
+  clear: () => {
+    localStorage.removeItem(LEDGER_KEY);
+  }
+};
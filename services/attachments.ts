@@ -0,0 +1,145 @@
+import { Attachment } from '../types';
+import { storage, STORES } from './storage';
+
+const THUMBNAIL_SIZE = 192;
+
+const objectUrlCache = new Map<string, string>();
+const thumbnailCache = new Map<string, string>();
+// Set while the store is encrypted: ids are then keyed hashes, since plain ones stay readable on disk
+let keyedHash: ((bytes: Uint8Array) => Promise<string>) | null = null;
+
+const dataUrlToBytes = (dataUrl: string): { bytes: Uint8Array; mimeType: string } => {
+  const [header, payload] = dataUrl.split(',');
+  const mimeType = header.match(/data:(.*?);base64/)?.[1] || 'application/octet-stream';
+  const binaryString = atob(payload || '');
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return { bytes, mimeType };
+};
+
+// SHA-256 where WebCrypto is available; FNV-1a fallback for non-secure contexts
+export const hashBytes = async (bytes: Uint8Array): Promise<string> => {
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+  }
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return `fnv-${hash.toString(16)}-${bytes.length}`;
+};
+
+
+const createThumbnail = (dataUrl: string, size = THUMBNAIL_SIZE): Promise<string | undefined> => {
+  return new Promise((resolve) => {
+    if (typeof document === 'undefined') { resolve(undefined); return; }
+    const img = new Image();
+    img.src = dataUrl;
+    img.onload = () => {
+      const scale = Math.min(1, size / Math.max(img.width, img.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+      const ctx = canvas.getContext('2d');
+      ctx?.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', 0.6));
+    };
+    img.onerror = () => resolve(undefined);
+  });
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const isDataUrl = (value?: string | null): value is string => !!value && value.startsWith('data:');
+
+export const attachments = {
+  /** Switches between content-hash ids (null) and keyed ids for an encrypted store. */
+  setKeyedHash: (hash: ((bytes: Uint8Array) => Promise<string>) | null) => {
+    keyedHash = hash;
+  },
+
+  /** The id `bytes` are stored under with the current id scheme. */
+  idFor: (bytes: Uint8Array): Promise<string> => keyedHash ? keyedHash(bytes) : hashBytes(bytes),
+
+  /**
+   * Stores a base64 data URL and returns its content-derived id. Identical
+   * uploads resolve to the same id and are only written once.
+   */
+  save: async (dataUrl: string): Promise<string> => {
+    const { bytes, mimeType } = dataUrlToBytes(dataUrl);
+    const id = await attachments.idFor(bytes);
+    const existing = await storage.get<Attachment>(STORES.attachments, id);
+    if (existing) return id;
+
+    const record: Attachment = {
+      id,
+      mimeType,
+      size: bytes.length,
+      createdAt: new Date().toISOString(),
+      blob: new Blob([bytes], { type: mimeType }),
+      thumbnail: mimeType.startsWith('image/') ? await createThumbnail(dataUrl) : undefined
+    };
+    await storage.put(STORES.attachments, record);
+    return id;
+  },
+
+  get: (id: string): Promise<Attachment | undefined> => {
+    return storage.get<Attachment>(STORES.attachments, id);
+  },
+
+  getObjectUrl: async (id: string): Promise<string | null> => {
+    const cached = objectUrlCache.get(id);
+    if (cached) return cached;
+    const record = await attachments.get(id);
+    if (!record) return null;
+    const url = URL.createObjectURL(record.blob);
+    objectUrlCache.set(id, url);
+    return url;
+  },
+
+  getThumbnail: async (id: string): Promise<string | null> => {
+    const cached = thumbnailCache.get(id);
+    if (cached) return cached;
+    const record = await attachments.get(id);
+    if (!record) return null;
+    const thumbnail = record.thumbnail || await attachments.getObjectUrl(id);
+    if (thumbnail) thumbnailCache.set(id, thumbnail);
+    return thumbnail;
+  },
+
+  getDataUrl: async (id: string): Promise<string | null> => {
+    const record = await attachments.get(id);
+    return record ? blobToDataUrl(record.blob) : null;
+  },
+
+  getAll: (): Promise<Attachment[]> => {
+    return storage.getAll<Attachment>(STORES.attachments);
+  },
+
+  remove: async (id: string): Promise<void> => {
+    const url = objectUrlCache.get(id);
+    if (url) URL.revokeObjectURL(url);
+    objectUrlCache.delete(id);
+    thumbnailCache.delete(id);
+    await storage.delete(STORES.attachments, id);
+  },
+
+  /** Deletes every stored blob whose id is not in `referencedIds`. Returns the number removed. */
+  collectGarbage: async (referencedIds: Set<string>): Promise<number> => {
+    const keys = await storage.getAllKeys(STORES.attachments);
+    const orphans = keys.map(String).filter(id => !referencedIds.has(id));
+    await Promise.all(orphans.map(id => attachments.remove(id)));
+    return orphans.length;
+  }
+};
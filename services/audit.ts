@@ -0,0 +1,78 @@
+import { AppState, AuditEntry, AuditAction, AuditSource } from '../types';
+import { storage, STORES } from './storage';
+import { COLLECTIONS, MERGE_COLLECTIONS } from './importMerge';
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Inline photos are replaced with a marker so entries stay small
+const snapshot = (value: unknown) => {
+  if (value == null) return undefined;
+  return JSON.parse(JSON.stringify(value, (_key, v) => typeof v === 'string' && v.startsWith('data:') ? '[image]' : v));
+};
+
+const generateId = () => typeof crypto !== 'undefined' && crypto.randomUUID
+  ? crypto.randomUUID()
+  : Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
+
+export const createAuditEntry = (
+  collection: string,
+  recordId: string,
+  action: AuditAction,
+  source: AuditSource,
+  before?: unknown,
+  after?: unknown,
+  note?: string
+): AuditEntry => ({
+  id: generateId(),
+  collection,
+  recordId: String(recordId),
+  action,
+  source,
+  timestamp: new Date().toISOString(),
+  before: snapshot(before),
+  after: snapshot(after),
+  note
+});
+
+/** Top-level fields whose values differ between two snapshots. */
+export const diffRecords = (before: any, after: any): FieldChange[] => {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  return Array.from(fields)
+    .filter(field => JSON.stringify(before?.[field]) !== JSON.stringify(after?.[field]))
+    .map(field => ({ field, before: before?.[field], after: after?.[field] }));
+};
+
+/** Audit entries for every record a bulk write (e.g. an import merge) added or changed. */
+export const auditStateChanges = (before: AppState, after: AppState, source: AuditSource, note?: string): AuditEntry[] => {
+  const entries: AuditEntry[] = [];
+  MERGE_COLLECTIONS.forEach(collection => {
+    const spec = COLLECTIONS[collection];
+    const existing = new Map(spec.get(before).map(r => [spec.key(r), r]));
+    spec.get(after).forEach(record => {
+      const key = spec.key(record);
+      const previous = existing.get(key);
+      if (!previous) entries.push(createAuditEntry(collection, key, 'create', source, undefined, record, note));
+      else if (JSON.stringify(previous) !== JSON.stringify(record)) entries.push(createAuditEntry(collection, key, 'update', source, previous, record, note));
+    });
+  });
+  return entries;
+};
+
+export const auditLog = {
+  append: (entries: AuditEntry[]) => storage.putMany(STORES.audit, entries),
+
+  getAll: async (): Promise<AuditEntry[]> => {
+    const entries = await storage.getAll<AuditEntry>(STORES.audit);
+    return entries.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  },
+
+  // Records are sealed individually under encryption, so filtering happens after decode rather than via an index
+  getForRecord: async (collection: string, recordId: string): Promise<AuditEntry[]> => {
+    const entries = await auditLog.getAll();
+    return entries.filter(e => e.collection === collection && e.recordId === String(recordId));
+  }
+};
@@ -0,0 +1,91 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { BackupError, createBackup, isEncryptedBackup, readBackup } from './backup';
+
+const PASSPHRASE = 'correct horse battery';
+
+const fixture = (name: string) => readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), 'utf8');
+
+const failure = async (text: string, passphrase?: string) => {
+  try {
+    await readBackup(text, passphrase);
+  } catch (e) {
+    expect(e).toBeInstanceOf(BackupError);
+    return (e as BackupError).code;
+  }
+  throw new Error('expected readBackup to fail');
+};
+
+describe('plain backups', () => {
+  it('read the fixture', async () => {
+    const contents = (await readBackup(fixture('backup-plain.json')))!;
+    expect(contents.state.flareLogs[0].severity).toBe(3);
+    expect(contents.state.user?.name).toBe('Sam');
+    expect(contents.attachments).toEqual({ 'img-1': 'data:image/png;base64,iVBORw0KGgo=' });
+    expect(isEncryptedBackup(fixture('backup-plain.json'))).toBe(false);
+  });
+
+  it('round-trip through export and import', async () => {
+    const { state, attachments } = (await readBackup(fixture('backup-plain.json')))!;
+    const reread = (await readBackup(await createBackup(state, attachments)))!;
+    expect(reread.state).toEqual(state);
+    expect(reread.attachments).toEqual(attachments);
+  });
+
+  it('reject a truncated file', async () => {
+    expect(await failure(fixture('backup-truncated.json'))).toBe('truncated');
+  });
+
+  it('reject a section that no longer matches its checksum', async () => {
+    expect(await failure(fixture('backup-plain-tampered.json'))).toBe('tampered');
+  });
+
+  it('return null for files that are not backups', async () => {
+    expect(await readBackup('{"hello": "world"}')).toBeNull();
+  });
+});
+
+describe('encrypted backups', () => {
+  it('read the fixture with its passphrase', async () => {
+    const contents = (await readBackup(fixture('backup-encrypted.json'), PASSPHRASE))!;
+    expect(contents.state.foodLogs[0].detectedItems[0].name).toBe('Cheese pizza');
+    expect(isEncryptedBackup(fixture('backup-encrypted.json'))).toBe(true);
+  });
+
+  it('round-trip through export and import', async () => {
+    const { state, attachments } = (await readBackup(fixture('backup-encrypted.json'), PASSPHRASE))!;
+    const reread = (await readBackup(await createBackup(state, attachments, { passphrase: PASSPHRASE }), PASSPHRASE))!;
+    expect(reread.state).toEqual(state);
+    expect(reread.attachments).toEqual(attachments);
+  });
+
+  it('still read the v1 layout', async () => {
+    const contents = (await readBackup(fixture('backup-encrypted-v1.json'), PASSPHRASE))!;
+    expect(contents.state.flareLogs[0].severity).toBe(3);
+  });
+
+  it('keep plaintext digests, sizes and counts out of the clear manifest', async () => {
+    const plain = JSON.parse(fixture('backup-plain.json')).manifest.sections;
+    const sealed = JSON.parse(fixture('backup-encrypted.json')).manifest.sections;
+    for (const section of sealed) {
+      expect(section).not.toHaveProperty('count');
+      expect(section).not.toHaveProperty('bytes');
+      expect(plain.find((p: { name: string }) => p.name === section.name).sha256).not.toBe(section.sha256);
+    }
+  });
+
+  it('ask for a passphrase and reject a wrong one', async () => {
+    expect(await failure(fixture('backup-encrypted.json'))).toBe('passphrase-required');
+    expect(await failure(fixture('backup-encrypted.json'), 'not the passphrase')).toBe('wrong-passphrase');
+  });
+
+  it('reject swapped sections even when the clear digests were fixed up', async () => {
+    expect(await failure(fixture('backup-encrypted-tampered.json'), PASSPHRASE)).toBe('tampered');
+  });
+
+  it('reject a file whose sealed manifest was stripped', async () => {
+    const stripped = JSON.parse(fixture('backup-encrypted.json'));
+    delete stripped.manifest.sealedSections;
+    expect(await failure(JSON.stringify(stripped), PASSPHRASE)).toBe('tampered');
+  });
+});
@@ -0,0 +1,237 @@
+import { AppState } from '../types';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import { EncryptionConfig, SealedText, PassphraseError, createEncryptionConfig, unlockWithPassphrase, sealText, openText } from './encryption';
+
+export const BACKUP_FORMAT = 'flarefinder-backup';
+// v2 seals the per-section digests and counts of encrypted backups
+export const BACKUP_FORMAT_VERSION = 2;
+
+const APP_VERSION = process.env.APP_VERSION || 'dev';
+const ATTACHMENTS_SECTION = 'attachments';
+
+/**
+ * Per-section integrity data. In plain backups these are unauthenticated
+ * checksums: they catch corruption, not deliberate edits, since anyone can
+ * recompute them. Encrypted backups list only ciphertext digests in the clear
+ * and keep the plaintext entries in the sealed `sealedSections`.
+ */
+export interface BackupSection {
+  name: string; // Top-level AppState key, or 'attachments'
+  sha256: string; // Hex digest of the JSON payload, or of the sealed payload in encrypted backups
+  count?: number; // Omitted from the clear manifest of encrypted backups
+  bytes?: number; // Length of the plaintext JSON payload; omitted like count
+}
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  appVersion: string;
+  schemaVersion: number;
+  createdAt: string;
+  encryption?: EncryptionConfig; // Present when payloads are sealed; carries salt and key check
+  sections: BackupSection[];
+  sealedSections?: SealedText; // Encrypted backups: plaintext BackupSection[] sealed, so AES-GCM authenticates it
+}
+
+export interface BackupFile {
+  manifest: BackupManifest;
+  payloads: Record<string, string | SealedText>;
+}
+
+export interface BackupContents {
+  manifest: BackupManifest;
+  state: AppState;
+  attachments: Record<string, string>; // Attachment id -> data URL
+}
+
+export interface BackupEncryptionOptions {
+  passphrase?: string; // Seal with a fresh key derived from this passphrase
+  key?: CryptoKey; // Or reuse an existing key together with its config
+  config?: EncryptionConfig;
+}
+
+export type BackupErrorCode = 'truncated' | 'tampered' | 'unsupported' | 'passphrase-required' | 'wrong-passphrase';
+
+export class BackupError extends Error {
+  constructor(public code: BackupErrorCode, message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const sealedDigest = (payload: SealedText) => sha256Hex(`${payload.iv}.${payload.data}`);
+
+const countOf = (value: unknown): number => {
+  if (Array.isArray(value)) return value.length;
+  if (value && typeof value === 'object') return Object.keys(value).length;
+  return value == null ? 0 : 1;
+};
+
+const isBackupFile = (parsed: any): parsed is BackupFile => parsed?.manifest?.format === BACKUP_FORMAT;
+
+// Distinguishes a cut-off container from a file that was never a backup
+const looksTruncated = (text: string) => text.trimStart().startsWith('{') && text.includes(`"${BACKUP_FORMAT}"`);
+
+export const isBackupContainer = (text: string): boolean => {
+  try {
+    return isBackupFile(JSON.parse(text));
+  } catch {
+    return looksTruncated(text);
+  }
+};
+
+export const isEncryptedBackup = (text: string): boolean => {
+  try {
+    const parsed = JSON.parse(text);
+    return isBackupFile(parsed) && !!parsed.manifest.encryption;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Serializes a state snapshot into a backup container. Each top-level
+ * collection becomes its own payload with a SHA-256 digest in the manifest.
+ * With encryption options every payload is sealed with AES-GCM, and the
+ * plaintext digests, sizes and counts are sealed too rather than listed.
+ */
+export const createBackup = async (state: AppState, attachments: Record<string, string>, options: BackupEncryptionOptions = {}): Promise<string> => {
+  let key = options.key;
+  let encryption = options.config;
+  if (options.passphrase) {
+    ({ key, config: encryption } = await createEncryptionConfig(options.passphrase));
+  }
+  const sealed = !!(key && encryption);
+
+  const { schemaVersion, ...collections } = state;
+  const entries: [string, unknown][] = [...Object.entries(collections), [ATTACHMENTS_SECTION, attachments]];
+  const sections: BackupSection[] = [];
+  const plainSections: BackupSection[] = [];
+  const payloads: Record<string, string | SealedText> = {};
+
+  for (const [name, value] of entries) {
+    const json = JSON.stringify(value ?? null);
+    const plain: BackupSection = { name, count: countOf(value), bytes: json.length, sha256: await sha256Hex(json) };
+    if (sealed) {
+      const payload = await sealText(key!, json);
+      payloads[name] = payload;
+      sections.push({ name, sha256: await sealedDigest(payload) });
+      plainSections.push(plain);
+    } else {
+      payloads[name] = json;
+      sections.push(plain);
+    }
+  }
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    appVersion: APP_VERSION,
+    schemaVersion: schemaVersion || CURRENT_SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    encryption: sealed ? encryption : undefined,
+    sections,
+    sealedSections: sealed ? await sealText(key!, JSON.stringify(plainSections)) : undefined
+  };
+  return JSON.stringify({ manifest, payloads } as BackupFile, null, 2);
+};
+
+/**
+ * Opens a backup container and verifies every section against the manifest.
+ * Returns null for files that are not containers (e.g. legacy raw dumps);
+ * throws BackupError for truncated, tampered, newer or locked backups.
+ * Only encrypted backups are authenticated; for plain ones 'tampered' means
+ * the checksums disagree, which catches corruption but not a careful edit.
+ * The returned state is not migrated yet.
+ */
+export const readBackup = async (text: string, passphrase?: string): Promise<BackupContents | null> => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    if (looksTruncated(text)) {
+      throw new BackupError('truncated', "This backup file is incomplete. It may have been cut off while downloading or copying.");
+    }
+    return null;
+  }
+  if (!isBackupFile(parsed)) return null;
+
+  const { manifest, payloads } = parsed;
+  if (manifest.formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new BackupError('unsupported', `This backup was made by a newer version of FlareFinder (${manifest.appVersion}). Please update the app to import it.`);
+  }
+  if (!Array.isArray(manifest.sections) || !payloads || typeof payloads !== 'object') {
+    throw new BackupError('truncated', "This backup file is missing its contents.");
+  }
+
+  let key: CryptoKey | undefined;
+  if (manifest.encryption) {
+    if (!passphrase) throw new BackupError('passphrase-required', "This backup is encrypted. Enter its passphrase to import it.");
+    try {
+      key = await unlockWithPassphrase(manifest.encryption, passphrase);
+    } catch (e) {
+      if (e instanceof PassphraseError) throw new BackupError('wrong-passphrase', "Incorrect passphrase for this backup.");
+      throw e;
+    }
+  }
+
+  const listed = new Set(manifest.sections.map(s => s.name));
+  const unlisted = Object.keys(payloads).filter(name => !listed.has(name));
+  if (unlisted.length > 0) {
+    throw new BackupError('tampered', `This backup contains data not listed in its manifest (${unlisted.join(', ')}). It may have been modified.`);
+  }
+
+  // Encrypted v2 backups are checked against the sealed plaintext entries; v1 listed them in the clear
+  let expected = new Map(manifest.sections.map(s => [s.name, s]));
+  if (key && (manifest.sealedSections || manifest.formatVersion >= 2)) {
+    let sealedSections: BackupSection[];
+    try {
+      sealedSections = JSON.parse(await openText(key, manifest.sealedSections!));
+    } catch {
+      throw new BackupError('tampered', "This backup's manifest could not be verified. The file may have been modified.");
+    }
+    expected = new Map(sealedSections.map(s => [s.name, s]));
+    if (sealedSections.length !== listed.size || manifest.sections.some(s => !expected.has(s.name))) {
+      throw new BackupError('tampered', "This backup's sections do not match its sealed manifest. The file may have been modified.");
+    }
+  }
+
+  const values: Record<string, any> = {};
+  for (const section of manifest.sections) {
+    const payload = payloads[section.name];
+    if (payload == null) {
+      throw new BackupError('truncated', `This backup is missing its "${section.name}" section. The file may be incomplete.`);
+    }
+    const plain = expected.get(section.name)!;
+    if (key && manifest.sealedSections && (typeof payload !== 'object' || await sealedDigest(payload) !== section.sha256)) {
+      throw new BackupError('tampered', `The "${section.name}" section failed its integrity check. The file may have been modified or corrupted.`);
+    }
+    let json: string;
+    try {
+      // AES-GCM authenticates each payload, so a failed open after a good key check means modification
+      json = key ? await openText(key, payload as SealedText) : payload as string;
+    } catch {
+      throw new BackupError('tampered', `The "${section.name}" section could not be decrypted. The file may have been modified.`);
+    }
+    if (typeof json !== 'string' || await sha256Hex(json) !== plain.sha256) {
+      throw new BackupError('tampered', `The "${section.name}" section failed its integrity check. The file may have been modified or corrupted.`);
+    }
+    const value = JSON.parse(json);
+    if (plain.count !== undefined && countOf(value) !== plain.count) {
+      throw new BackupError('tampered', `The "${section.name}" section does not match its manifest. The file may have been modified.`);
+    }
+    values[section.name] = value;
+  }
+
+  const { [ATTACHMENTS_SECTION]: embedded, ...collections } = values;
+  return {
+    manifest,
+    state: { ...collections, schemaVersion: manifest.schemaVersion } as AppState,
+    attachments: embedded || {}
+  };
+};
@@ -0,0 +1,137 @@
+import { AppState, BehaviorLog, CoachAction, CoachToolName, Experiment, FoodSensitivity, ShoppingListItem } from '../types';
+import { db } from './db';
+import { redaction } from './redaction';
+import { experiments } from './experiments';
+import { CoachToolCall, ValidationIssue, Validator, validateBehaviorLog, validateExperiment, validateFoodSensitivity, validateShoppingListItem } from './validation';
+
+/*
+ * Tools the coach can ask for in its reply (`toolCalls`). Read tools run
+ * straight away and their results go back to the model; write tools become
+ * CoachActions that only touch `db` once the user confirms them in the chat.
+ */
+
+export interface CoachTool {
+  name: CoachToolName;
+  kind: 'read' | 'write';
+  description: string;
+}
+
+export const COACH_TOOLS: CoachTool[] = [
+  { name: 'query_food_logs', kind: 'read', description: 'Meals eaten between args.from and args.to (local dates as YYYY-MM-DD, both optional), optionally only those containing args.ingredient.' },
+  { name: 'log_behavior', kind: 'write', description: 'Log a habit: args.type, args.value (e.g. "6"; for type intervention, the supplement or habit taken, e.g. "zinc"), optional args.unit and args.details.' },
+  { name: 'add_to_shopping_list', kind: 'write', description: 'Add args.item (optional args.brand) to the shopping list.' },
+  { name: 'add_sensitivity', kind: 'write', description: 'Record a food sensitivity: args.food, args.level (high, medium or low), optional args.category.' },
+  { name: 'start_experiment', kind: 'write', description: 'Start an elimination-reintroduction experiment for args.target with args.hypothesis; optional args.eliminationDays (default 14), args.challengeDays (3) and args.washoutDays (3).' }
+];
+
+const QUERY_LIMIT = 20;
+
+export type CoachProposal = { action: CoachAction } | { issues: ValidationIssue[] };
+
+const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+const days = (value: unknown) => typeof value === 'number' ? value : text(value) !== '' && isFinite(Number(text(value))) ? Number(text(value)) : undefined;
+
+// The model's from/to are the user's calendar dates, so meals are keyed by local date rather than UTC
+const dayOf = (timestamp: string) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// Builds the record a write tool would save, so it is validated before the user sees the card
+const buildRecord = (call: CoachToolCall): { validator: Validator<object>; record: Record<string, unknown>; label: (record: any) => string } => {
+  const args = call.args;
+  switch (call.name) {
+    case 'log_behavior': {
+      const raw = text(args.value);
+      return {
+        validator: validateBehaviorLog,
+        record: {
+          id: crypto.randomUUID(),
+          timestamp: new Date().toISOString(),
+          type: args.type,
+          value: raw !== '' && isFinite(Number(raw)) ? Number(raw) : raw,
+          unit: text(args.unit) || undefined,
+          details: text(args.details) || undefined
+        },
+        label: (log: BehaviorLog) => `Log ${log.type.replace('_', ' ')}: ${log.value}${log.unit ? ` ${log.unit}` : ''}`
+      };
+    }
+    case 'add_to_shopping_list':
+      return {
+        validator: validateShoppingListItem,
+        record: { id: crypto.randomUUID(), name: text(args.item), brand: text(args.brand) || undefined, addedAt: new Date().toISOString(), status: 'pending' },
+        label: (item: ShoppingListItem) => `Add ${item.name}${item.brand ? ` (${item.brand})` : ''} to shopping list`
+      };
+    case 'add_sensitivity':
+      return {
+        validator: validateFoodSensitivity,
+        record: { food: text(args.food), level: args.level, category: text(args.category) || undefined, source: 'manual', dateDetected: new Date().toISOString() },
+        label: (s: FoodSensitivity) => `Add ${s.level} sensitivity: ${s.food}`
+      };
+    case 'start_experiment': {
+      const target = text(args.target) || text(args.food);
+      return {
+        validator: validateExperiment,
+        record: target ? experiments.create({
+          target,
+          hypothesis: text(args.hypothesis) || `Does ${target} affect my flares?`,
+          eliminationDays: days(args.eliminationDays),
+          challengeDays: days(args.challengeDays),
+          washoutDays: days(args.washoutDays)
+        }) as unknown as Record<string, unknown> : {},
+        label: (e: Experiment) => `Start experiment: avoid ${e.target} for ${e.eliminationDays} days, then reintroduce for ${e.challengeDays}`
+      };
+    }
+    default:
+      throw new Error(`${call.name} is not a write tool`);
+  }
+};
+
+export const coachTools = {
+  isReadTool: (name: CoachToolName) => COACH_TOOLS.find(t => t.name === name)?.kind === 'read',
+
+  /** Tool list for the coach prompt. */
+  describe: () => COACH_TOOLS
+    .map(t => `- ${t.name} (${t.kind === 'read' ? 'result returned to you' : 'shown to the user to confirm'}): ${t.description}`)
+    .join('\n'),
+
+  /** Runs query_food_logs against `state`, returning minimized meals as JSON for the prompt. */
+  runQuery: (call: CoachToolCall, state: AppState): string => {
+    const from = text(call.args.from);
+    const to = text(call.args.to);
+    const ingredient = text(call.args.ingredient).toLowerCase();
+    const matches = (name: string) => name.toLowerCase().includes(ingredient);
+    const meals = state.foodLogs
+      .filter(l => !l.isGroceryScan)
+      .filter(l => (!from || dayOf(l.timestamp) >= from) && (!to || dayOf(l.timestamp) <= to))
+      .filter(l => !ingredient || l.detectedItems.some(i => matches(i.name) || (i.ingredients || []).some(matches)))
+      .map(l => ({ timestamp: l.timestamp, foods: l.detectedItems.map(i => i.name), manualNotes: l.manualNotes }));
+    return JSON.stringify({ total: meals.length, meals: redaction.minimize(meals.slice(0, QUERY_LIMIT), state.user) });
+  },
+
+  /** Turns a write tool call into a pending action, or the reasons its arguments were rejected. */
+  propose: (call: CoachToolCall): CoachProposal => {
+    const { validator, record, label } = buildRecord(call);
+    const result = validator(record);
+    if (!result.ok) return { issues: result.errors };
+    return { action: { id: crypto.randomUUID(), tool: call.name, args: result.value as Record<string, unknown>, label: label(result.value), status: 'pending' } };
+  },
+
+  /** Saves a confirmed action. Throws ValidationError if the record no longer validates. */
+  apply: (action: CoachAction): Promise<boolean> => {
+    switch (action.tool) {
+      case 'log_behavior':
+        return db.addBehaviorLog(action.args as unknown as BehaviorLog, 'ai');
+      case 'add_to_shopping_list':
+        return db.addToShoppingList(action.args as unknown as ShoppingListItem, 'ai');
+      case 'add_sensitivity':
+        return db.updateUserSensitivities([action.args as unknown as FoodSensitivity]);
+      case 'start_experiment':
+        // Day one is the day the user confirms, not the day it was proposed
+        return db.saveExperiment(experiments.create(action.args as unknown as Experiment), 'ai');
+      default:
+        return Promise.resolve(false);
+    }
+  }
+};
@@ -1,9 +1,26 @@
+import { AppState, Attachment, TrashItem, AuditEntry, AuditSource, UserProfile, FoodLog, FlareLog, BehaviorLog, DeepAnalysis, FoodSensitivity, ShoppingListItem, LabReport, FlareDetectiveReport, Biomarker, ChatMessage, ChatSummary, Reminder, MarketplaceProduct, Experiment, Trial } from '../types';
+import { storage, STORES, StoreName, isQuotaError } from './storage';
+import { migrateState, CURRENT_SCHEMA_VERSION, SchemaVersionError } from './migrations';
+import { attachments, isDataUrl } from './attachments';
+import { assertValid, assertAllValid, validateFoodLog, validateFlareLog, validateBehaviorLog, validateLabReport, validateBiomarker, validateFoodSensitivity, validateExperiment, validateTrial } from './validation';
+import { previewImport, mergeStates, ImportPreview, MergeStrategies, DEFAULT_STRATEGIES, COLLECTIONS } from './importMerge';
+import { EncryptionConfig, createEncryptionConfig, unlockWithPassphrase, createRecordCodec, createIdSecret, openIdSecret, withIdSecret, createKeyedHasher } from './encryption';
+import { createBackup, readBackup, isEncryptedBackup } from './backup';
+import { undoStack } from './undo';
+import { auditLog, createAuditEntry, auditStateChanges } from './audit';
+import { profiles } from './profiles';
+import { aiCache } from './aiCache';
 
-import { AppState, UserProfile, FoodLog, FlareLog, BehaviorLog, DeepAnalysis, FoodSensitivity, ShoppingListItem, LabReport, FlareDetectiveReport, Biomarker } from '../types';
+// Pre-IndexedDB storage key, read once on first launch and then removed
+const LEGACY_STORAGE_KEY = 'flarefinder_db_v3';
+const ENCRYPTION_META_KEY = 'encryption';
+const TRASH_RETENTION_DAYS = 30;
+const MAX_CHAT_MESSAGES = 200;
+// Notes on audit entries written while replaying the undo stack
+const UNDO_NOTE = 'Undo';
+const REDO_NOTE = 'Redo';
 
-const STORAGE_KEY = 'flarefinder_db_v3';
-
-const initialDb: AppState = {
+const createEmptyState = (): AppState => ({
   user: null,
   foodLogs: [],
   flareLogs: [],
@@ -11,8 +28,23 @@ const initialDb: AppState = {
   currentAnalysis: null,
   shoppingList: [],
   flareDetectiveReports: [],
-  biomarkers: []
-};
+  biomarkers: [],
+  experiments: [],
+  trials: []
+});
+
+// In-memory snapshot of the IndexedDB contents so reads stay synchronous
+let cache: AppState = createEmptyState();
+let analyses: DeepAnalysis[] = [];
+let trash: TrashItem[] = [];
+let initialized = false;
+// Set when stored data cannot be loaded safely (e.g. written by a newer app version); blocks all writes
+let loadError: Error | null = null;
+// Passphrase encryption: config is read before unlock, the key only lives in memory
+let encryptionConfig: EncryptionConfig | null = null;
+let activeKey: CryptoKey | null = null;
+let locked = false;
+const changeListeners = new Set<() => void>();
 
 // Fallback UUID for non-secure contexts
 const generateId = () => {
@@ -22,174 +54,797 @@ const generateId = () => {
   return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
 };
 
+// Stored data exists but could not be read; the cause is kept for diagnostics
+export class StoreLoadError extends Error {
+  constructor(public cause: unknown) {
+    super('Your saved data could not be read on this device. Nothing has been changed or overwritten; please restart the app, and restore a backup if the problem persists.');
+    this.name = 'StoreLoadError';
+  }
+}
+
+const newestFirst = <T>(getDate: (item: T) => string) => (a: T, b: T) =>
+  new Date(getDate(b)).getTime() - new Date(getDate(a)).getTime();
+
+// Lab reports get their own store, so the profile record is saved without them
+const toStoredProfile = (user: UserProfile): UserProfile => {
+  const { labReports, ...profile } = user;
+  return profile;
+};
+
+const getReferencedAttachmentIds = (state: AppState): Set<string> => {
+  const ids = new Set<string>();
+  state.foodLogs.forEach(l => l.imageId && ids.add(l.imageId));
+  (state.user?.labReports || []).forEach(r => r.imageId && ids.add(r.imageId));
+  return ids;
+};
+
+// Trashed meals keep their photos until they are purged
+const getRetainedAttachmentIds = (): Set<string> => {
+  const ids = getReferencedAttachmentIds(cache);
+  trash.forEach(t => t.collection === 'foodLogs' && (t.record as FoodLog).imageId && ids.add((t.record as FoodLog).imageId));
+  return ids;
+};
+
+// Drops a blob once no log, report or trashed record points at it any more
+const releaseAttachment = async (imageId?: string) => {
+  if (!imageId || getRetainedAttachmentIds().has(imageId)) return;
+  try {
+    await attachments.remove(imageId);
+  } catch (e) {
+    console.error("Failed to remove attachment", e);
+  }
+};
+
+// Points records at attachments that were stored under a new id
+const relinkAttachments = <T extends { imageId?: string }>(records: T[], renamed: Map<string, string>): T[] =>
+  records.map(r => r.imageId && renamed.has(r.imageId) ? { ...r, imageId: renamed.get(r.imageId) } : r);
+
+/**
+ * Moves inline base64 images (legacy data and imported backups) into the
+ * attachment store, replacing them with attachment ids. Returns true if
+ * anything was moved.
+ */
+const externalizeInlineImages = async (state: AppState): Promise<boolean> => {
+  let changed = false;
+  const records: { imageUrl?: string; imageId?: string }[] = [...state.foodLogs, ...(state.user?.labReports || [])];
+  for (const record of records) {
+    if (!isDataUrl(record.imageUrl)) continue;
+    try {
+      record.imageId = await attachments.save(record.imageUrl);
+      delete record.imageUrl;
+      changed = true;
+    } catch (e) {
+      // Leave the image inline; the next launch will retry
+      console.error("Failed to move image into attachment store", e);
+    }
+  }
+  return changed;
+};
+
+const persist = async (write: () => Promise<unknown>): Promise<boolean> => {
+  if (loadError || locked) return false;
+  try {
+    await write();
+    return true;
+  } catch (e) {
+    console.error("Failed to save DB", e);
+    if (isQuotaError(e)) {
+      alert("CRITICAL: Device storage is full! Please free up space on this device or delete some old logs with photos.");
+    }
+    return false;
+  }
+};
+
+const notifyChange = () => changeListeners.forEach(listener => listener());
+
+// Audit writes never block or fail the change they describe
+const recordAudit = (...entries: AuditEntry[]) => {
+  if (entries.length === 0) return;
+  persist(() => auditLog.append(entries));
+};
+
+// Cached AI answers were computed against the old sensitivity list
+const invalidateAiCacheOnSensitivityChange = (before: FoodSensitivity[] = [], after: FoodSensitivity[] = []) => {
+  if (JSON.stringify(before) === JSON.stringify(after)) return;
+  aiCache.invalidateSensitive().catch(e => console.warn("Failed to invalidate AI cache", e));
+};
+
+type TrashCollection = TrashItem['collection'];
+
+const TRASHABLE: Record<TrashCollection, { store: StoreName; label: string; date: (record: any) => string }> = {
+  foodLogs: { store: STORES.foodLogs, label: 'meal', date: (r: FoodLog) => r.timestamp },
+  flareLogs: { store: STORES.flareLogs, label: 'flare', date: (r: FlareLog) => r.timestamp },
+  behaviorLogs: { store: STORES.behaviorLogs, label: 'habit log', date: (r: BehaviorLog) => r.timestamp },
+  shoppingList: { store: STORES.shoppingList, label: 'shopping item', date: (r: ShoppingListItem) => r.addedAt }
+};
+
+const getRecords = (collection: TrashCollection): { id: string }[] => (cache[collection] || []) as { id: string }[];
+
+const setRecords = (collection: TrashCollection, records: { id: string }[]) => {
+  switch (collection) {
+    case 'foodLogs': cache.foodLogs = records as FoodLog[]; break;
+    case 'flareLogs': cache.flareLogs = records as FlareLog[]; break;
+    case 'behaviorLogs': cache.behaviorLogs = records as BehaviorLog[]; break;
+    case 'shoppingList': cache.shoppingList = records as ShoppingListItem[]; break;
+  }
+};
+
+// Inserts or replaces a record, keeping the collection newest-first. Logs are
+// stamped with `updatedAt` so imports can tell which copy was edited last.
+const putRecord = <T extends { id: string }>(collection: TrashCollection, input: T, source: AuditSource, note?: string) => {
+  const spec = TRASHABLE[collection];
+  const record = collection === 'shoppingList' ? input : { ...input, updatedAt: new Date().toISOString() };
+  const previous = getRecords(collection).find(r => r.id === record.id);
+  const others = getRecords(collection).filter(r => r !== previous);
+  setRecords(collection, [...others, record].sort(newestFirst(spec.date)));
+  recordAudit(createAuditEntry(collection, record.id, previous ? 'update' : 'create', source, previous, record, note));
+  return persist(() => storage.put(spec.store, record));
+};
+
+const removeRecord = (collection: TrashCollection, id: string, source: AuditSource, note?: string) => {
+  const target = getRecords(collection).find(r => String(r.id) === String(id));
+  if (!target) return Promise.resolve(true);
+  setRecords(collection, getRecords(collection).filter(r => r !== target));
+  recordAudit(createAuditEntry(collection, target.id, 'delete', source, target, undefined, note));
+  return persist(() => storage.delete(TRASHABLE[collection].store, target.id));
+};
+
+const moveToTrash = (collection: TrashCollection, id: string, source: AuditSource, note?: string) => {
+  const record = getRecords(collection).find(r => String(r.id) === String(id));
+  if (!record) return Promise.resolve(false);
+  const item: TrashItem = { id: generateId(), collection, record: record as TrashItem['record'], deletedAt: new Date().toISOString() };
+  trash = [item, ...trash];
+  setRecords(collection, getRecords(collection).filter(r => r !== record));
+  recordAudit(createAuditEntry(collection, record.id, 'delete', source, record, undefined, note || 'Moved to trash'));
+  return persist(async () => {
+    await storage.put(STORES.trash, item);
+    await storage.delete(TRASHABLE[collection].store, record.id);
+  });
+};
+
+const restoreTrashItem = (item: TrashItem, source: AuditSource, note?: string) => {
+  trash = trash.filter(t => t.id !== item.id);
+  recordAudit(createAuditEntry(item.collection, item.record.id, 'restore', source, undefined, item.record, note));
+  const { store, date } = TRASHABLE[item.collection];
+  setRecords(item.collection, [...getRecords(item.collection).filter(r => r.id !== item.record.id), item.record].sort(newestFirst(date)));
+  return persist(async () => {
+    await storage.put(store, item.record);
+    await storage.delete(STORES.trash, item.id);
+  });
+};
+
+// Undo of a delete restores the latest trash entry for that record, even after a redo re-trashed it
+const restoreRecord = (collection: TrashCollection, id: string, source: AuditSource, note?: string) => {
+  const item = trash.find(t => t.collection === collection && t.record.id === id);
+  return item ? restoreTrashItem(item, source, note) : Promise.resolve(false);
+};
+
+const purgeTrashItems = async (items: TrashItem[], source: AuditSource, note?: string) => {
+  const ids = new Set(items.map(t => t.id));
+  trash = trash.filter(t => !ids.has(t.id));
+  recordAudit(...items.map(t => createAuditEntry(t.collection, t.record.id, 'purge', source, t.record, undefined, note)));
+  await Promise.all(items.map(t => storage.delete(STORES.trash, t.id)));
+  for (const item of items) {
+    if (item.collection === 'foodLogs') await releaseAttachment((item.record as FoodLog).imageId);
+  }
+};
+
+const track = (label: string, undo: () => Promise<unknown>, redo: () => Promise<unknown>) => {
+  undoStack.push({ label, undo, redo });
+  notifyChange();
+};
+
+const writeAll = (state: AppState, analysisHistory: DeepAnalysis[] = state.currentAnalysis ? [state.currentAnalysis] : []) => Promise.all([
+  storage.setMeta('schemaVersion', CURRENT_SCHEMA_VERSION),
+  storage.setMeta('user', state.user ? toStoredProfile(state.user) : null),
+  storage.setMeta('chatHistory', state.chatHistory || []),
+  storage.setMeta('chatSummary', state.chatSummary || null),
+  storage.setMeta('reminders', state.reminders || []),
+  storage.setMeta('marketplaceRecommendations', state.marketplaceRecommendations || []),
+  storage.replaceAll(STORES.foodLogs, state.foodLogs || []),
+  storage.replaceAll(STORES.flareLogs, state.flareLogs || []),
+  storage.replaceAll(STORES.behaviorLogs, state.behaviorLogs || []),
+  storage.replaceAll(STORES.labReports, state.user?.labReports || []),
+  storage.replaceAll(STORES.biomarkers, state.biomarkers || []),
+  storage.replaceAll(STORES.shoppingList, state.shoppingList || []),
+  storage.replaceAll(STORES.analyses, analysisHistory),
+  storage.replaceAll(STORES.detectiveReports, state.flareDetectiveReports || []),
+  storage.replaceAll(STORES.experiments, state.experiments || []),
+  storage.replaceAll(STORES.trials, state.trials || [])
+]);
+
+const loadAll = async (): Promise<AppState> => {
+  const [schemaVersion, user, chatHistory, chatSummary, reminders, marketplaceRecommendations, foodLogs, flareLogs, behaviorLogs, labReports, biomarkers, shoppingList, storedAnalyses, detectiveReports, experiments, trials, trashed] = await Promise.all([
+    storage.getMeta<number>('schemaVersion'),
+    storage.getMeta<UserProfile | null>('user'),
+    storage.getMeta<ChatMessage[]>('chatHistory'),
+    storage.getMeta<ChatSummary | null>('chatSummary'),
+    storage.getMeta<Reminder[]>('reminders'),
+    storage.getMeta<MarketplaceProduct[]>('marketplaceRecommendations'),
+    storage.getAll<FoodLog>(STORES.foodLogs),
+    storage.getAll<FlareLog>(STORES.flareLogs),
+    storage.getAll<BehaviorLog>(STORES.behaviorLogs),
+    storage.getAll<LabReport>(STORES.labReports),
+    storage.getAll<Biomarker>(STORES.biomarkers),
+    storage.getAll<ShoppingListItem>(STORES.shoppingList),
+    storage.getAll<DeepAnalysis>(STORES.analyses),
+    storage.getAll<FlareDetectiveReport>(STORES.detectiveReports),
+    storage.getAll<Experiment>(STORES.experiments),
+    storage.getAll<Trial>(STORES.trials),
+    storage.getAll<TrashItem>(STORES.trash)
+  ]);
+
+  analyses = storedAnalyses.sort(newestFirst(a => a.timestamp));
+  trash = trashed.sort(newestFirst(t => t.deletedAt));
+
+  return {
+    schemaVersion,
+    user: user ? { ...user, labReports: labReports.sort((a, b) => new Date(a.dateUploaded).getTime() - new Date(b.dateUploaded).getTime()) } : null,
+    foodLogs: foodLogs.sort(newestFirst(l => l.timestamp)),
+    flareLogs: flareLogs.sort(newestFirst(l => l.timestamp)),
+    behaviorLogs: behaviorLogs.sort(newestFirst(l => l.timestamp)),
+    currentAnalysis: analyses[0] || null,
+    flareDetectiveReports: detectiveReports.sort(newestFirst(r => r.dateGenerated)),
+    chatHistory: chatHistory || [],
+    chatSummary: chatSummary || null,
+    reminders: reminders || [],
+    shoppingList: shoppingList.sort(newestFirst(i => i.addedAt)),
+    marketplaceRecommendations: marketplaceRecommendations || [],
+    biomarkers,
+    experiments: experiments.sort(newestFirst(e => e.startDate)),
+    trials: trials.sort(newestFirst(t => t.startDate))
+  };
+};
+
+const migrateLegacyStorage = async (): Promise<boolean> => {
+  const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!stored) return false;
+  try {
+    const { state: legacy } = migrateState(JSON.parse(stored));
+    await writeAll({ ...createEmptyState(), ...legacy });
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    return true;
+  } catch (e) {
+    console.error("Failed to migrate legacy storage", e);
+    if (e instanceof SchemaVersionError) throw e;
+    return false;
+  }
+};
+
+// Keeps the switcher's name and condition in step with the profile record. The
+// registry is plaintext localStorage, so encrypted profiles only show their label.
+const syncProfileSummary = (user: UserProfile | null) => {
+  if (user && !encryptionConfig) profiles.update(profiles.getActive().id, { name: user.name, condition: user.condition });
+};
+
+const load = async () => {
+  try {
+    // Pre-IndexedDB data always belonged to the device's first profile
+    if (profiles.isDefault(profiles.getActive())) await migrateLegacyStorage();
+    const { state, applied } = migrateState(await loadAll());
+    const movedImages = await externalizeInlineImages(state);
+    if (applied.length > 0 || movedImages) {
+      await writeAll(state, analyses);
+    }
+    cache = state;
+    syncProfileSummary(cache.user);
+    const cutoff = Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    const expired = trash.filter(t => new Date(t.deletedAt).getTime() < cutoff);
+    if (expired.length > 0) await purgeTrashItems(expired, 'system', `Trash retention (${TRASH_RETENTION_DAYS} days) expired`);
+    attachments.collectGarbage(getRetainedAttachmentIds())
+      .catch(e => console.error("Attachment cleanup failed", e));
+  } catch (e) {
+    console.error("Failed to load DB", e);
+    // The empty cache must never be written over what is on disk
+    loadError = e instanceof SchemaVersionError ? e : new StoreLoadError(e);
+    cache = createEmptyState();
+  }
+};
+
+/**
+ * Stores attachments under the ids of the current scheme (content hashes, or
+ * keyed hashes when encrypted) and points the cached records at them. Returns
+ * the old ids, for the caller to remove once the records are written.
+ */
+const renameAttachments = async (stored: Attachment[]): Promise<string[]> => {
+  const renamed = new Map<string, string>();
+  const records = await Promise.all(stored.map(async a => {
+    const id = await attachments.idFor(new Uint8Array(await a.blob.arrayBuffer()));
+    if (id !== a.id) renamed.set(a.id, id);
+    return { ...a, id };
+  }));
+  // Blobs go first so no record ever points at a missing id
+  await storage.putMany(STORES.attachments, records);
+  if (renamed.size === 0) return [];
+  cache = {
+    ...cache,
+    foodLogs: relinkAttachments(cache.foodLogs, renamed),
+    user: cache.user && { ...cache.user, labReports: relinkAttachments(cache.user.labReports || [], renamed) }
+  };
+  trash = trash.map(t => t.collection === 'foodLogs' ? { ...t, record: relinkAttachments([t.record as FoodLog], renamed)[0] } : t);
+  // Undo entries still point at the old ids
+  undoStack.clear();
+  const kept = new Set(records.map(r => r.id));
+  return [...renamed.keys()].filter(id => !kept.has(id));
+};
+
+/**
+ * Rewrites every record and attachment under `key` (null for plaintext).
+ * Decoding tolerates unsealed records, so enabling is crash-safe; the
+ * config is written first when enabling and removed last when disabling.
+ */
+const rewriteWithKey = async (key: CryptoKey | null, config: EncryptionConfig | null, idSecret: Uint8Array | null) => {
+  const storedAttachments = await attachments.getAll();
+  const auditEntries = await storage.getAll<AuditEntry>(STORES.audit);
+  if (config) await storage.setRawMeta(ENCRYPTION_META_KEY, config);
+  storage.setCodec(key ? createRecordCodec(key) : null);
+  attachments.setKeyedHash(idSecret ? await createKeyedHasher(idSecret) : null);
+  const oldIds = await renameAttachments(storedAttachments);
+  await writeAll(cache, analyses);
+  await storage.replaceAll(STORES.trash, trash);
+  await storage.replaceAll(STORES.audit, auditEntries);
+  for (const id of oldIds) await attachments.remove(id);
+  // Cached AI answers are disposable, so they are dropped rather than re-sealed
+  await aiCache.clear();
+  if (!config) await storage.setRawMeta(ENCRYPTION_META_KEY, undefined);
+  encryptionConfig = config;
+  activeKey = key;
+};
+
+// Stores encrypted before attachment ids were keyed get a secret, and their attachments move to keyed ids
+const addIdSecret = async (key: CryptoKey, config: EncryptionConfig) => {
+  try {
+    const idSecret = createIdSecret();
+    attachments.setKeyedHash(await createKeyedHasher(idSecret));
+    const oldIds = await renameAttachments(await attachments.getAll());
+    await writeAll(cache, analyses);
+    await storage.replaceAll(STORES.trash, trash);
+    // Written last: until then the next unlock simply renames again
+    encryptionConfig = await withIdSecret(key, config, idSecret);
+    await storage.setRawMeta(ENCRYPTION_META_KEY, encryptionConfig);
+    for (const id of oldIds) await attachments.remove(id);
+  } catch (e) {
+    console.error("Failed to key attachment ids", e);
+  }
+};
+
+// Reads a backup container, falling back to the legacy raw AppState dump
+const parseBackup = async (jsonData: string, passphrase?: string): Promise<{ state: AppState; embedded: Record<string, string> } | null> => {
+  const container = await readBackup(jsonData, passphrase);
+  if (container) {
+    const { state } = migrateState(container.state);
+    return { state: { ...createEmptyState(), ...state }, embedded: container.attachments };
+  }
+  let parsed: any;
+  try {
+    parsed = JSON.parse(jsonData);
+  } catch (e) {
+    console.error("Backup is not valid JSON", e);
+    return null;
+  }
+  if (!parsed || !(parsed.user || Array.isArray(parsed.foodLogs))) return null;
+  const { attachments: embedded, ...rest } = parsed;
+  const { state } = migrateState(rest);
+  return { state: { ...createEmptyState(), ...state }, embedded: embedded || {} };
+};
+
 export const db = {
-  getState: (): AppState => {
+  /**
+   * Loads every collection from IndexedDB into memory. Must resolve before
+   * any component reads state; App awaits it before rendering.
+   */
+  init: async (): Promise<void> => {
+    if (initialized) return;
+    storage.useDatabase(profiles.getActive().dbName);
+    try {
+      encryptionConfig = (await storage.getRawMeta<EncryptionConfig>(ENCRYPTION_META_KEY)) || null;
+    } catch (e) {
+      console.error("Failed to read encryption settings", e);
+    }
+    if (encryptionConfig) {
+      // Registries written before labels existed still hold the name and condition
+      if (!profiles.getActive().encrypted) profiles.protect(profiles.getActive().id);
+      // Nothing can be read until the user supplies the passphrase
+      locked = true;
+    } else {
+      await load();
+    }
+    initialized = true;
+  },
+
+  getLoadError: (): Error | null => loadError,
+
+  isLocked: (): boolean => locked,
+
+  isEncryptionEnabled: (): boolean => !!encryptionConfig,
+
+  /** Verifies the passphrase, installs the decrypting codec and loads the store. */
+  unlock: async (passphrase: string): Promise<boolean> => {
+    if (!encryptionConfig) return true;
     try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      return stored ? JSON.parse(stored) : initialDb;
+      activeKey = await unlockWithPassphrase(encryptionConfig, passphrase);
     } catch (e) {
-      console.error("Failed to load DB", e);
-      return initialDb;
+      console.error("Unlock failed", e);
+      return false;
     }
+    storage.setCodec(createRecordCodec(activeKey));
+    const idSecret = await openIdSecret(activeKey, encryptionConfig);
+    attachments.setKeyedHash(idSecret && await createKeyedHasher(idSecret));
+    locked = false;
+    await load();
+    if (!idSecret && !loadError) await addIdSecret(activeKey, encryptionConfig);
+    return true;
   },
 
-  saveState: (state: AppState): boolean => {
+  /** Encrypts the store; `label` replaces the name and condition in the profile switcher. */
+  enableEncryption: async (passphrase: string, label?: string): Promise<boolean> => {
+    if (encryptionConfig || locked || loadError) return false;
     try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+      const idSecret = createIdSecret();
+      const { config, key } = await createEncryptionConfig(passphrase, idSecret);
+      await rewriteWithKey(key, config, idSecret);
+      profiles.protect(profiles.getActive().id, label);
       return true;
     } catch (e) {
-      console.error("Failed to save DB", e);
-      // @ts-ignore
-      if (e.name === 'QuotaExceededError' || e.code === 22) {
-          alert("CRITICAL: Browser Storage Full! Your meal history is too large. Please delete some old logs with photos to make space for new ones.");
-      }
+      console.error("Failed to enable encryption", e);
       return false;
     }
   },
 
-  updateUser: (user: UserProfile) => {
-    const state = db.getState();
-    state.user = user;
-    return db.saveState(state);
+  /** Re-keys the store under a new passphrase. Throws PassphraseError if `current` is wrong. */
+  changePassphrase: async (current: string, next: string): Promise<boolean> => {
+    if (!encryptionConfig || loadError) return false;
+    const currentKey = await unlockWithPassphrase(encryptionConfig, current);
+    try {
+      // Keeping the secret keeps every attachment id
+      const idSecret = (await openIdSecret(currentKey, encryptionConfig)) ?? createIdSecret();
+      const { config, key } = await createEncryptionConfig(next, idSecret);
+      await rewriteWithKey(key, config, idSecret);
+      return true;
+    } catch (e) {
+      console.error("Failed to change passphrase", e);
+      return false;
+    }
   },
 
-  updateUserSensitivities: (sensitivities: FoodSensitivity[]) => {
-    const state = db.getState();
-    if (state.user) {
-        const existingSensitivities = state.user.foodSensitivities || [];
+  disableEncryption: async (current: string): Promise<boolean> => {
+    if (!encryptionConfig) return true;
+    if (loadError) return false;
+    await unlockWithPassphrase(encryptionConfig, current);
+    try {
+      await rewriteWithKey(null, null, null);
+      profiles.unprotect(profiles.getActive().id);
+      syncProfileSummary(cache.user);
+      return true;
+    } catch (e) {
+      console.error("Failed to disable encryption", e);
+      return false;
+    }
+  },
+
+  getState: (): AppState => {
+    return structuredClone(cache);
+  },
+
+  saveState: (state: AppState): Promise<boolean> => {
+    cache = { ...createEmptyState(), ...structuredClone(state), schemaVersion: CURRENT_SCHEMA_VERSION };
+    const current = cache.currentAnalysis;
+    if (current) analyses = [current, ...analyses.filter(a => a.id !== current.id)];
+    return persist(() => writeAll(cache, analyses));
+  },
+
+  updateUser: (user: UserProfile, source: AuditSource = 'manual') => {
+    const previous = cache.user;
+    cache.user = structuredClone(user);
+    syncProfileSummary(user);
+    invalidateAiCacheOnSensitivityChange(previous?.foodSensitivities, user.foodSensitivities);
+    recordAudit(createAuditEntry('user', user.id, previous ? 'update' : 'create', source, previous && toStoredProfile(previous), toStoredProfile(user)));
+    return persist(() => Promise.all([
+      storage.setMeta('user', toStoredProfile(user)),
+      storage.replaceAll(STORES.labReports, user.labReports || [])
+    ]));
+  },
+
+  /** Upserts by food name; each sensitivity is audited under its own `source`. */
+  updateUserSensitivities: (input: FoodSensitivity[]) => {
+    const sensitivities = assertAllValid('food sensitivity', validateFoodSensitivity, input);
+    const user = cache.user;
+    if (user) {
+        const existingSensitivities = user.foodSensitivities || [];
         const existingMap = new Map(existingSensitivities.map(s => [s.food.toLowerCase(), s]));
-        
+        const { key } = COLLECTIONS.foodSensitivities;
+
         sensitivities.forEach(s => {
-            existingMap.set(s.food.toLowerCase(), s);
+            const previous = existingMap.get(key(s));
+            if (!previous || JSON.stringify(previous) !== JSON.stringify(s)) {
+              recordAudit(createAuditEntry('foodSensitivities', key(s), previous ? 'update' : 'create', s.source, previous, s));
+            }
+            existingMap.set(key(s), s);
         });
-        
-        state.user.foodSensitivities = Array.from(existingMap.values());
-        return db.saveState(state);
+
+        const updated = Array.from(existingMap.values());
+        invalidateAiCacheOnSensitivityChange(existingSensitivities, updated);
+        user.foodSensitivities = updated;
+        return persist(() => storage.setMeta('user', toStoredProfile(user)));
     }
-    return false;
+    return Promise.resolve(false);
   },
 
   getSensitivities: (): FoodSensitivity[] => {
-    const state = db.getState();
-    return state.user?.foodSensitivities || [];
+    return structuredClone(cache.user?.foodSensitivities || []);
   },
 
-  addLabReport: (report: LabReport) => {
-      const state = db.getState();
-      if (state.user) {
-          state.user.labReports = [...(state.user.labReports || []), report];
-          if (report.extractedBiomarkers) {
-             state.biomarkers = [...(state.biomarkers || []), ...report.extractedBiomarkers];
-          }
-          return db.saveState(state);
+  addLabReport: (input: LabReport, source: AuditSource = 'lab_result') => {
+      const report = assertValid('lab report', validateLabReport, input);
+      const user = cache.user;
+      if (user) {
+          user.labReports = [...(user.labReports || []), report];
+          const biomarkers = report.extractedBiomarkers || [];
+          cache.biomarkers = [...(cache.biomarkers || []), ...biomarkers];
+          recordAudit(
+            createAuditEntry('labReports', report.id, 'create', source, undefined, report),
+            ...biomarkers.map(b => createAuditEntry('biomarkers', COLLECTIONS.biomarkers.key(b), 'create', source, undefined, b, `From lab report ${report.id}`))
+          );
+          return persist(() => Promise.all([
+              storage.put(STORES.labReports, report),
+              storage.putMany(STORES.biomarkers, biomarkers)
+          ]));
       }
-      return false;
+      return Promise.resolve(false);
   },
 
-  addFoodLog: (log: FoodLog): boolean => {
-    const state = db.getState();
-    state.foodLogs = [log, ...state.foodLogs];
-    return db.saveState(state);
+  addFoodLog: (input: FoodLog, source: AuditSource = 'manual'): Promise<boolean> => {
+    const log = assertValid('food log', validateFoodLog, input);
+    track('Add meal', () => removeRecord('foodLogs', log.id, 'manual', UNDO_NOTE), () => putRecord('foodLogs', log, 'manual', REDO_NOTE));
+    return putRecord('foodLogs', log, source);
   },
 
-  updateFoodLog: (log: FoodLog): boolean => {
-    const state = db.getState();
-    state.foodLogs = state.foodLogs.map(l => l.id === log.id ? log : l);
-    return db.saveState(state);
+  // A replaced photo stays in the attachment store so the edit can be undone; GC drops it on next launch
+  updateFoodLog: (input: FoodLog, source: AuditSource = 'manual'): Promise<boolean> => {
+    const log = assertValid('food log', validateFoodLog, input);
+    const previous = cache.foodLogs.find(l => l.id === log.id);
+    if (previous) track('Edit meal', () => putRecord('foodLogs', previous, 'manual', UNDO_NOTE), () => putRecord('foodLogs', log, 'manual', REDO_NOTE));
+    return putRecord('foodLogs', log, source);
   },
 
   deleteFoodLog: (id: string) => {
-    const state = db.getState();
-    state.foodLogs = state.foodLogs.filter(l => String(l.id) !== String(id));
-    return db.saveState(state);
+    const saved = moveToTrash('foodLogs', id, 'manual');
+    track('Delete meal', () => restoreRecord('foodLogs', id, 'manual', UNDO_NOTE), () => moveToTrash('foodLogs', id, 'manual', REDO_NOTE));
+    return saved;
   },
 
-  addFlareLog: (log: FlareLog) => {
-    const state = db.getState();
-    state.flareLogs = [log, ...state.flareLogs];
-    return db.saveState(state);
+  addFlareLog: (input: FlareLog, source: AuditSource = 'manual') => {
+    const log = assertValid('flare log', validateFlareLog, input);
+    track('Log flare', () => removeRecord('flareLogs', log.id, 'manual', UNDO_NOTE), () => putRecord('flareLogs', log, 'manual', REDO_NOTE));
+    return putRecord('flareLogs', log, source);
   },
 
   deleteFlareLog: (id: string) => {
-    const state = db.getState();
-    state.flareLogs = state.flareLogs.filter(l => String(l.id) !== String(id));
-    return db.saveState(state);
+    const saved = moveToTrash('flareLogs', id, 'manual');
+    track('Delete flare', () => restoreRecord('flareLogs', id, 'manual', UNDO_NOTE), () => moveToTrash('flareLogs', id, 'manual', REDO_NOTE));
+    return saved;
   },
 
-  addBehaviorLog: (log: BehaviorLog) => {
-    const state = db.getState();
-    state.behaviorLogs = [log, ...state.behaviorLogs];
-    return db.saveState(state);
+  addBehaviorLog: (input: BehaviorLog, source: AuditSource = 'manual') => {
+    const log = assertValid('behavior log', validateBehaviorLog, input);
+    track(`Log ${log.type.replace('_', ' ')}`, () => removeRecord('behaviorLogs', log.id, 'manual', UNDO_NOTE), () => putRecord('behaviorLogs', log, 'manual', REDO_NOTE));
+    return putRecord('behaviorLogs', log, source);
+  },
+
+  deleteBehaviorLog: (id: string) => {
+    const saved = moveToTrash('behaviorLogs', id, 'manual');
+    track('Delete habit log', () => restoreRecord('behaviorLogs', id, 'manual', UNDO_NOTE), () => moveToTrash('behaviorLogs', id, 'manual', REDO_NOTE));
+    return saved;
   },
 
   saveAnalysis: (analysis: DeepAnalysis) => {
-    const state = db.getState();
-    state.currentAnalysis = analysis;
-    return db.saveState(state);
+    const previous = analyses.find(a => a.id === analysis.id);
+    cache.currentAnalysis = analysis;
+    analyses = [analysis, ...analyses.filter(a => a.id !== analysis.id)];
+    recordAudit(createAuditEntry('analyses', analysis.id, previous ? 'update' : 'create', 'ai', previous, analysis));
+    return persist(() => storage.put(STORES.analyses, analysis));
+  },
+
+  getAnalysisHistory: (): DeepAnalysis[] => {
+    return structuredClone(analyses);
   },
 
   saveFlareDetectiveReport: (report: FlareDetectiveReport) => {
-      const state = db.getState();
-      state.flareDetectiveReports = [report, ...(state.flareDetectiveReports || [])];
-      return db.saveState(state);
+      cache.flareDetectiveReports = [report, ...(cache.flareDetectiveReports || [])];
+      recordAudit(createAuditEntry('flareDetectiveReports', report.id, 'create', 'ai', undefined, report));
+      return persist(() => storage.put(STORES.detectiveReports, report));
   },
 
-  addToShoppingList: (item: ShoppingListItem) => {
-    const state = db.getState();
-    state.shoppingList = [item, ...(state.shoppingList || [])];
-    return db.saveState(state);
+  /** Creates or updates an experiment; check-ins and results are saved through here too. */
+  saveExperiment: (input: Experiment, source: AuditSource = 'manual') => {
+    const experiment = assertValid('experiment', validateExperiment, input);
+    const previous = (cache.experiments || []).find(e => e.id === experiment.id);
+    cache.experiments = [experiment, ...(cache.experiments || []).filter(e => e !== previous)].sort(newestFirst(e => e.startDate));
+    recordAudit(createAuditEntry('experiments', experiment.id, previous ? 'update' : 'create', source, previous, experiment));
+    return persist(() => storage.put(STORES.experiments, experiment));
+  },
+
+  /** Creates or updates an N-of-1 trial, including its check-ins and report. */
+  saveTrial: (input: Trial, source: AuditSource = 'manual') => {
+    const trial = assertValid('trial', validateTrial, input);
+    const previous = (cache.trials || []).find(t => t.id === trial.id);
+    cache.trials = [trial, ...(cache.trials || []).filter(t => t !== previous)].sort(newestFirst(t => t.startDate));
+    recordAudit(createAuditEntry('trials', trial.id, previous ? 'update' : 'create', source, previous, trial));
+    return persist(() => storage.put(STORES.trials, trial));
+  },
+
+  /** Stores the coach conversation, keeping the most recent MAX_CHAT_MESSAGES. */
+  saveChatHistory: (messages: ChatMessage[]) => {
+    cache.chatHistory = messages.slice(-MAX_CHAT_MESSAGES);
+    return persist(() => storage.setMeta('chatHistory', cache.chatHistory));
+  },
+
+  saveChatSummary: (summary: ChatSummary | null) => {
+    cache.chatSummary = summary;
+    return persist(() => storage.setMeta('chatSummary', summary));
+  },
+
+  addToShoppingList: (item: ShoppingListItem, source: AuditSource = 'manual') => {
+    track(`Add ${item.name}`, () => removeRecord('shoppingList', item.id, 'manual', UNDO_NOTE), () => putRecord('shoppingList', item, 'manual', REDO_NOTE));
+    return putRecord('shoppingList', item, source);
   },
 
   removeFromShoppingList: (id: string) => {
-    const state = db.getState();
-    state.shoppingList = (state.shoppingList || []).filter(i => i.id !== id);
-    return db.saveState(state);
+    const saved = moveToTrash('shoppingList', id, 'manual');
+    track('Remove shopping item', () => restoreRecord('shoppingList', id, 'manual', UNDO_NOTE), () => moveToTrash('shoppingList', id, 'manual', REDO_NOTE));
+    return saved;
   },
-  
+
   toggleShoppingItem: (id: string) => {
-    const state = db.getState();
-    const list = state.shoppingList || [];
-    const idx = list.findIndex(i => i.id === id);
-    if (idx > -1) {
-        list[idx].status = list[idx].status === 'bought' ? 'pending' : 'bought';
-        state.shoppingList = list;
-        return db.saveState(state);
-    }
-    return false;
+    const item = (cache.shoppingList || []).find(i => i.id === id);
+    if (!item) return Promise.resolve(false);
+    const toggle = (status: ShoppingListItem['status'], note?: string) => putRecord('shoppingList', { ...item, status }, 'manual', note);
+    const previous = item.status;
+    const next = previous === 'bought' ? 'pending' : 'bought';
+    track(next === 'bought' ? `Check off ${item.name}` : `Uncheck ${item.name}`, () => toggle(previous, UNDO_NOTE), () => toggle(next, REDO_NOTE));
+    return toggle(next);
+  },
+
+  getTrash: (): TrashItem[] => {
+    return structuredClone(trash);
+  },
+
+  restoreFromTrash: (trashId: string) => {
+    const item = trash.find(t => t.id === trashId);
+    if (!item) return Promise.resolve(false);
+    const label = TRASHABLE[item.collection].label;
+    track(`Restore ${label}`, () => moveToTrash(item.collection, item.record.id, 'manual', UNDO_NOTE), () => restoreRecord(item.collection, item.record.id, 'manual', REDO_NOTE));
+    return restoreTrashItem(item, 'manual');
+  },
+
+  /** Permanently deletes trashed records. Not undoable. */
+  deleteFromTrash: async (trashIds: string[]) => {
+    const ids = new Set(trashIds);
+    const saved = await persist(() => purgeTrashItems(trash.filter(t => ids.has(t.id)), 'manual'));
+    notifyChange();
+    return saved;
   },
-  
-  addBiomarkers: (biomarkers: Biomarker[]) => {
-      const state = db.getState();
-      state.biomarkers = [...(state.biomarkers || []), ...biomarkers];
-      return db.saveState(state);
+
+  /** Change history for one record, newest first. `collection` is an AppState key, 'user' or 'analyses'. */
+  getRecordHistory: (collection: string, recordId: string): Promise<AuditEntry[]> => {
+    return auditLog.getForRecord(collection, recordId);
+  },
+
+  getTrashRetentionDays: () => TRASH_RETENTION_DAYS,
+
+  undo: async (): Promise<string | null> => {
+    const entry = await undoStack.undo();
+    notifyChange();
+    return entry?.label ?? null;
+  },
+
+  redo: async (): Promise<string | null> => {
+    const entry = await undoStack.redo();
+    notifyChange();
+    return entry?.label ?? null;
   },
 
-  exportData: () => {
+  peekUndo: (): string | null => undoStack.peekUndo(),
+
+  peekRedo: (): string | null => undoStack.peekRedo(),
+
+  /** Registers a listener for data changes made outside the calling component (undo, redo, restore). */
+  subscribe: (listener: () => void): (() => void) => {
+    changeListeners.add(listener);
+    return () => { changeListeners.delete(listener); };
+  },
+
+  addBiomarkers: (input: Biomarker[], source: AuditSource = 'lab_result') => {
+      const biomarkers = assertAllValid('biomarker', validateBiomarker, input);
+      cache.biomarkers = [...(cache.biomarkers || []), ...biomarkers];
+      recordAudit(...biomarkers.map(b => createAuditEntry('biomarkers', COLLECTIONS.biomarkers.key(b), 'create', source, undefined, b)));
+      return persist(() => storage.putMany(STORES.biomarkers, biomarkers));
+  },
+
+  /**
+   * Downloads a backup container. Encrypted stores always produce encrypted
+   * backups; otherwise `passphrase` optionally seals this one file.
+   */
+  exportData: async (passphrase?: string) => {
     const state = db.getState();
-    const blob = new Blob([JSON.stringify(state, null, 2)], { type: 'application/json' });
+    // Photos live outside the state, so embed them to keep backups self-contained
+    const embedded: Record<string, string> = {};
+    for (const id of getReferencedAttachmentIds(state)) {
+      const dataUrl = await attachments.getDataUrl(id);
+      if (dataUrl) embedded[id] = dataUrl;
+    }
+    const fileText = await createBackup(state, embedded, activeKey && encryptionConfig
+      ? { key: activeKey, config: encryptionConfig }
+      : { passphrase });
+    const blob = new Blob([fileText], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `flarefinder_backup_${new Date().toISOString().split('T')[0]}.json`;
+    const profileSlug = (state.user?.name || profiles.getActive().name).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    a.download = `flarefinder_backup_${profileSlug ? `${profileSlug}_` : ''}${new Date().toISOString().split('T')[0]}.json`;
     a.click();
     URL.revokeObjectURL(url);
   },
 
-  importData: (jsonData: string): boolean => {
+  isEncryptedBackup: (jsonData: string): boolean => isEncryptedBackup(jsonData),
+
+  /**
+   * Summarizes what importing a backup would change without writing anything.
+   * Returns null for files that are not FlareFinder backups; throws
+   * SchemaVersionError for backups from a newer app version and
+   * BackupError for truncated, tampered or locked backup files.
+   */
+  previewImport: async (jsonData: string, passphrase?: string): Promise<ImportPreview | null> => {
+    const parsed = await parseBackup(jsonData, passphrase);
+    return parsed ? previewImport(cache, parsed.state) : null;
+  },
+
+  /** Merges a backup into the local data by record id, resolving conflicts per collection. */
+  importData: async (jsonData: string, strategies: MergeStrategies = DEFAULT_STRATEGIES, passphrase?: string): Promise<boolean> => {
     try {
-      const parsed = JSON.parse(jsonData);
-      if (parsed && (parsed.user || Array.isArray(parsed.foodLogs))) {
-        db.saveState(parsed);
-        return true;
+      const parsed = await parseBackup(jsonData, passphrase);
+      if (!parsed) return false;
+      const { state, embedded } = parsed;
+      // Encrypted stores key attachment ids, so embedded photos may land under different ids
+      const renamed = new Map<string, string>();
+      for (const [id, dataUrl] of Object.entries(embedded)) {
+        if (isDataUrl(dataUrl)) renamed.set(id, await attachments.save(dataUrl));
       }
-      return false;
+      state.foodLogs = relinkAttachments(state.foodLogs, renamed);
+      if (state.user?.labReports) state.user.labReports = relinkAttachments(state.user.labReports, renamed);
+      await externalizeInlineImages(state);
+      const before = cache;
+      const merged = mergeStates(cache, state, strategies);
+      const saved = await db.saveState(merged);
+      if (saved) {
+        recordAudit(...auditStateChanges(before, merged, 'import'));
+        invalidateAiCacheOnSensitivityChange(before.user?.foodSensitivities, merged.user?.foodSensitivities);
+        // Undo entries point at records the merge may have replaced
+        undoStack.clear();
+        await attachments.collectGarbage(getRetainedAttachmentIds());
+      }
+      return saved;
     } catch (e) {
       console.error("Import failed", e);
       return false;
     }
   },
 
-  clear: () => {
-    localStorage.removeItem(STORAGE_KEY);
+  clear: async () => {
+    cache = createEmptyState();
+    analyses = [];
+    trash = [];
+    undoStack.clear();
+    encryptionConfig = null;
+    activeKey = null;
+    locked = false;
+    storage.setCodec(null);
+    attachments.setKeyedHash(null);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    try {
+      await storage.destroy();
+    } catch (e) {
+      console.error("Failed to clear DB", e);
+    }
   }
 };
@@ -0,0 +1,159 @@
+import { StorageCodec } from './storage';
+
+const PBKDF2_ITERATIONS = 310000;
+const KEY_CHECK_TOKEN = 'flarefinder-key-check';
+
+export interface SealedBytes {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+// Base64 form of SealedBytes for JSON (config record, exported backups)
+export interface SealedText {
+  iv: string;
+  data: string;
+}
+
+// Stored in plaintext so the app can ask for the passphrase before anything is decrypted
+export interface EncryptionConfig {
+  version: 1;
+  salt: string;
+  iterations: number;
+  check: SealedText;
+  idKey?: SealedText; // Random HMAC key for attachment ids, sealed under the data key
+}
+
+interface SealedRecord {
+  id?: string; // Kept in the clear because it is the object store keyPath, so ids must not be plain content hashes
+  sealed: SealedBytes;
+  sealedBlob?: SealedBytes & { type: string };
+}
+
+export class PassphraseError extends Error {
+  constructor(message = "Incorrect passphrase") {
+    super(message);
+    this.name = 'PassphraseError';
+  }
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export const isEncryptionSupported = () => typeof crypto !== 'undefined' && !!crypto.subtle;
+
+export const deriveKey = async (passphrase: string, salt: Uint8Array, iterations = PBKDF2_ITERATIONS): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', textEncoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const sealBytes = async (key: CryptoKey, bytes: Uint8Array): Promise<SealedBytes> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes);
+  return { iv, data };
+};
+
+export const openBytes = async (key: CryptoKey, sealed: SealedBytes): Promise<Uint8Array> => {
+  try {
+    return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.iv }, key, sealed.data));
+  } catch {
+    throw new PassphraseError("Data could not be decrypted with this passphrase");
+  }
+};
+
+export const sealText = async (key: CryptoKey, text: string): Promise<SealedText> => {
+  const { iv, data } = await sealBytes(key, textEncoder.encode(text));
+  return { iv: bytesToBase64(iv), data: bytesToBase64(new Uint8Array(data)) };
+};
+
+export const openText = async (key: CryptoKey, sealed: SealedText): Promise<string> => {
+  const bytes = await openBytes(key, { iv: base64ToBytes(sealed.iv), data: base64ToBytes(sealed.data).buffer as ArrayBuffer });
+  return textDecoder.decode(bytes);
+};
+
+export const createIdSecret = () => crypto.getRandomValues(new Uint8Array(32));
+
+/** New config for `passphrase`; `idSecret` is sealed into it when the store needs keyed attachment ids. */
+export const createEncryptionConfig = async (passphrase: string, idSecret?: Uint8Array): Promise<{ config: EncryptionConfig; key: CryptoKey }> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt);
+  const config: EncryptionConfig = {
+    version: 1,
+    salt: bytesToBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    check: await sealText(key, KEY_CHECK_TOKEN)
+  };
+  return { config: idSecret ? await withIdSecret(key, config, idSecret) : config, key };
+};
+
+export const withIdSecret = async (key: CryptoKey, config: EncryptionConfig, idSecret: Uint8Array): Promise<EncryptionConfig> =>
+  ({ ...config, idKey: await sealText(key, bytesToBase64(idSecret)) });
+
+/** The attachment id secret sealed in `config`, or null for configs written before it existed. */
+export const openIdSecret = async (key: CryptoKey, config: EncryptionConfig): Promise<Uint8Array | null> =>
+  config.idKey ? base64ToBytes(await openText(key, config.idKey)) : null;
+
+/** HMAC-SHA-256 of content under `secret`; deduplicates like a content hash without revealing one. */
+export const createKeyedHasher = async (secret: Uint8Array): Promise<(bytes: Uint8Array) => Promise<string>> => {
+  const hmacKey = await crypto.subtle.importKey('raw', secret, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return async (bytes: Uint8Array) => {
+    const mac = await crypto.subtle.sign('HMAC', hmacKey, bytes);
+    return `hmac-${Array.from(new Uint8Array(mac)).map(b => b.toString(16).padStart(2, '0')).join('')}`;
+  };
+};
+
+/** Derives the key for `config` and verifies it against the stored check value. */
+export const unlockWithPassphrase = async (config: EncryptionConfig, passphrase: string): Promise<CryptoKey> => {
+  const key = await deriveKey(passphrase, base64ToBytes(config.salt), config.iterations);
+  const token = await openText(key, config.check);
+  if (token !== KEY_CHECK_TOKEN) throw new PassphraseError();
+  return key;
+};
+
+const isSealedRecord = (value: any): value is SealedRecord => !!value && typeof value === 'object' && value.sealed && value.sealed.iv instanceof Uint8Array;
+
+/**
+ * Record-level codec for the IndexedDB store. Values are JSON-serialized and
+ * sealed with AES-GCM; attachment blobs are sealed separately as raw bytes.
+ * Unsealed values pass through decode untouched, so a store that is only
+ * partly re-encrypted stays readable.
+ */
+export const createRecordCodec = (key: CryptoKey): StorageCodec => ({
+  encode: async (value: any) => {
+    const blob = value && typeof value === 'object' && value.blob instanceof Blob ? value.blob as Blob : null;
+    const payload = blob ? { ...value, blob: undefined } : value;
+    const record: SealedRecord = { sealed: await sealBytes(key, textEncoder.encode(JSON.stringify(payload ?? null))) };
+    if (payload && typeof payload === 'object' && typeof payload.id === 'string') record.id = payload.id;
+    if (blob) {
+      const sealedBlob = await sealBytes(key, new Uint8Array(await blob.arrayBuffer()));
+      record.sealedBlob = { ...sealedBlob, type: blob.type };
+    }
+    return record;
+  },
+  decode: async (stored: any) => {
+    if (!isSealedRecord(stored)) return stored;
+    const value = JSON.parse(textDecoder.decode(await openBytes(key, stored.sealed)));
+    if (stored.sealedBlob) {
+      value.blob = new Blob([await openBytes(key, stored.sealedBlob)], { type: stored.sealedBlob.type });
+    }
+    return value;
+  }
+});
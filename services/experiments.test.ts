@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { FlareLog, FoodLog } from '../types';
+import { experiments } from './experiments';
+
+// US clocks spring forward on Mar 8 2026 and fall back on Nov 1 2026
+process.env.TZ = 'America/New_York';
+
+describe('experiments.dayOf', () => {
+  it('counts calendar days across a spring-forward change', () => {
+    const experiment = experiments.create({ target: 'dairy', hypothesis: 'Dairy' }, new Date(2026, 2, 1, 9).getTime());
+    const dayOf = (date: number, hour = 12) => experiments.dayOf(experiment, new Date(2026, 2, date, hour).getTime());
+    expect(dayOf(7)).toBe(6);
+    expect(dayOf(8)).toBe(7);
+    expect(dayOf(9)).toBe(8);
+    expect(dayOf(9, 0)).toBe(8);
+    expect(dayOf(21, 23)).toBe(20);
+  });
+
+  it('counts calendar days across a fall-back change', () => {
+    const experiment = experiments.create({ target: 'dairy', hypothesis: 'Dairy' }, new Date(2026, 9, 25, 9).getTime());
+    expect(experiments.dayOf(experiment, new Date(2026, 10, 1, 23, 30).getTime())).toBe(7);
+    expect(experiments.dayOf(experiment, new Date(2026, 10, 2, 0, 30).getTime())).toBe(8);
+  });
+});
+
+describe('experiments.evaluate', () => {
+  const start = new Date(2026, 4, 4, 9).getTime();
+  const experiment = experiments.create({ target: 'dairy', hypothesis: 'Dairy', eliminationDays: 4, challengeDays: 2, washoutDays: 2 }, start);
+  const at = (day: number) => new Date(2026, 4, 4 + day, 12).toISOString();
+  const end = new Date(2026, 4, 13).getTime();
+
+  // One meal a day, dairy on the challenge days (or every day when `alwaysDairy`), and a flare of the given severity
+  const logs = (severities: number[], alwaysDairy = false) => ({
+    foodLogs: severities.map((_, day): FoodLog => {
+      const dairy = alwaysDairy || experiments.phaseOn(experiment, day) === 'reintroduction';
+      return { id: `m${day}`, timestamp: at(day), detectedItems: [{ name: dairy ? 'milk' : 'rice', category: dairy ? 'dairy' : 'grain', ingredients: [], confidence: 1 }] };
+    }),
+    flareLogs: severities.flatMap((severity, day): FlareLog[] => severity > 0
+      ? [{ id: `f${day}`, timestamp: at(day), severity, location: 'Neck', locations: ['Neck'], notes: '' }]
+      : [])
+  });
+
+  const evaluate = (severities: number[], alwaysDairy = false, now = end) => {
+    const { foodLogs, flareLogs } = logs(severities, alwaysDairy);
+    return experiments.evaluate(experiment, foodLogs, flareLogs, now);
+  };
+
+  it('calls a rise of a full point or more reactive', () => {
+    const result = evaluate([0, 0, 0, 0, 2, 2, 2, 2]);
+    expect(result).toMatchObject({ verdict: 'reactive', eliminationSeverity: 0, reintroductionSeverity: 2, difference: 2, adherence: 1 });
+    expect(experiments.sensitivityLevel(result)).toBe('high');
+    expect(experiments.sensitivityLevel(evaluate([0, 0, 0, 0, 1, 1, 1, 1]))).toBe('medium');
+  });
+
+  it('calls a rise of half a point or less tolerated', () => {
+    expect(evaluate([1, 1, 1, 1, 1, 2, 1, 1]).verdict).toBe('tolerated');
+    expect(evaluate([1, 1, 1, 1, 1, 1, 1, 1]).verdict).toBe('tolerated');
+  });
+
+  it('leaves rises between the thresholds inconclusive', () => {
+    expect(evaluate([0, 0, 0, 0, 1, 1, 1, 0])).toMatchObject({ verdict: 'inconclusive', difference: 0.8 });
+  });
+
+  it('is inconclusive when the plan was not followed', () => {
+    const result = evaluate([0, 0, 0, 0, 2, 2, 2, 2], true);
+    expect(result.verdict).toBe('inconclusive');
+    expect(result.adherence).toBeCloseTo(2 / 8, 10);
+  });
+
+  it('is inconclusive with too few logged days', () => {
+    expect(evaluate([0, 0, 0, 0, 3], false, new Date(2026, 4, 8, 20).getTime()).verdict).toBe('inconclusive');
+    expect(evaluate([0, 0, 0, 0, 3, 3], false, new Date(2026, 4, 9, 20).getTime()).verdict).toBe('reactive');
+  });
+});
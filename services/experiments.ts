@@ -0,0 +1,185 @@
+import { Experiment, ExperimentCheckIn, ExperimentPhase, ExperimentResult, FlareLog, FoodLog, FoodSensitivity } from '../types';
+
+/*
+ * Elimination-reintroduction experiments. Days are counted from the local
+ * midnight the experiment started: first the elimination days (avoid the
+ * target), then the challenge days (eat it), then the washout (avoid it again
+ * so reactions that arrive a day or more late are still attributed to the
+ * challenge). Compliance and results are always derived from the logs, so
+ * meals logged or edited after the fact are picked up.
+ */
+
+export const DEFAULT_EXPERIMENT_DAYS = { eliminationDays: 14, challengeDays: 3, washoutDays: 3 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Verdict thresholds, in points of 0-5 daily severity
+const REACTION_THRESHOLD = 1;
+const TOLERANCE_THRESHOLD = 0.5;
+const MIN_ADHERENCE = 0.8;
+const MIN_ELIMINATION_DAYS = 3;
+const MIN_REINTRODUCTION_DAYS = 2;
+
+export interface ExperimentDay {
+  day: number;
+  phase: ExperimentPhase;
+  meals: number; // Meals logged that day
+  exposed: boolean; // At least one meal contained the target
+  flareSeverity: number; // Worst flare logged that day, 0 if none
+  checkIn?: ExperimentCheckIn;
+  severity?: number; // Worst of flares and check-in; undefined when nothing was logged
+  followedPlan?: boolean; // Undefined when nothing was logged
+}
+
+export type ExperimentDraft = Pick<Experiment, 'hypothesis' | 'target'> & Partial<typeof DEFAULT_EXPERIMENT_DAYS>;
+
+const startOfDay = (time: number) => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// Calendar days since the epoch for the local date, so a 23 or 25 hour DST day still counts as one
+const calendarDay = (time: number) => {
+  const date = new Date(time);
+  return Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS;
+};
+
+const mean = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export const experiments = {
+  create: (draft: ExperimentDraft, now = Date.now()): Experiment => {
+    const timestamp = new Date(now).toISOString();
+    return {
+      id: crypto.randomUUID(),
+      hypothesis: draft.hypothesis,
+      target: draft.target.trim().toLowerCase(),
+      eliminationDays: draft.eliminationDays ?? DEFAULT_EXPERIMENT_DAYS.eliminationDays,
+      challengeDays: draft.challengeDays ?? DEFAULT_EXPERIMENT_DAYS.challengeDays,
+      washoutDays: draft.washoutDays ?? DEFAULT_EXPERIMENT_DAYS.washoutDays,
+      startDate: new Date(startOfDay(now)).toISOString(),
+      status: 'active',
+      checkIns: [],
+      createdAt: timestamp,
+      updatedAt: timestamp
+    };
+  },
+
+  totalDays: (experiment: Experiment) => experiment.eliminationDays + experiment.challengeDays + experiment.washoutDays,
+
+  /** 0-based experiment day for a time; may be negative or past the end. */
+  dayOf: (experiment: Experiment, time: number) => calendarDay(time) - calendarDay(new Date(experiment.startDate).getTime()),
+
+  /** Phase on a given day, or null outside the experiment. */
+  phaseOn: (experiment: Experiment, day: number): ExperimentPhase | null => {
+    if (day < 0) return null;
+    if (day < experiment.eliminationDays) return 'elimination';
+    if (day < experiment.eliminationDays + experiment.challengeDays) return 'reintroduction';
+    if (day < experiments.totalDays(experiment)) return 'washout';
+    return null;
+  },
+
+  isFinished: (experiment: Experiment, now = Date.now()) => experiments.dayOf(experiment, now) >= experiments.totalDays(experiment),
+
+  /** Whether any item in the meal is, contains or belongs to the target. */
+  containsTarget: (log: FoodLog, target: string) => {
+    const needle = target.trim().toLowerCase();
+    const matches = (text?: string) => !!text && text.toLowerCase().includes(needle);
+    return (log.detectedItems || []).some(item =>
+      matches(item.name) || matches(item.category) || (item.ingredients || []).some(matches));
+  },
+
+  /** Active experiments whose avoidance phase this meal breaks. */
+  violatedBy: (log: FoodLog, all: Experiment[]): Experiment[] => {
+    if (log.isGroceryScan) return [];
+    const time = new Date(log.timestamp).getTime();
+    return all.filter(e => {
+      if (e.status !== 'active') return false;
+      const phase = experiments.phaseOn(e, experiments.dayOf(e, time));
+      return (phase === 'elimination' || phase === 'washout') && experiments.containsTarget(log, e.target);
+    });
+  },
+
+  /** Day-by-day compliance and severity up to today (or the end). */
+  days: (experiment: Experiment, foodLogs: FoodLog[], flareLogs: FlareLog[], now = Date.now()): ExperimentDay[] => {
+    const lastDay = Math.min(experiments.dayOf(experiment, now), experiments.totalDays(experiment) - 1);
+    const days: ExperimentDay[] = [];
+    for (let day = 0; day <= lastDay; day++) {
+      const phase = experiments.phaseOn(experiment, day)!;
+      const meals = foodLogs.filter(l => !l.isGroceryScan && experiments.dayOf(experiment, new Date(l.timestamp).getTime()) === day);
+      const flares = flareLogs.filter(f => experiments.dayOf(experiment, new Date(f.timestamp).getTime()) === day);
+      const checkIn = experiment.checkIns.find(c => c.day === day);
+      const exposed = meals.some(m => experiments.containsTarget(m, experiment.target));
+      const flareSeverity = flares.reduce((worst, f) => Math.max(worst, f.severity), 0);
+      const hasData = meals.length > 0 || flares.length > 0 || !!checkIn;
+      // Logged meals are trusted over the check-in: eating the target during avoidance breaks the plan
+      const followedPlan = !hasData ? undefined
+        : phase === 'reintroduction' ? exposed || checkIn?.followedPlan === true
+        : !exposed && checkIn?.followedPlan !== false;
+      days.push({
+        day, phase, meals: meals.length, exposed, flareSeverity, checkIn,
+        severity: hasData ? Math.max(flareSeverity, checkIn?.severity ?? 0) : undefined,
+        followedPlan
+      });
+    }
+    return days;
+  },
+
+  /** Compares daily severity while avoiding the target with severity from the challenge on. */
+  evaluate: (experiment: Experiment, foodLogs: FoodLog[], flareLogs: FlareLog[], now = Date.now()): ExperimentResult => {
+    const recorded = experiments.days(experiment, foodLogs, flareLogs, now).filter(d => d.severity !== undefined);
+    const elimination = recorded.filter(d => d.phase === 'elimination').map(d => d.severity!);
+    const reintroduction = recorded.filter(d => d.phase !== 'elimination').map(d => d.severity!);
+    const adherence = recorded.length > 0 ? recorded.filter(d => d.followedPlan).length / recorded.length : 0;
+    const eliminationSeverity = mean(elimination);
+    const reintroductionSeverity = mean(reintroduction);
+    const difference = reintroductionSeverity - eliminationSeverity;
+    const target = experiment.target;
+
+    let verdict: ExperimentResult['verdict'];
+    let summary: string;
+    if (elimination.length < MIN_ELIMINATION_DAYS || reintroduction.length < MIN_REINTRODUCTION_DAYS) {
+      verdict = 'inconclusive';
+      summary = `Not enough days were logged to judge ${target} (${elimination.length} avoiding it, ${reintroduction.length} after reintroducing it).`;
+    } else if (adherence < MIN_ADHERENCE) {
+      verdict = 'inconclusive';
+      summary = `The plan was followed on ${Math.round(adherence * 100)}% of logged days, too few to judge ${target}.`;
+    } else if (difference >= REACTION_THRESHOLD) {
+      verdict = 'reactive';
+      summary = `Symptoms averaged ${round(reintroductionSeverity)}/5 after reintroducing ${target}, up from ${round(eliminationSeverity)}/5 while avoiding it.`;
+    } else if (difference <= TOLERANCE_THRESHOLD) {
+      verdict = 'tolerated';
+      summary = `Reintroducing ${target} did not noticeably raise symptoms (${round(reintroductionSeverity)}/5 vs ${round(eliminationSeverity)}/5 while avoiding it).`;
+    } else {
+      verdict = 'inconclusive';
+      summary = `Symptoms rose slightly after reintroducing ${target} (${round(reintroductionSeverity)}/5 vs ${round(eliminationSeverity)}/5); repeat the challenge to be sure.`;
+    }
+
+    return {
+      eliminationSeverity: round(eliminationSeverity),
+      reintroductionSeverity: round(reintroductionSeverity),
+      difference: round(difference),
+      adherence,
+      daysWithData: recorded.length,
+      verdict,
+      summary,
+      evaluatedAt: new Date(now).toISOString()
+    };
+  },
+
+  /** Sensitivity level a reactive result supports, if any. */
+  sensitivityLevel: (result: ExperimentResult): FoodSensitivity['level'] | null => {
+    if (result.verdict !== 'reactive') return null;
+    return result.difference >= 2 ? 'high' : 'medium';
+  },
+
+  /** Best-effort draft from a suggestion like "Try eliminating nightshades for 3 days". */
+  fromSuggestion: (text: string): ExperimentDraft | null => {
+    const match = /(?:eliminat\w*|avoid\w*|cut\w*(?: out)?|remov\w*|drop\w*|skip\w*|no)\s+(.+?)(?:\s+for\s+(\d+)\s+(days?|weeks?))?\s*[.!]?$/i.exec(text.trim());
+    if (!match) return null;
+    const target = match[1].replace(/^(?:all|any)\s+/i, '').trim();
+    const eliminationDays = match[2] ? Number(match[2]) * (/week/i.test(match[3]) ? 7 : 1) : undefined;
+    return { target, hypothesis: text.trim(), ...(eliminationDays ? { eliminationDays } : {}) };
+  }
+};
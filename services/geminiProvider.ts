@@ -0,0 +1,50 @@
+import { GoogleGenAI } from "@google/genai";
+import { AiProvider, AiRequest, AiTokenUsage } from './aiProvider';
+
+let client: GoogleGenAI | null = null;
+
+const getClient = () => {
+  const apiKey = process.env.API_KEY;
+  if (!apiKey) return null;
+  if (!client) client = new GoogleGenAI({ apiKey });
+  return client;
+};
+
+const toUsage = (metadata?: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number }): AiTokenUsage | undefined =>
+  metadata && {
+    promptTokens: metadata.promptTokenCount || 0,
+    outputTokens: metadata.candidatesTokenCount || 0,
+    totalTokens: metadata.totalTokenCount || 0
+  };
+
+const toParams = (request: AiRequest) => ({
+  model: request.model,
+  contents: request.contents,
+  config: { ...request.config, abortSignal: request.signal }
+});
+
+export const geminiProvider: AiProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  isAvailable: () => !!process.env.API_KEY,
+  generate: async (request) => {
+    const ai = getClient();
+    if (!ai) throw new Error("AI Offline");
+    const response = await ai.models.generateContent(toParams(request));
+    return { text: response.text, usage: toUsage(response.usageMetadata) };
+  },
+  stream: async (request, onText) => {
+    const ai = getClient();
+    if (!ai) throw new Error("AI Offline");
+    const chunks = await ai.models.generateContentStream(toParams(request));
+    let text = '';
+    let usage: AiTokenUsage | undefined;
+    for await (const chunk of chunks) {
+      text += chunk.text || '';
+      // Usage metadata is cumulative; the last chunk carries the totals
+      usage = toUsage(chunk.usageMetadata) || usage;
+      onText(text);
+    }
+    return { text, usage };
+  }
+};
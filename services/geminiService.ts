@@ -1,123 +1,44 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { AppState, FoodLog, BehaviorLog, Reminder, UserProfile, DeepAnalysis, MarketplaceProduct, SimulationResult, GlobalInsight, FoodSensitivity, FlareDetectiveReport, LabReport, Recipe, DayPlan, Biomarker, MenuAnalysis, FoodItem } from "../types";
+import { AiProvider, AiRequest, AiTask, getAiProvider } from "./aiProvider";
+import { withAiCache } from "./aiCache";
+import { AI_RESPONSE_SCHEMAS } from "./aiSchemas";
+import { aiScheduler, AiPriority, isAbortError } from "./aiScheduler";
+import { modelRouting, AVAILABLE_MODELS } from "./modelRouting";
+import { aiUsage, AiBudgetError, AiCallUsage } from "./aiUsage";
+import { renderPrompt, RenderedPrompt } from "./prompts";
+import { redaction } from "./redaction";
+import { coachTools } from "./coachTools";
+import { Validator, ValidationIssue, ValidationError, ValidationResult, LabExtraction, CoachReply, VoiceCommandResult, arrayOf, validateFoodItem, validateFoodAnalysis, validateLabExtraction, validateDeepAnalysis, validateCoachReply, validateCoachSummary, validateReminders, validateDetectiveFindings, validateSimulationResult, validateMenuAnalysis, validateDayPlan, validateMarketplaceProduct, validateGlobalInsight, validateVoiceCommand } from "./validation";
+import { AppState, ChatMessage, CoachAction, ChatSummary, FoodLog, Reminder, UserProfile, DeepAnalysis, MarketplaceProduct, SimulationResult, GlobalInsight, FoodSensitivity, FlareDetectiveReport, DayPlan, Biomarker, MenuAnalysis, FoodItem } from "../types";
 // @ts-ignore
 import * as pdfjsLib from 'pdfjs-dist';
 
-// Define strict schemas for clinical data extraction
-const LAB_RESULT_SCHEMA = {
-    type: Type.OBJECT,
-    properties: {
-        sensitivities: {
-            type: Type.ARRAY,
-            items: {
-                type: Type.OBJECT,
-                required: ["food", "level"],
-                properties: {
-                    food: { type: Type.STRING, description: "The specific food or ingredient identified." },
-                    level: { type: Type.STRING, enum: ["high", "medium", "low"], description: "The level of sensitivity or reactivity." },
-                    category: { type: Type.STRING, description: "Biological category (e.g. Dairy, Nightshade)." }
-                }
-            }
-        },
-        biomarkers: {
-            type: Type.ARRAY,
-            items: {
-                type: Type.OBJECT,
-                required: ["name", "value", "unit"],
-                properties: {
-                    name: { type: Type.STRING, description: "Biomarker name like CRP, Glucose, etc." },
-                    value: { type: Type.NUMBER, description: "Numerical value." },
-                    unit: { type: Type.STRING, description: "Measurement unit (mg/L, mmol, etc.)." },
-                    status: { type: Type.STRING, enum: ["normal", "high", "low"] }
-                }
-            }
-        },
-        summary: { type: Type.STRING, description: "A brief clinical summary of the findings." }
-    }
+AVAILABLE_MODELS.forEach(model => aiScheduler.setBudget(model.id, model.budget));
+
+// Queue priority per task: what the user is waiting on goes before background refreshes
+const TASK_PRIORITY: Record<AiTask, AiPriority> = {
+    labResults: 'interactive',
+    foodImage: 'interactive',
+    manualFood: 'interactive',
+    coachChat: 'interactive',
+    groceryScan: 'interactive',
+    mealSimulation: 'interactive',
+    menuAnalysis: 'interactive',
+    voiceCommand: 'interactive',
+    flareDetective: 'normal',
+    patternInsights: 'normal',
+    mealPlan: 'normal',
+    reminders: 'background',
+    marketplace: 'background',
+    globalInsights: 'background',
+    coachSummary: 'background'
 };
 
-const PRO_MODEL = 'gemini-3-pro-preview';
-const FLASH_MODEL = 'gemini-3-flash-preview';
+const promptContext = (user?: UserProfile | null) => ({ condition: user?.condition, sensitivities: user?.foodSensitivities });
 
-let proModelLockUntil = 0;
-let lastRequestTime = 0;
-
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-const getAiClient = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) return null;
-  return new GoogleGenAI({ apiKey });
-};
-
-const prepareLogsForAi = (logs: any[]) => {
-    return logs.map(log => {
-        const { imageUrl, ...rest } = log;
-        return rest;
-    });
-};
-
-const getSensitivitiesPrompt = (user?: UserProfile | null) => {
-    if (!user?.foodSensitivities || user.foodSensitivities.length === 0) return "";
-    const list = user.foodSensitivities.map(s => `${s.food} (${s.level} sensitivity)`).join(', ');
-    return `CRITICAL INSTRUCTION: The user has documented CLINICAL sensitivities from their medical lab reports for the following items: ${list}. 
-    
-    You MUST check EVERY ingredient in the logged food against this specific list. 
-    - If an ingredient matches an item on the list, you MUST flag it in the 'sensitivityAlert' field.
-    - Clinical lab results (the list above) take ABSOLUTE precedence over general nutritional advice. 
-    - Even if a food is generally considered healthy, if it is on the user's sensitivity list, you MUST flag it as a risk.`;
-};
-
-async function smartExecute<T>(
-    preferredModel: string, 
-    task: (model: string) => Promise<T>
-): Promise<T> {
-    const now = Date.now();
-    const timeSinceLastReq = now - lastRequestTime;
-    if (timeSinceLastReq < 1000) {
-        await delay(1000 - timeSinceLastReq);
-    }
-    lastRequestTime = Date.now();
-
-    if (preferredModel === PRO_MODEL && Date.now() < proModelLockUntil) {
-        return await withRetry(() => task(FLASH_MODEL), 2);
-    }
-
-    try {
-        return await task(preferredModel);
-    } catch (err: any) {
-        const status = err?.status || err?.error?.status;
-        if (status === 429 && preferredModel === PRO_MODEL) {
-            proModelLockUntil = Date.now() + 60000;
-        }
-        if (preferredModel === PRO_MODEL) {
-            return await withRetry(() => task(FLASH_MODEL), 2);
-        }
-        throw err;
-    }
-}
-
-async function withRetry<T>(fn: () => Promise<T>, maxRetries = 2): Promise<T> {
-  let lastError: any;
-  for (let i = 0; i < maxRetries; i++) {
-    try {
-      return await fn();
-    } catch (err: any) {
-      lastError = err;
-      const status = err?.status || err?.error?.status;
-      if (status === 500 || status === 503 || status === 429) {
-        if (i < maxRetries - 1) {
-          const wait = Math.pow(3, i + 1) * 1000; 
-          await delay(wait);
-          continue;
-        }
-      }
-      throw err; 
-    }
-  }
-  throw lastError;
-}
+// Tags each detected item with the prompt revision that produced it
+const withPromptVersion = <T extends { detectedItems?: FoodItem[] }>(result: T, promptVersion: string): T =>
+    ({ ...result, detectedItems: (result.detectedItems || []).map(item => ({ ...item, promptVersion })) });
 
 const safeJsonParse = (text: string | undefined | null) => {
     if (!text) return null;
@@ -132,6 +53,101 @@ const safeJsonParse = (text: string | undefined | null) => {
     }
 };
 
+const JSON_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+
+// Decodes as much of a string field as has arrived in incomplete streamed JSON
+const partialJsonString = (text: string, field: string): string => {
+    const start = new RegExp(`"${field}"\\s*:\\s*"`).exec(text);
+    if (!start) return '';
+    let value = '';
+    for (let i = start.index + start[0].length; i < text.length; i++) {
+        const ch = text[i];
+        if (ch === '"') break;
+        if (ch !== '\\') {
+            value += ch;
+            continue;
+        }
+        const next = text[i + 1];
+        if (next === undefined) break;
+        if (next === 'u') {
+            const hex = text.slice(i + 2, i + 6);
+            if (hex.length < 4) break;
+            value += String.fromCharCode(parseInt(hex, 16));
+            i += 5;
+        } else {
+            value += JSON_ESCAPES[next] ?? next;
+            i++;
+        }
+    }
+    return value;
+};
+
+/** Thrown when a model response still fails its schema after the repair re-prompt. */
+export class AiResponseError extends ValidationError {
+  constructor(public task: AiTask, issues: ValidationIssue[], public responseText?: string) {
+    super(`${task} response`, issues);
+    this.name = 'AiResponseError';
+  }
+}
+
+const checkResponse = <T>(text: string | undefined, validator: Validator<T>): ValidationResult<T> => {
+    const parsed = safeJsonParse(text);
+    if (parsed === null) return { ok: false, errors: [{ path: '(root)', message: 'is not valid JSON' }], warnings: [] };
+    return validator(parsed);
+};
+
+const repairPrompt = (text: string | undefined, errors: ValidationIssue[]) =>
+    `Your previous reply did not match the required JSON schema.\nProblems:\n${errors.map(e => `- ${e.path}: ${e.message}`).join('\n')}\nPrevious reply:\n${text || '(empty)'}\nReturn only the corrected JSON.`;
+
+/**
+ * Requests JSON for `request.task` under that task's response schema and
+ * validates it. An invalid reply gets one repair re-prompt listing the
+ * problems; if that also fails, throws AiResponseError.
+ */
+const generateValidated = async <T>(ai: AiProvider, request: Omit<AiRequest, 'config'>, validator: Validator<T>, calls: AiCallUsage[] = [], onText?: (text: string) => void): Promise<T> => {
+    const { temperature, maxOutputTokens } = modelRouting.getRoute(request.task);
+    const config = { responseMimeType: "application/json", responseSchema: AI_RESPONSE_SCHEMAS[request.task], temperature, maxOutputTokens };
+    const metered = async (contents: AiRequest['contents'], streamTo?: (text: string) => void) => {
+        const response = streamTo
+            ? await ai.stream({ ...request, contents, config }, streamTo)
+            : await ai.generate({ ...request, contents, config });
+        calls.push({ model: request.model, promptTokens: 0, outputTokens: 0, totalTokens: 0, ...response.usage });
+        return response;
+    };
+    // Only the first answer streams; a repair replaces it in one piece
+    const first = await metered(request.contents, onText);
+    const checked = checkResponse(first.text, validator);
+    if (!checked.ok) {
+        console.warn(`Repairing ${request.task} response`, checked.errors);
+        const repaired = await metered(repairPrompt(first.text, checked.errors));
+        const rechecked = checkResponse(repaired.text, validator);
+        if (!rechecked.ok) throw new AiResponseError(request.task, rechecked.errors, repaired.text);
+        return rechecked.value;
+    }
+    if (checked.warnings.length > 0) console.warn(`Coerced ${request.task} response`, checked.warnings);
+    return checked.value;
+};
+
+// Models, fallbacks and sampling settings come from the task's route (see services/modelRouting).
+// Every call lands in the usage ledger; background tasks are skipped once the monthly budget is spent.
+const scheduleValidated = <T>(ai: AiProvider, task: AiTask, contents: AiRequest['contents'], validator: Validator<T>, signal?: AbortSignal, onText?: (text: string) => void): Promise<T> => {
+    if (TASK_PRIORITY[task] === 'background' && aiUsage.isOverBudget()) {
+        aiUsage.recordBlocked(ai.id, task);
+        return Promise.reject(new AiBudgetError(task, aiUsage.getMonthlyBudget()!));
+    }
+    const calls: AiCallUsage[] = [];
+    return aiScheduler.schedule(
+        {
+            task,
+            priority: TASK_PRIORITY[task],
+            models: modelRouting.getModelChain(task),
+            signal,
+            onSettled: outcome => aiUsage.record(ai.id, outcome, calls)
+        },
+        (model, jobSignal) => generateValidated(ai, { task, model, contents, signal: jobSignal }, validator, calls, onText)
+    );
+};
+
 const extractPdfPages = async (base64Data: string): Promise<string[]> => {
     try {
         if (typeof window !== 'undefined' && pdfjsLib && pdfjsLib.GlobalWorkerOptions) {
@@ -165,30 +181,20 @@ export const parseLabResults = async (
     base64Data: string, 
     mimeType: string, 
     reportType: string,
-    onProgress?: (status: string) => void
+    user?: UserProfile | null,
+    onProgress?: (status: string) => void,
+    signal?: AbortSignal
 ): Promise<{sensitivities: FoodSensitivity[], summary: string, extractedBiomarkers?: Biomarker[]}> => {
-  const ai = getAiClient();
+  const ai = getAiProvider();
   if (!ai) throw new Error("AI Offline");
 
-  const processChunk = async (chunkText: string) => {
-      await delay(1000);
-      return await smartExecute(PRO_MODEL, async (model) => {
-          const response = await ai.models.generateContent({
-              model: model, 
-              contents: `Carefully extract all clinical data from this medical report text. Identify food sensitivities with their reactive levels (high, medium, low) and any biomarkers (CRP, Vitamin D, Glucose, etc.) with their values and units. Report text: "${chunkText}".`,
-              config: { 
-                  responseMimeType: "application/json",
-                  responseSchema: LAB_RESULT_SCHEMA
-              }
-          });
-          const result = safeJsonParse(response.text);
-          if (!result) throw new Error("Invalid Lab JSON");
-          return result;
-      });
-  };
+  // Report headers carry the patient's name, birth date, address and record numbers
+  const processChunk = (chunkText: string) => scheduleValidated(ai, 'labResults',
+      renderPrompt('labResults', {}, { reportText: redaction.redactText(chunkText, user) }).text,
+      validateLabExtraction, signal);
 
-  let allSensitivities: FoodSensitivity[] = [];
-  let allBiomarkers: Biomarker[] = [];
+  let allSensitivities: LabExtraction['sensitivities'] = [];
+  let allBiomarkers: LabExtraction['biomarkers'] = [];
   let combinedSummary = "";
 
   if (mimeType === 'application/pdf') {
@@ -197,422 +203,261 @@ export const parseLabResults = async (
           if (onProgress) onProgress(`Analyzing page ${i+1}/${pages.length}...`);
           try {
               const result = await processChunk(pages[i]);
-              if (result) {
-                  if (result.sensitivities) allSensitivities = [...allSensitivities, ...result.sensitivities];
-                  if (result.biomarkers) allBiomarkers = [...allBiomarkers, ...result.biomarkers];
-                  if (result.summary) combinedSummary += result.summary + " ";
-              }
+              allSensitivities = [...allSensitivities, ...result.sensitivities];
+              allBiomarkers = [...allBiomarkers, ...result.biomarkers];
+              if (result.summary) combinedSummary += result.summary + " ";
           } catch (e) {
+              if (isAbortError(e)) throw e;
               console.error(`Failed to process page ${i+1}. Skipping.`, e);
           }
       }
   } else {
       const result = await processChunk(`[CLINICAL DATA FROM IMAGE]`);
-      if (result) {
-          allSensitivities = result.sensitivities || [];
-          allBiomarkers = result.biomarkers || [];
-          combinedSummary = result.summary || "";
-      }
+      allSensitivities = result.sensitivities;
+      allBiomarkers = result.biomarkers;
+      combinedSummary = result.summary;
   }
 
   return {
-      sensitivities: allSensitivities.map((s: any) => ({ ...s, dateDetected: new Date().toISOString(), source: 'lab_result' })),
-      extractedBiomarkers: allBiomarkers.map((b: any) => ({ ...b, date: new Date().toISOString() })),
+      sensitivities: allSensitivities.map(s => ({ ...s, dateDetected: new Date().toISOString(), source: 'lab_result' as const })),
+      extractedBiomarkers: allBiomarkers.map(b => ({ ...b, date: new Date().toISOString() })),
       summary: combinedSummary.trim() || "Clinical report analysis completed successfully."
   };
 };
 
-export const analyzeFoodImage = async (base64Image: string, mimeType: string = "image/jpeg", user?: UserProfile | null): Promise<Partial<FoodLog>> => {
-  const ai = getAiClient();
+export const analyzeFoodImage = async (base64Image: string, mimeType: string = "image/jpeg", user?: UserProfile | null, signal?: AbortSignal): Promise<Partial<FoodLog>> => {
+  const ai = getAiProvider();
   if (!ai) throw new Error("AI Offline");
 
-  const sensitivityContext = getSensitivitiesPrompt(user);
-
-  return smartExecute(PRO_MODEL, async (model) => {
-    const response = await ai.models.generateContent({
-        model: model,
-        contents: { parts: [{ inlineData: { mimeType, data: base64Image } }, { text: `Analyze this meal image for a user with ${user?.condition}. ${sensitivityContext} Break down into items with full nutrition and specific clinical warnings.` }] },
-        config: { 
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
-                required: ["detectedItems"],
-                properties: {
-                    detectedItems: {
-                        type: Type.ARRAY,
-                        items: {
-                            type: Type.OBJECT,
-                            required: ["name", "category", "ingredients", "reasoning", "nutrition"],
-                            properties: {
-                                name: { type: Type.STRING },
-                                category: { type: Type.STRING },
-                                ingredients: { type: Type.ARRAY, items: { type: Type.STRING } },
-                                reasoning: { type: Type.STRING },
-                                nutrition: {
-                                    type: Type.OBJECT,
-                                    properties: {
-                                        calories: { type: Type.NUMBER },
-                                        protein: { type: Type.NUMBER },
-                                        carbs: { type: Type.NUMBER },
-                                        fat: { type: Type.NUMBER }
-                                    }
-                                },
-                                sensitivityAlert: {
-                                    type: Type.OBJECT,
-                                    properties: {
-                                        level: { type: Type.STRING },
-                                        triggerIngredient: { type: Type.STRING },
-                                        message: { type: Type.STRING }
-                                    }
-                                },
-                                ingredientAnalysis: {
-                                    type: Type.ARRAY,
-                                    items: {
-                                        type: Type.OBJECT,
-                                        properties: {
-                                            name: { type: Type.STRING },
-                                            safetyLevel: { type: Type.STRING },
-                                            reason: { type: Type.STRING }
-                                        }
-                                    }
-                                }
-                            }
-                        }
-                    }
-                }
-            }
-        }
-    });
-    const result = safeJsonParse(response.text);
-    if (!result) throw new Error("Invalid Food Analysis JSON");
-    return result;
-  });
+  const prompt = renderPrompt('foodImage', promptContext(user));
+  const contents = { parts: [{ inlineData: { mimeType, data: base64Image } }, { text: prompt.text }] };
+
+  return withAiCache({ provider: ai.id, task: 'foodImage', model: modelRouting.getRoute('foodImage').primary, contents, sensitivities: user?.foodSensitivities || [] }, async () =>
+    withPromptVersion(await scheduleValidated(ai, 'foodImage', contents, validateFoodAnalysis, signal), prompt.version)
+  );
 };
 
-export const enrichManualFoodItem = async (foodName: string, user: UserProfile): Promise<FoodItem> => {
-  const ai = getAiClient();
+export const enrichManualFoodItem = async (foodName: string, user: UserProfile, signal?: AbortSignal): Promise<FoodItem> => {
+  const ai = getAiProvider();
   if (!ai) throw new Error("AI Offline");
 
-  const sensitivityContext = getSensitivitiesPrompt(user);
-
-  return smartExecute(PRO_MODEL, async (model) => {
-    const response = await ai.models.generateContent({
-        model: model,
-        contents: `Biological analysis for: "${foodName}" for a person with ${user.condition}. ${sensitivityContext} Return full nutrition and clinical warnings. JSON.`,
-        config: { 
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
-                required: ["name", "category", "ingredients", "reasoning", "nutrition"],
-                properties: {
-                    name: { type: Type.STRING },
-                    category: { type: Type.STRING },
-                    ingredients: { type: Type.ARRAY, items: { type: Type.STRING } },
-                    reasoning: { type: Type.STRING },
-                    nutrition: {
-                        type: Type.OBJECT,
-                        properties: {
-                            calories: { type: Type.NUMBER },
-                            protein: { type: Type.NUMBER },
-                            carbs: { type: Type.NUMBER },
-                            fat: { type: Type.NUMBER }
-                        }
-                    },
-                    sensitivityAlert: {
-                        type: Type.OBJECT,
-                        properties: {
-                            level: { type: Type.STRING },
-                            triggerIngredient: { type: Type.STRING },
-                            message: { type: Type.STRING }
-                        }
-                    }
-                }
-            }
-        }
-    });
-    const result = safeJsonParse(response.text);
-    if (!result) throw new Error("Invalid Enrichment JSON");
-    return result;
-  });
+  const prompt = renderPrompt('manualFood', promptContext(user), { foodName: foodName.trim() });
+  const contents = prompt.text;
+
+  return withAiCache({ provider: ai.id, task: 'manualFood', model: modelRouting.getRoute('manualFood').primary, contents, sensitivities: user.foodSensitivities || [] }, async () =>
+    ({ ...await scheduleValidated(ai, 'manualFood', contents, validateFoodItem, signal), promptVersion: prompt.version })
+  );
+};
+
+/** The exact pattern-analysis prompt, after redaction; shown to the user before sending. */
+export const buildPatternInsightsPrompt = (state: AppState): RenderedPrompt => {
+  const meals = redaction.minimize(state.foodLogs.slice(0, 15), state.user);
+  const flares = redaction.minimize(state.flareLogs.slice(0, 10), state.user);
+  return renderPrompt('patternInsights', promptContext(state.user), { logs: JSON.stringify({ meals, flares }) });
+};
+
+/** The exact flare-detective prompt, after redaction; shown to the user before sending. */
+export const buildFlareDetectivePrompt = (state: AppState): RenderedPrompt => {
+  const foodHistory = redaction.minimize(state.foodLogs.slice(0, 10), state.user);
+  return renderPrompt('flareDetective', promptContext(state.user), { foodHistory: JSON.stringify(foodHistory) });
 };
 
-export const generatePatternInsights = async (state: AppState): Promise<DeepAnalysis | null> => {
-  const ai = getAiClient();
+// Stacking triggers are computed on device (see triggerAnalytics.stacking); the caller merges them in
+export const generatePatternInsights = async (state: AppState, signal?: AbortSignal): Promise<DeepAnalysis | null> => {
+  const ai = getAiProvider();
   if (!ai) return null;
 
-  const cleanFoodLogs = prepareLogsForAi(state.foodLogs.slice(0, 15));
-  const cleanFlareLogs = prepareLogsForAi(state.flareLogs.slice(0, 10));
-
-  return smartExecute(PRO_MODEL, async (model) => {
-    const response = await ai.models.generateContent({
-        model: model,
-        contents: `Pattern Analysis. Condition: ${state.user?.condition}. Logs: ${JSON.stringify({ meals: cleanFoodLogs, flares: cleanFlareLogs })}. JSON.`,
-        config: { 
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                    dailyNarrative: { type: Type.STRING },
-                    bioWeather: {
-                        type: Type.OBJECT,
-                        properties: {
-                            status: { type: Type.STRING },
-                            headline: { type: Type.STRING },
-                            summary: { type: Type.STRING }
-                        }
-                    },
-                    dailyProtocol: {
-                        type: Type.OBJECT,
-                        properties: {
-                            nutritionFocus: { type: Type.STRING },
-                            movement: { type: Type.STRING },
-                            selfCare: { type: Type.STRING },
-                            mindset: { type: Type.STRING }
-                        }
-                    }
-                }
-            }
-        }
-    });
-    const analysis = safeJsonParse(response.text);
-    if (!analysis) throw new Error("Invalid Analysis JSON");
-    return { ...analysis, id: crypto.randomUUID(), timestamp: new Date().toISOString() };
-  });
+  const prompt = buildPatternInsightsPrompt(state);
+  const analysis = await scheduleValidated(ai, 'patternInsights', prompt.text, validateDeepAnalysis, signal);
+  return { ...analysis, stackingTriggers: undefined, id: crypto.randomUUID(), timestamp: new Date().toISOString(), promptVersion: prompt.version };
 };
 
-export const chatWithCoach = async (message: string, state: AppState): Promise<{reply: string, suggestions: string[], richContent?: any}> => {
-  const ai = getAiClient();
+// Coach memory: recent turns are sent verbatim, older ones are folded into a ChatSummary
+const COACH_RECENT_TURNS = 12;
+const COACH_SUMMARIZE_AFTER = 20;
+
+const unsummarizedTurns = (history: ChatMessage[], summary?: ChatSummary | null) => {
+    const covered = summary ? history.findIndex(m => m.id === summary.coversThrough) : -1;
+    return history.slice(covered + 1);
+};
+
+// Proposed actions are included with their outcome so the coach knows what was actually saved
+const formatTurns = (messages: ChatMessage[], user?: UserProfile | null) =>
+    messages.map(m => {
+        const actions = (m.actions || []).map(a => ` [${a.label}: ${a.status}]`).join('');
+        return `${m.role === 'user' ? 'User' : 'Coach'}: ${redaction.redactText(m.text, user)}${actions}`;
+    }).join('\n');
+
+// The user's own data for the coach to reason from, minimized like the analysis payloads
+const coachGrounding = (state: AppState) => {
+    const meals = state.foodLogs.slice(0, 5).map(l => ({ timestamp: l.timestamp, foods: l.detectedItems.map(i => i.name), manualNotes: l.manualNotes }));
+    const analysis = state.currentAnalysis;
+    return {
+        sensitivities: (state.user?.foodSensitivities || []).map(s => `${s.food} (${s.level})`).join(', ') || 'none recorded',
+        analysis: analysis ? JSON.stringify({ date: analysis.timestamp, afirScore: analysis.afirScore, forecast: analysis.forecast }) : 'none yet',
+        logs: JSON.stringify({
+            meals: redaction.minimize(meals, state.user),
+            flares: redaction.minimize(state.flareLogs.slice(0, 5), state.user),
+            habits: redaction.minimize(state.behaviorLogs.slice(0, 10), state.user)
+        })
+    };
+};
+
+// Rounds of read-tool results fed back before the coach has to answer
+const COACH_TOOL_ROUNDS = 3;
+
+/**
+ * Answers `message` in the context of the saved conversation and the user's
+ * recent data. `onReply` receives the reply text as it streams in. Read tool
+ * calls are answered in further rounds; write tool calls come back as pending
+ * `actions` for the user to confirm.
+ */
+export const chatWithCoach = async (message: string, state: AppState, onReply?: (partialReply: string) => void, signal?: AbortSignal): Promise<CoachReply & { actions?: CoachAction[] }> => {
+  const ai = getAiProvider();
   if (!ai) return { reply: "AI Offline.", suggestions: [] };
-  return smartExecute(PRO_MODEL, async (model) => {
-      const response = await ai.models.generateContent({
-          model: model,
-          contents: `Coach mode. Condition: ${state.user?.condition}. Message: ${message}. JSON.`,
-          config: { responseMimeType: "application/json" }
-      });
-      return safeJsonParse(response.text) || { reply: "Bio-Twin engine busy.", suggestions: [] };
+  const history = unsummarizedTurns(state.chatHistory || [], state.chatSummary).slice(-COACH_SUMMARIZE_AFTER);
+  const params = {
+      ...coachGrounding(state),
+      summary: state.chatSummary?.text || 'nothing yet',
+      history: formatTurns(history, state.user) || '(new conversation)',
+      tools: coachTools.describe(),
+      message: redaction.redactText(message, state.user)
+  };
+  let shown = '';
+  const onText = onReply && ((text: string) => {
+      const reply = partialJsonString(text, 'reply');
+      if (reply !== shown) onReply(shown = reply);
   });
+  const actions: CoachAction[] = [];
+  const results: string[] = [];
+  try {
+      for (let round = 1; ; round++) {
+          const prompt = renderPrompt('coachChat', promptContext(state.user), { ...params, toolResults: results.join('\n') || 'none' });
+          const { toolCalls = [], ...reply } = await scheduleValidated(ai, 'coachChat', prompt.text, validateCoachReply, signal, onText);
+          let needsAnswer = false;
+          toolCalls.forEach(call => {
+              const args = JSON.stringify(call.args);
+              if (coachTools.isReadTool(call.name)) {
+                  results.push(`${call.name}(${args}) -> ${coachTools.runQuery(call, state)}`);
+                  needsAnswer = true;
+                  return;
+              }
+              const proposal = coachTools.propose(call);
+              if ('issues' in proposal) {
+                  results.push(`${call.name}(${args}) -> rejected: ${proposal.issues.map(i => `${i.path} ${i.message}`).join('; ')}`);
+                  needsAnswer = true;
+              } else if (!actions.some(a => a.label === proposal.action.label)) {
+                  actions.push(proposal.action);
+                  results.push(`${call.name}(${args}) -> shown to the user to confirm`);
+              }
+          });
+          if (!needsAnswer || round === COACH_TOOL_ROUNDS) return { ...reply, actions: actions.length > 0 ? actions : undefined };
+      }
+  } catch (e) {
+      if (!(e instanceof AiResponseError)) throw e;
+      console.error(e);
+      return { reply: "Bio-Twin engine busy.", suggestions: [], actions: actions.length > 0 ? actions : undefined };
+  }
+};
+
+/**
+ * Folds older turns into the rolling summary once the verbatim history is
+ * long. Returns the new summary, or null when nothing needed folding.
+ */
+export const updateCoachMemory = async (history: ChatMessage[], summary: ChatSummary | null | undefined, user?: UserProfile | null, signal?: AbortSignal): Promise<ChatSummary | null> => {
+  const pending = unsummarizedTurns(history, summary);
+  if (pending.length <= COACH_SUMMARIZE_AFTER) return null;
+  const ai = getAiProvider();
+  if (!ai) return null;
+  const folded = pending.slice(0, pending.length - COACH_RECENT_TURNS);
+  const result = await scheduleValidated(ai, 'coachSummary',
+      renderPrompt('coachSummary', promptContext(user), { summary: summary?.text || 'none', history: formatTurns(folded, user) }).text,
+      validateCoachSummary, signal);
+  return { text: result.summary, coversThrough: folded[folded.length - 1].id, updatedAt: new Date().toISOString() };
 };
 
-export const getSmartReminders = async (state: AppState): Promise<Reminder[]> => {
-  const ai = getAiClient();
+export const getSmartReminders = async (state: AppState, signal?: AbortSignal): Promise<Reminder[]> => {
+  const ai = getAiProvider();
   if (!ai) return [];
   try {
-      const response = await ai.models.generateContent({
-          model: FLASH_MODEL,
-          contents: `Personalized reminders for ${state.user?.condition} based on history. JSON.`,
-          config: { responseMimeType: "application/json" }
-      });
-      const parsed = safeJsonParse(response.text);
-      return (parsed?.reminders || []).map((r: any) => ({ ...r, id: crypto.randomUUID(), timestamp: new Date().toISOString() }));
+      const parsed = await scheduleValidated(ai, 'reminders',
+          renderPrompt('reminders', promptContext(state.user)).text,
+          validateReminders, signal);
+      return parsed.reminders.map(r => ({ ...r, id: crypto.randomUUID(), timestamp: new Date().toISOString() }));
   } catch { return []; }
 };
 
-export const runFlareDetective = async (state: AppState): Promise<FlareDetectiveReport> => {
-    const ai = getAiClient();
+export const runFlareDetective = async (state: AppState, signal?: AbortSignal): Promise<FlareDetectiveReport> => {
+    const ai = getAiProvider();
     if (!ai) throw new Error("AI Offline");
-    const cleanFoodLogs = prepareLogsForAi(state.foodLogs.slice(0, 10));
-    return smartExecute(PRO_MODEL, async (model) => {
-        const response = await ai.models.generateContent({
-            model: model,
-            contents: `Root cause detective. Condition: ${state.user?.condition}. Food History: ${JSON.stringify(cleanFoodLogs)}. JSON.`,
-            config: { responseMimeType: "application/json" }
-        });
-        const report = safeJsonParse(response.text);
-        if (!report) throw new Error("Invalid Detective JSON");
-        return { ...report, id: crypto.randomUUID(), dateGenerated: new Date().toISOString() };
-    });
+    const prompt = buildFlareDetectivePrompt(state);
+    const report = await scheduleValidated(ai, 'flareDetective', prompt.text, validateDetectiveFindings, signal);
+    return { ...report, id: crypto.randomUUID(), dateGenerated: new Date().toISOString(), promptVersion: prompt.version };
 };
 
-export const scanGroceryProduct = async (base64Image: string, mimeType: string = "image/jpeg", user?: UserProfile | null): Promise<Partial<FoodLog>> => {
-  const ai = getAiClient();
+export const scanGroceryProduct = async (base64Image: string, mimeType: string = "image/jpeg", user?: UserProfile | null, signal?: AbortSignal): Promise<Partial<FoodLog>> => {
+  const ai = getAiProvider();
   if (!ai) throw new Error("AI Offline");
-  const sensitivityContext = getSensitivitiesPrompt(user);
-
-  return smartExecute(PRO_MODEL, async (model) => {
-    const response = await ai.models.generateContent({
-        model: model,
-        contents: { parts: [{ inlineData: { mimeType, data: base64Image } }, { text: `Grocery scan for ${user?.condition}. ${sensitivityContext} Safety check. JSON.` }] },
-        config: { 
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
-                required: ["detectedItems"],
-                properties: {
-                    detectedItems: {
-                        type: Type.ARRAY,
-                        items: {
-                            type: Type.OBJECT,
-                            properties: {
-                                name: { type: Type.STRING },
-                                category: { type: Type.STRING },
-                                sensitivityAlert: {
-                                    type: Type.OBJECT,
-                                    properties: {
-                                        level: { type: Type.STRING },
-                                        triggerIngredient: { type: Type.STRING },
-                                        message: { type: Type.STRING }
-                                    }
-                                },
-                                nutrition: {
-                                    type: Type.OBJECT,
-                                    properties: {
-                                        calories: { type: Type.NUMBER }
-                                    }
-                                }
-                            }
-                        }
-                    }
-                }
-            }
-        }
-    });
-    const result = safeJsonParse(response.text);
-    if (!result) throw new Error("Invalid Scan JSON");
-    return { ...result, isGroceryScan: true };
+  const prompt = renderPrompt('groceryScan', promptContext(user));
+  const contents = { parts: [{ inlineData: { mimeType, data: base64Image } }, { text: prompt.text }] };
+
+  return withAiCache({ provider: ai.id, task: 'groceryScan', model: modelRouting.getRoute('groceryScan').primary, contents, sensitivities: user?.foodSensitivities || [] }, async () => {
+    const result = await scheduleValidated(ai, 'groceryScan', contents, validateFoodAnalysis, signal);
+    return { ...withPromptVersion(result, prompt.version), isGroceryScan: true };
   });
 };
 
-export const simulateMealImpact = async (base64Image: string, mimeType: string = "image/jpeg", user: UserProfile): Promise<SimulationResult> => {
-  const ai = getAiClient();
+export const simulateMealImpact = async (base64Image: string, mimeType: string = "image/jpeg", user: UserProfile, signal?: AbortSignal): Promise<SimulationResult> => {
+  const ai = getAiProvider();
   if (!ai) throw new Error("AI Offline");
-  return smartExecute(PRO_MODEL, async (model) => {
-    const response = await ai.models.generateContent({
-        model: model,
-        contents: { parts: [{ inlineData: { mimeType, data: base64Image } }, { text: `Simulate impact for ${user.condition}. JSON.` }] },
-        config: { responseMimeType: "application/json" }
-    });
-    const result = safeJsonParse(response.text);
-    if (!result) throw new Error("Invalid Simulation JSON");
-    return result;
-  });
+  const contents = { parts: [{ inlineData: { mimeType, data: base64Image } }, { text: renderPrompt('mealSimulation', promptContext(user)).text }] };
+  return withAiCache({ provider: ai.id, task: 'mealSimulation', model: modelRouting.getRoute('mealSimulation').primary, contents }, () =>
+    scheduleValidated(ai, 'mealSimulation', contents, validateSimulationResult, signal)
+  );
 };
 
-export const analyzeRestaurantMenu = async (base64Image: string, mimeType: string = "image/jpeg", user: UserProfile): Promise<MenuAnalysis> => {
-    const ai = getAiClient();
+export const analyzeRestaurantMenu = async (base64Image: string, mimeType: string = "image/jpeg", user: UserProfile, signal?: AbortSignal): Promise<MenuAnalysis> => {
+    const ai = getAiProvider();
     if (!ai) throw new Error("AI Offline");
-    return smartExecute(PRO_MODEL, async (model) => {
-        const response = await ai.models.generateContent({
-            model: model,
-            contents: { parts: [{ inlineData: { mimeType, data: base64Image } }, { text: `Analyze menu for safety with ${user.condition}. JSON.` }] },
-            config: { responseMimeType: "application/json" }
-        });
-        const result = safeJsonParse(response.text);
-        if (!result) throw new Error("Invalid Menu JSON");
-        return result;
-    });
+    const contents = { parts: [{ inlineData: { mimeType, data: base64Image } }, { text: renderPrompt('menuAnalysis', promptContext(user)).text }] };
+    return withAiCache({ provider: ai.id, task: 'menuAnalysis', model: modelRouting.getRoute('menuAnalysis').primary, contents }, () =>
+        scheduleValidated(ai, 'menuAnalysis', contents, validateMenuAnalysis, signal)
+    );
 };
 
-export const getMarketplaceRecommendations = async (user: UserProfile): Promise<MarketplaceProduct[]> => {
-  const ai = getAiClient();
+export const getMarketplaceRecommendations = async (user: UserProfile, signal?: AbortSignal): Promise<MarketplaceProduct[]> => {
+  const ai = getAiProvider();
   if (!ai) return [];
+  const contents = renderPrompt('marketplace', promptContext(user)).text;
   try {
-    const response = await ai.models.generateContent({
-        model: FLASH_MODEL,
-        contents: `Safe products for ${user.condition}. JSON.`,
-        config: { responseMimeType: "application/json" }
-    });
-    return safeJsonParse(response.text) || [];
+    return await withAiCache({ provider: ai.id, task: 'marketplace', model: modelRouting.getRoute('marketplace').primary, contents }, () =>
+      scheduleValidated(ai, 'marketplace', contents, arrayOf(validateMarketplaceProduct), signal)
+    );
   } catch { return []; }
 };
 
-export const getGlobalInsights = async (condition: string): Promise<GlobalInsight[]> => {
-  const ai = getAiClient();
+export const getGlobalInsights = async (condition: string, signal?: AbortSignal): Promise<GlobalInsight[]> => {
+  const ai = getAiProvider();
   if (!ai) return [];
+  const contents = renderPrompt('globalInsights', { condition }).text;
   try {
-    const response = await ai.models.generateContent({
-        model: FLASH_MODEL,
-        contents: `Aggregated data trends for ${condition}. JSON.`,
-        config: { responseMimeType: "application/json" }
-    });
-    return safeJsonParse(response.text) || [];
+    return await withAiCache({ provider: ai.id, task: 'globalInsights', model: modelRouting.getRoute('globalInsights').primary, contents }, () =>
+      scheduleValidated(ai, 'globalInsights', contents, arrayOf(validateGlobalInsight), signal)
+    );
   } catch { return []; }
 };
 
-export const processVoiceCommand = async (text: string, user?: UserProfile | null): Promise<{ foodLogs: Partial<FoodLog>[], behaviorLogs: Partial<BehaviorLog>[] }> => {
-  const ai = getAiClient();
+export const processVoiceCommand = async (text: string, user?: UserProfile | null, signal?: AbortSignal): Promise<VoiceCommandResult> => {
+  const ai = getAiProvider();
   if (!ai) throw new Error("AI Offline");
 
-  const sensitivityContext = getSensitivitiesPrompt(user);
-  
-  return smartExecute(FLASH_MODEL, async (model) => {
-    const response = await ai.models.generateContent({
-        model: model,
-        contents: `The user says: "${text}". Extract any food mentioned and convert to a food log. For each food item, include nutrition data (calories, protein, carbs, fat) and analyze if it triggers ${user?.condition}. ${sensitivityContext} Return a JSON object with 'foodLogs' and 'behaviorLogs' keys.`,
-        config: { 
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
-                required: ["foodLogs", "behaviorLogs"],
-                properties: {
-                    foodLogs: {
-                        type: Type.ARRAY,
-                        items: {
-                            type: Type.OBJECT,
-                            required: ["detectedItems"],
-                            properties: {
-                                detectedItems: {
-                                    type: Type.ARRAY,
-                                    items: {
-                                        type: Type.OBJECT,
-                                        required: ["name", "category", "ingredients", "reasoning", "nutrition"],
-                                        properties: {
-                                            name: { type: Type.STRING },
-                                            category: { type: Type.STRING },
-                                            ingredients: { type: Type.ARRAY, items: { type: Type.STRING } },
-                                            reasoning: { type: Type.STRING },
-                                            nutrition: {
-                                                type: Type.OBJECT,
-                                                properties: {
-                                                    calories: { type: Type.NUMBER },
-                                                    protein: { type: Type.NUMBER },
-                                                    carbs: { type: Type.NUMBER },
-                                                    fat: { type: Type.NUMBER }
-                                                }
-                                            },
-                                            sensitivityAlert: {
-                                                type: Type.OBJECT,
-                                                properties: {
-                                                    level: { type: Type.STRING },
-                                                    triggerIngredient: { type: Type.STRING },
-                                                    message: { type: Type.STRING }
-                                                }
-                                            }
-                                        }
-                                    }
-                                }
-                            }
-                        }
-                    },
-                    behaviorLogs: {
-                        type: Type.ARRAY,
-                        items: {
-                            type: Type.OBJECT,
-                            properties: {
-                                type: { type: Type.STRING },
-                                value: { type: Type.NUMBER },
-                                details: { type: Type.STRING }
-                            }
-                        }
-                    }
-                }
-            }
-        }
-    });
-    return safeJsonParse(response.text) || { foodLogs: [], behaviorLogs: [] };
-  });
+  const prompt = renderPrompt('voiceCommand', promptContext(user), { utterance: redaction.redactText(text, user) });
+  const result = await scheduleValidated(ai, 'voiceCommand', prompt.text, validateVoiceCommand, signal);
+  return { ...result, foodLogs: result.foodLogs.map(log => withPromptVersion(log, prompt.version)) };
 };
 
-export const generateSafeMealPlan = async (user: UserProfile): Promise<DayPlan> => {
-    const ai = getAiClient();
+export const generateSafeMealPlan = async (user: UserProfile, signal?: AbortSignal): Promise<DayPlan> => {
+    const ai = getAiProvider();
     if (!ai) throw new Error("AI Offline");
-    return smartExecute(PRO_MODEL, async (model) => {
-        const response = await ai.models.generateContent({
-            model: model,
-            contents: `Meal plan for ${user.condition}. JSON.`,
-            config: { responseMimeType: "application/json" }
-        });
-        const result = safeJsonParse(response.text);
-        if (!result) throw new Error("Invalid Meal Plan JSON");
-        return result;
-    });
+    return scheduleValidated(ai, 'mealPlan', renderPrompt('mealPlan', promptContext(user)).text, validateDayPlan, signal);
 };
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { AppState, FlareLog } from '../types';
+import { DEFAULT_STRATEGIES, MergeStrategies, mergeStates, previewImport } from './importMerge';
+
+const state = (flareLogs: FlareLog[]): AppState => ({ user: null, foodLogs: [], flareLogs, behaviorLogs: [], currentAnalysis: null, shoppingList: [] });
+
+const flare = (id: string, severity: number, updatedAt?: string): FlareLog => ({
+  id,
+  timestamp: '2026-05-01T08:00:00.000Z',
+  severity,
+  location: 'Neck',
+  locations: ['Neck'],
+  notes: '',
+  ...(updatedAt ? { updatedAt } : {})
+});
+
+const withStrategy = (strategy: MergeStrategies['flareLogs']): MergeStrategies => ({ ...DEFAULT_STRATEGIES, flareLogs: strategy });
+
+const severityOf = (merged: AppState, id: string) => merged.flareLogs.find(f => f.id === id)?.severity;
+
+describe('mergeStates', () => {
+  const mine = state([flare('shared', 2, '2026-05-02T10:00:00.000Z'), flare('local', 1)]);
+  const theirs = state([flare('shared', 4, '2026-05-03T10:00:00.000Z'), flare('imported', 3)]);
+
+  it('keeps records that exist on only one side', () => {
+    const merged = mergeStates(mine, theirs);
+    expect(merged.flareLogs.map(f => f.id).sort()).toEqual(['imported', 'local', 'shared']);
+  });
+
+  it("resolves conflicts with 'mine' and 'theirs'", () => {
+    expect(severityOf(mergeStates(mine, theirs, withStrategy('mine')), 'shared')).toBe(2);
+    expect(severityOf(mergeStates(mine, theirs, withStrategy('theirs')), 'shared')).toBe(4);
+  });
+
+  it("keeps the copy edited last with 'newest'", () => {
+    expect(severityOf(mergeStates(mine, theirs, withStrategy('newest')), 'shared')).toBe(4);
+    expect(severityOf(mergeStates(theirs, mine, withStrategy('newest')), 'shared')).toBe(4);
+  });
+
+  it("prefers an edited copy over a legacy one with 'newest'", () => {
+    const legacy = state([flare('shared', 2)]);
+    expect(severityOf(mergeStates(legacy, theirs, withStrategy('newest')), 'shared')).toBe(4);
+    // Two legacy copies share the event time, so the local one stays
+    expect(severityOf(mergeStates(legacy, state([flare('shared', 5)]), withStrategy('newest')), 'shared')).toBe(2);
+  });
+
+  it('drops invalid incoming records and leaves the inputs untouched', () => {
+    const broken = state([{ ...flare('bad', 3), timestamp: 'not a date' }]);
+    const before = structuredClone(mine);
+    const merged = mergeStates(mine, broken);
+    expect(merged.flareLogs.map(f => f.id)).not.toContain('bad');
+    expect(mine).toEqual(before);
+  });
+});
+
+describe('previewImport', () => {
+  it('counts added, conflicting, unchanged and invalid records', () => {
+    const mine = state([flare('same', 2), flare('changed', 2)]);
+    const theirs = state([flare('same', 2), flare('changed', 3), flare('new', 1), { ...flare('bad', 1), severity: NaN }]);
+    const { collections, invalidRecords } = previewImport(mine, theirs);
+    expect(collections.flareLogs).toEqual({ added: 1, conflicts: 1, unchanged: 1, invalid: 1 });
+    expect(invalidRecords).toHaveLength(1);
+  });
+});
@@ -0,0 +1,224 @@
+import { AppState, FoodLog, FlareLog, BehaviorLog, LabReport, ShoppingListItem, FlareDetectiveReport, FoodSensitivity, Biomarker, Experiment, Trial } from '../types';
+import { Validator, ValidationIssue, validateFoodLog, validateFlareLog, validateBehaviorLog, validateLabReport, validateFoodSensitivity, validateBiomarker, validateShoppingListItem, validateFlareDetectiveReport, validateExperiment, validateTrial } from './validation';
+
+export type MergeStrategy = 'mine' | 'theirs' | 'newest';
+
+export type MergeCollection =
+  | 'foodLogs'
+  | 'flareLogs'
+  | 'behaviorLogs'
+  | 'labReports'
+  | 'foodSensitivities'
+  | 'biomarkers'
+  | 'shoppingList'
+  | 'flareDetectiveReports'
+  | 'experiments'
+  | 'trials';
+
+export type MergeStrategies = Record<MergeCollection, MergeStrategy>;
+
+export interface CollectionDiff {
+  added: number; // Only in the imported file
+  conflicts: number; // Same id on both sides with different content
+  unchanged: number;
+  invalid: number; // Rejected by validation and skipped
+}
+
+export interface InvalidRecord {
+  collection: MergeCollection;
+  index: number;
+  issues: ValidationIssue[];
+}
+
+export interface ImportPreview {
+  collections: Record<MergeCollection, CollectionDiff>;
+  invalidRecords: InvalidRecord[];
+  profileIncluded: boolean;
+}
+
+interface CollectionSpec<T> {
+  label: string;
+  key: (record: T) => string;
+  date: (record: T) => string;
+  updated?: (record: T) => string; // Last edit, for 'newest'; defaults to `date`
+  get: (state: AppState) => T[];
+  set: (state: AppState, records: T[]) => void;
+  validate: Validator<T>;
+  oldestFirst?: boolean;
+}
+
+export const COLLECTIONS: { [K in MergeCollection]: CollectionSpec<any> } = {
+  foodLogs: {
+    label: 'Food logs',
+    key: (r: FoodLog) => r.id,
+    date: (r: FoodLog) => r.timestamp,
+    updated: (r: FoodLog) => r.updatedAt || r.timestamp,
+    get: s => s.foodLogs || [],
+    set: (s, records) => { s.foodLogs = records; },
+    validate: validateFoodLog
+  },
+  flareLogs: {
+    label: 'Flare logs',
+    key: (r: FlareLog) => r.id,
+    date: (r: FlareLog) => r.timestamp,
+    updated: (r: FlareLog) => r.updatedAt || r.timestamp,
+    get: s => s.flareLogs || [],
+    set: (s, records) => { s.flareLogs = records; },
+    validate: validateFlareLog
+  },
+  behaviorLogs: {
+    label: 'Daily habits',
+    key: (r: BehaviorLog) => r.id,
+    date: (r: BehaviorLog) => r.timestamp,
+    updated: (r: BehaviorLog) => r.updatedAt || r.timestamp,
+    get: s => s.behaviorLogs || [],
+    set: (s, records) => { s.behaviorLogs = records; },
+    validate: validateBehaviorLog
+  },
+  labReports: {
+    label: 'Lab reports',
+    key: (r: LabReport) => r.id,
+    date: (r: LabReport) => r.dateUploaded,
+    get: s => s.user?.labReports || [],
+    set: (s, records) => { if (s.user) s.user.labReports = records; },
+    validate: validateLabReport,
+    oldestFirst: true
+  },
+  foodSensitivities: {
+    label: 'Sensitivities',
+    key: (r: FoodSensitivity) => r.food.toLowerCase(),
+    date: (r: FoodSensitivity) => r.dateDetected,
+    get: s => s.user?.foodSensitivities || [],
+    set: (s, records) => { if (s.user) s.user.foodSensitivities = records; },
+    validate: validateFoodSensitivity
+  },
+  biomarkers: {
+    label: 'Biomarkers',
+    key: (r: Biomarker) => `${r.name.toLowerCase()}|${r.date}`,
+    date: (r: Biomarker) => r.date,
+    get: s => s.biomarkers || [],
+    set: (s, records) => { s.biomarkers = records; },
+    validate: validateBiomarker,
+    oldestFirst: true
+  },
+  shoppingList: {
+    label: 'Shopping list',
+    key: (r: ShoppingListItem) => r.id,
+    date: (r: ShoppingListItem) => r.addedAt,
+    get: s => s.shoppingList || [],
+    set: (s, records) => { s.shoppingList = records; },
+    validate: validateShoppingListItem
+  },
+  flareDetectiveReports: {
+    label: 'Detective reports',
+    key: (r: FlareDetectiveReport) => r.id,
+    date: (r: FlareDetectiveReport) => r.dateGenerated,
+    get: s => s.flareDetectiveReports || [],
+    set: (s, records) => { s.flareDetectiveReports = records; },
+    validate: validateFlareDetectiveReport
+  },
+  experiments: {
+    label: 'Experiments',
+    key: (r: Experiment) => r.id,
+    date: (r: Experiment) => r.updatedAt,
+    get: s => s.experiments || [],
+    set: (s, records) => { s.experiments = records; },
+    validate: validateExperiment
+  },
+  trials: {
+    label: 'N-of-1 trials',
+    key: (r: Trial) => r.id,
+    date: (r: Trial) => r.updatedAt,
+    get: s => s.trials || [],
+    set: (s, records) => { s.trials = records; },
+    validate: validateTrial
+  }
+};
+
+export const MERGE_COLLECTIONS = Object.keys(COLLECTIONS) as MergeCollection[];
+
+export const DEFAULT_STRATEGIES: MergeStrategies = MERGE_COLLECTIONS.reduce(
+  (acc, c) => ({ ...acc, [c]: 'newest' }),
+  {} as MergeStrategies
+);
+
+const splitValid = (collection: MergeCollection, records: any[]) => {
+  const spec = COLLECTIONS[collection];
+  const valid: any[] = [];
+  const invalid: InvalidRecord[] = [];
+  records.forEach((record, index) => {
+    const result = spec.validate(record, `${collection}[${index}]`);
+    if (result.ok) valid.push(result.value);
+    else invalid.push({ collection, index, issues: result.errors });
+  });
+  return { valid, invalid };
+};
+
+const sameRecord = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b);
+
+const pickWinner = (spec: CollectionSpec<any>, strategy: MergeStrategy, mine: any, theirs: any) => {
+  if (strategy === 'mine') return mine;
+  if (strategy === 'theirs') return theirs;
+  const updated = spec.updated || spec.date;
+  const mineTime = new Date(updated(mine)).getTime() || 0;
+  const theirTime = new Date(updated(theirs)).getTime() || 0;
+  return theirTime > mineTime ? theirs : mine;
+};
+
+/** Counts what an import would add or conflict with, without touching either state. */
+export const previewImport = (current: AppState, incoming: AppState): ImportPreview => {
+  const invalidRecords: InvalidRecord[] = [];
+  const collections = {} as Record<MergeCollection, CollectionDiff>;
+
+  MERGE_COLLECTIONS.forEach(collection => {
+    const spec = COLLECTIONS[collection];
+    const { valid, invalid } = splitValid(collection, spec.get(incoming));
+    invalidRecords.push(...invalid);
+    const existing = new Map(spec.get(current).map(r => [spec.key(r), r]));
+    const diff: CollectionDiff = { added: 0, conflicts: 0, unchanged: 0, invalid: invalid.length };
+    valid.forEach(record => {
+      const mine = existing.get(spec.key(record));
+      if (!mine) diff.added++;
+      else if (sameRecord(mine, record)) diff.unchanged++;
+      else diff.conflicts++;
+    });
+    collections[collection] = diff;
+  });
+
+  return { collections, invalidRecords, profileIncluded: !!incoming.user };
+};
+
+/**
+ * Merges two states record-by-record. Records only on one side are kept;
+ * records on both sides are resolved with the collection's strategy.
+ * Invalid incoming records are dropped. The profile itself stays local
+ * unless this device has none yet.
+ */
+export const mergeStates = (current: AppState, incoming: AppState, strategies: MergeStrategies = DEFAULT_STRATEGIES): AppState => {
+  const merged: AppState = structuredClone(current);
+  if (!merged.user && incoming.user) {
+    merged.user = { ...structuredClone(incoming.user), labReports: [], foodSensitivities: [] };
+  }
+
+  MERGE_COLLECTIONS.forEach(collection => {
+    const spec = COLLECTIONS[collection];
+    const { valid } = splitValid(collection, spec.get(incoming));
+    const byKey = new Map(spec.get(merged).map(r => [spec.key(r), r]));
+    valid.forEach(theirs => {
+      const key = spec.key(theirs);
+      const mine = byKey.get(key);
+      byKey.set(key, mine ? pickWinner(spec, strategies[collection], mine, theirs) : theirs);
+    });
+    const records = Array.from(byKey.values()).sort((a, b) => {
+      const delta = new Date(spec.date(b)).getTime() - new Date(spec.date(a)).getTime();
+      return spec.oldestFirst ? -delta : delta;
+    });
+    spec.set(merged, records);
+  });
+
+  if (!merged.currentAnalysis && incoming.currentAnalysis) {
+    merged.currentAnalysis = incoming.currentAnalysis;
+  }
+
+  return merged;
+};
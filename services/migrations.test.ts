@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, SchemaVersionError, migrateState, migrateV2toV3 } from './migrations';
+import stateV2 from './__fixtures__/state-v2.json';
+
+describe('migrateV2toV3', () => {
+  it('splits legacy locations and backfills severity from painLevel', () => {
+    const state = migrateV2toV3(structuredClone(stateV2));
+    const [joined, unspecified, listed] = state.flareLogs;
+    expect(joined).toMatchObject({ location: 'Left elbow, Neck', locations: ['Left elbow', 'Neck'], severity: 4, notes: 'Itchy overnight' });
+    expect(unspecified).toMatchObject({ location: 'Unspecified', locations: [], severity: 2, notes: '' });
+    expect(listed).toMatchObject({ location: 'Hands', locations: ['Left hand', 'Right hand'], severity: 3 });
+  });
+
+  it('fills missing collections without touching existing ones', () => {
+    const state = migrateV2toV3(structuredClone(stateV2));
+    expect(state.foodLogs).toEqual(stateV2.foodLogs);
+    expect(state.behaviorLogs).toEqual([]);
+    expect(state.shoppingList).toEqual([]);
+    expect(state.user).toEqual(stateV2.user);
+  });
+
+  it('does not mutate its input', () => {
+    const input = structuredClone(stateV2);
+    migrateV2toV3(input);
+    expect(input).toEqual(stateV2);
+  });
+});
+
+describe('migrateState', () => {
+  it('upgrades unversioned data to the current schema', () => {
+    const { state, fromVersion, applied } = migrateState(structuredClone(stateV2));
+    expect(fromVersion).toBe(2);
+    expect(applied.map(m => m.to)).toEqual([3]);
+    expect(state.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(state.flareLogs[0].locations).toEqual(['Left elbow', 'Neck']);
+  });
+
+  it('leaves current data alone', () => {
+    const current = { ...migrateState(structuredClone(stateV2)).state };
+    const { state, applied } = migrateState(current);
+    expect(applied).toEqual([]);
+    expect(state).toEqual(current);
+  });
+
+  it('refuses data from a newer schema', () => {
+    const future = { ...stateV2, schemaVersion: CURRENT_SCHEMA_VERSION + 1 };
+    expect(() => migrateState(future)).toThrow(SchemaVersionError);
+    try {
+      migrateState(future);
+    } catch (e) {
+      expect(e).toMatchObject({ foundVersion: CURRENT_SCHEMA_VERSION + 1, supportedVersion: CURRENT_SCHEMA_VERSION });
+    }
+  });
+});
@@ -0,0 +1,86 @@
+import { AppState, FlareLog } from '../types';
+
+export const CURRENT_SCHEMA_VERSION = 3;
+
+// Data written before versioning existed (the localStorage era) carries no stamp
+export const LEGACY_SCHEMA_VERSION = 2;
+
+export interface Migration {
+  from: number;
+  to: number;
+  description: string;
+  up: (state: any) => any;
+}
+
+export class SchemaVersionError extends Error {
+  constructor(public foundVersion: number, public supportedVersion: number) {
+    super(`Data was saved by a newer version of FlareFinder (schema v${foundVersion}, this app supports up to v${supportedVersion}). Please update the app.`);
+    this.name = 'SchemaVersionError';
+  }
+}
+
+export const splitLegacyLocation = (location?: string): string[] => {
+  if (!location || location === 'Unspecified') return [];
+  return location.split(',').map(l => l.trim()).filter(Boolean);
+};
+
+export const migrateFlareLogV2toV3 = (log: any): FlareLog => {
+  const locations = Array.isArray(log.locations) && log.locations.length > 0
+    ? log.locations
+    : splitLegacyLocation(log.location);
+  const severity = typeof log.severity === 'number' ? log.severity : (typeof log.painLevel === 'number' ? log.painLevel : 0);
+  return {
+    ...log,
+    severity,
+    location: log.location || locations.join(', ') || 'Unspecified',
+    locations,
+    notes: log.notes || ''
+  };
+};
+
+export const migrateV2toV3 = (state: any): any => ({
+  ...state,
+  foodLogs: Array.isArray(state.foodLogs) ? state.foodLogs : [],
+  flareLogs: (Array.isArray(state.flareLogs) ? state.flareLogs : []).map(migrateFlareLogV2toV3),
+  behaviorLogs: Array.isArray(state.behaviorLogs) ? state.behaviorLogs : [],
+  shoppingList: Array.isArray(state.shoppingList) ? state.shoppingList : [],
+  currentAnalysis: state.currentAnalysis || null
+});
+
+// Ordered list of up-migrations; each step must be a pure function of the previous state
+export const migrations: Migration[] = [
+  {
+    from: 2,
+    to: 3,
+    description: 'Split comma-joined FlareLog.location into locations[] and backfill severity from painLevel',
+    up: migrateV2toV3
+  }
+];
+
+export const getSchemaVersion = (state: any): number => {
+  return typeof state?.schemaVersion === 'number' ? state.schemaVersion : LEGACY_SCHEMA_VERSION;
+};
+
+/**
+ * Upgrades persisted state to CURRENT_SCHEMA_VERSION by running every registered
+ * migration in order. Throws SchemaVersionError for data from a newer app build.
+ */
+export const migrateState = (raw: any): { state: AppState; fromVersion: number; applied: Migration[] } => {
+  const fromVersion = getSchemaVersion(raw);
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new SchemaVersionError(fromVersion, CURRENT_SCHEMA_VERSION);
+  }
+
+  let state = raw;
+  let version = fromVersion;
+  const applied: Migration[] = [];
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const step = migrations.find(m => m.from === version);
+    if (!step) throw new Error(`No migration registered from schema v${version}`);
+    state = step.up(state);
+    version = step.to;
+    applied.push(step);
+  }
+
+  return { state: { ...state, schemaVersion: version }, fromVersion, applied };
+};
@@ -0,0 +1,192 @@
+import { AiProvider, AiRequest, AiResponse, AiTask } from './aiProvider';
+
+// Short pause so loading states are visible during development
+const MOCK_LATENCY_MS = 400;
+const MOCK_STREAM_CHUNK = 12;
+const MOCK_STREAM_INTERVAL_MS = 40;
+
+const promptText = (request: AiRequest): string => {
+  if (typeof request.contents === 'string') return request.contents;
+  return request.contents.parts.map(p => 'text' in p ? p.text : '').join(' ');
+};
+
+const quoted = (text: string, fallback: string) => text.match(/"([^"]+)"/)?.[1] || fallback;
+
+const oatmealBowl = {
+  name: 'Oatmeal with Berries',
+  category: 'grain',
+  ingredients: ['rolled oats', 'blueberries', 'almond milk', 'honey'],
+  confidence: 0.92,
+  reasoning: 'Whole grains and berries are generally anti-inflammatory.',
+  nutrition: { calories: 320, protein: 9, carbs: 58, fat: 6 },
+  ingredientAnalysis: [
+    { name: 'rolled oats', safetyLevel: 'safe', reason: 'No documented sensitivity.' },
+    { name: 'honey', safetyLevel: 'medium', reason: 'Added sugar can aggravate inflammation in larger amounts.' }
+  ]
+};
+
+const cheeseToast = {
+  name: 'Cheese Toast',
+  category: 'dairy',
+  ingredients: ['white bread', 'cheddar cheese', 'butter'],
+  confidence: 0.88,
+  reasoning: 'Dairy and refined flour are common triggers.',
+  nutrition: { calories: 410, protein: 15, carbs: 36, fat: 22 },
+  sensitivityAlert: { level: 'high', triggerIngredient: 'cheddar cheese', message: 'Dairy is a commonly reported trigger.' },
+  ingredientAnalysis: [
+    { name: 'cheddar cheese', safetyLevel: 'high', reason: 'Dairy is a commonly reported trigger.' },
+    { name: 'white bread', safetyLevel: 'medium', reason: 'Refined carbohydrates spike insulin.' }
+  ]
+};
+
+const recipe = (id: string, title: string, ingredients: string[]) => ({
+  id,
+  title,
+  description: `A simple, trigger-aware ${title.toLowerCase()}.`,
+  ingredients,
+  prepTime: '15 min',
+  tags: ['anti-inflammatory'],
+  matchScore: 90
+});
+
+/**
+ * Canned, schema-valid responses per task. Each fixture is a pure function
+ * of the request so the same input always produces the same output.
+ */
+const FIXTURES: Record<AiTask, (request: AiRequest) => unknown> = {
+  labResults: () => ({
+    sensitivities: [
+      { food: 'Cow Milk', level: 'high', category: 'Dairy' },
+      { food: 'Tomato', level: 'medium', category: 'Nightshade' },
+      { food: 'Rice', level: 'low', category: 'Grain' }
+    ],
+    biomarkers: [
+      { name: 'CRP', value: 6.2, unit: 'mg/L', status: 'high' },
+      { name: 'Vitamin D', value: 28, unit: 'ng/mL', status: 'low' }
+    ],
+    summary: 'Mock report: elevated CRP with a high dairy reactivity.'
+  }),
+  foodImage: () => ({ detectedItems: [oatmealBowl, cheeseToast] }),
+  manualFood: (request) => ({ ...oatmealBowl, name: quoted(promptText(request), oatmealBowl.name) }),
+  patternInsights: () => ({
+    afirScore: { value: 42, trend: 'stable', influencingFactors: ['Dairy intake', 'Short sleep'] },
+    forecast: { riskLevel: 'medium', explanation: 'Two dairy meals in the last 48 hours.' },
+    bioWeather: { status: 'Cloudy', headline: 'Mixed signals today', summary: 'Inflammation markers are steady but trigger exposure is up.' },
+    dailyProtocol: { nutritionFocus: 'Leafy greens and omega-3s', movement: 'Gentle walk', selfCare: 'Loose clothing', mindset: 'One day at a time' },
+    topTriggers: [{ name: 'Dairy', probability: 64, reason: 'Preceded 3 of the last 4 flares.' }],
+    protectiveBehaviors: [{ name: 'Hydration', impact: 'Fewer flares on days with 8+ cups.' }],
+    dailySummary: 'Mock analysis generated offline.',
+    recommendations: ['Try a dairy-free week'],
+    experiments: ['Eliminate dairy for 7 days'],
+    dailyNarrative: 'Good morning! This is a mock forecast from the local provider.'
+  }),
+  coachChat: (request) => {
+    const message = promptText(request).split('Message:')[1]?.replace(/\. JSON\.$/, '').trim() || '';
+    return {
+      reply: `Mock coach reply to: ${message || 'your message'}`,
+      suggestions: ['What are my top triggers?', 'Plan a safe dinner'],
+      toolCalls: mockToolCalls(message, !promptText(request).includes('Tool results: none'))
+    };
+  },
+  reminders: () => ({
+    reminders: [{ type: 'habit', text: 'Log your water intake before lunch.', priority: 'low' }]
+  }),
+  flareDetective: () => ({
+    spikeDetected: true,
+    suspects: [{ name: 'Cheddar cheese', reason: 'Eaten 30 hours before the last flare.', confidence: 72 }],
+    conclusion: 'Mock investigation: dairy is the leading suspect.'
+  }),
+  groceryScan: () => ({
+    detectedItems: [{ name: 'Greek Yogurt', category: 'dairy', nutrition: { calories: 150 }, sensitivityAlert: { level: 'high', triggerIngredient: 'milk', message: 'Contains dairy.' } }]
+  }),
+  mealSimulation: () => ({
+    riskScore: 58,
+    prediction: 'Moderate chance of inflammation within 24 hours.',
+    biologicalMechanisms: ['Dairy protein exposure', 'Refined carbohydrate load'],
+    verdict: 'Caution',
+    betterOption: 'Swap the cheese for avocado.'
+  }),
+  menuAnalysis: () => ({
+    safeOptions: [{ dishName: 'Grilled Salmon', description: 'With steamed greens', safetyLevel: 'safe', modification: null, reason: 'No known triggers.' }],
+    cautionOptions: [{ dishName: 'Chicken Pasta', description: 'Tomato sauce', safetyLevel: 'caution', modification: 'Ask for olive oil instead of sauce', reason: 'Contains nightshades.' }],
+    avoidOptions: [{ dishName: 'Four Cheese Pizza', description: 'Mozzarella, cheddar, parmesan, gouda', safetyLevel: 'avoid', modification: null, reason: 'Heavy dairy.' }],
+    chefCardText: 'I avoid dairy and nightshades. Thank you for your help!'
+  }),
+  marketplace: () => ([
+    { id: 'mock-omega', name: 'Omega-3 Softgels', brand: 'MockLabs', category: 'supplement', price: '$24', matchScore: 88, matchReason: 'Supports an anti-inflammatory diet.' }
+  ]),
+  globalInsights: () => ([
+    { topic: 'Dairy', stat: 'Mock: 61% of users report dairy as a trigger', trend: 'up' }
+  ]),
+  voiceCommand: (request) => {
+    const text = promptText(request).toLowerCase();
+    return {
+      foodLogs: text.includes('ate') ? [{ detectedItems: [oatmealBowl] }] : [],
+      behaviorLogs: text.includes('water') ? [{ type: 'water', value: 2, details: 'From voice (mock)' }] : [{ type: 'mood', value: 3, details: 'From voice (mock)' }]
+    };
+  },
+  mealPlan: () => ({
+    breakfast: recipe('mock-breakfast', 'Berry Oat Bowl', ['oats', 'blueberries', 'almond milk']),
+    lunch: recipe('mock-lunch', 'Quinoa Salad', ['quinoa', 'cucumber', 'olive oil']),
+    dinner: recipe('mock-dinner', 'Baked Salmon', ['salmon', 'spinach', 'lemon']),
+    snack: recipe('mock-snack', 'Apple Slices', ['apple', 'almond butter'])
+  }),
+  coachSummary: () => ({
+    summary: 'Mock summary: the user asked about trigger foods and safe meal ideas.'
+  })
+};
+
+// Enough phrase matching to exercise the coach's tool calls offline
+const mockToolCalls = (message: string, answered: boolean) => {
+  const calls: { name: string; args: Record<string, string> }[] = [];
+  const slept = /slept (\d+(?:\.\d+)?) hours?/i.exec(message);
+  if (slept) calls.push({ name: 'log_behavior', args: { type: 'sleep', value: slept[1], unit: 'hours' } });
+  const listed = /add (.+?) to my (?:shopping )?list/i.exec(message);
+  if (listed) calls.push({ name: 'add_to_shopping_list', args: { item: listed[1] } });
+  const eliminated = /(?:eliminate|experiment with|cut out) (\w+)/i.exec(message);
+  if (eliminated) calls.push({ name: 'start_experiment', args: { target: eliminated[1], hypothesis: `${eliminated[1]} triggers my flares` } });
+  const eaten = /did i (?:eat|have) (\w+)/i.exec(message);
+  if (eaten && !answered) calls.push({ name: 'query_food_logs', args: { ingredient: eaten[1] } });
+  return calls;
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new DOMException("AI request cancelled", 'AbortError'));
+    return;
+  }
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException("AI request cancelled", 'AbortError'));
+  }, { once: true });
+});
+
+const respond = (request: AiRequest): AiResponse => {
+  const text = JSON.stringify(FIXTURES[request.task](request));
+  // Rough 4-characters-per-token estimate so the usage ledger has something to show
+  const promptTokens = Math.ceil(promptText(request).length / 4);
+  const outputTokens = Math.ceil(text.length / 4);
+  return { text, usage: { promptTokens, outputTokens, totalTokens: promptTokens + outputTokens } };
+};
+
+// Offline provider for development and demos; never makes network calls
+export const mockAiProvider: AiProvider = {
+  id: 'mock',
+  label: 'Local Mock (offline)',
+  isAvailable: () => true,
+  generate: async (request) => {
+    await wait(MOCK_LATENCY_MS, request.signal);
+    return respond(request);
+  },
+  stream: async (request, onText) => {
+    await wait(MOCK_LATENCY_MS, request.signal);
+    const response = respond(request);
+    for (let end = MOCK_STREAM_CHUNK; end < response.text.length; end += MOCK_STREAM_CHUNK) {
+      onText(response.text.slice(0, end));
+      await wait(MOCK_STREAM_INTERVAL_MS, request.signal);
+    }
+    onText(response.text);
+    return response;
+  }
+};
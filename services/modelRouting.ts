@@ -0,0 +1,121 @@
+import { AiTask } from './aiProvider';
+import { ModelBudget } from './aiScheduler';
+
+// Device-wide overrides; tasks without one use DEFAULT_ROUTES
+const ROUTES_KEY = 'flarefinder_model_routes';
+
+export interface ModelPricing {
+  inputPerMillion: number; // USD per million prompt tokens
+  outputPerMillion: number; // USD per million output tokens
+}
+
+export interface AiModel {
+  id: string;
+  label: string;
+  budget: ModelBudget;
+  pricing: ModelPricing; // List prices, used for the usage ledger's cost estimate
+}
+
+export const AVAILABLE_MODELS: AiModel[] = [
+  {
+    id: 'gemini-3-pro-preview', label: 'Gemini 3 Pro',
+    budget: { requestsPerMinute: 5, minSpacingMs: 1000 },
+    pricing: { inputPerMillion: 2, outputPerMillion: 12 }
+  },
+  {
+    id: 'gemini-3-flash-preview', label: 'Gemini 3 Flash',
+    budget: { requestsPerMinute: 15, minSpacingMs: 1000 },
+    pricing: { inputPerMillion: 0.5, outputPerMillion: 3 }
+  },
+  {
+    id: 'gemini-2.5-flash-lite', label: 'Gemini 2.5 Flash Lite',
+    budget: { requestsPerMinute: 30, minSpacingMs: 500 },
+    pricing: { inputPerMillion: 0.1, outputPerMillion: 0.4 }
+  }
+];
+
+const PRO = AVAILABLE_MODELS[0].id;
+const FLASH = AVAILABLE_MODELS[1].id;
+
+export interface ModelRoute {
+  primary: string;
+  fallbacks: string[]; // Tried in order when the primary errors or is rate limited
+  temperature?: number; // Provider default when unset
+  maxOutputTokens?: number;
+}
+
+const accurate: ModelRoute = { primary: PRO, fallbacks: [FLASH] };
+const fast: ModelRoute = { primary: FLASH, fallbacks: [] };
+
+export const DEFAULT_ROUTES: Record<AiTask, ModelRoute> = {
+  labResults: accurate,
+  foodImage: accurate,
+  manualFood: accurate,
+  patternInsights: accurate,
+  coachChat: accurate,
+  reminders: fast,
+  flareDetective: accurate,
+  groceryScan: accurate,
+  mealSimulation: accurate,
+  menuAnalysis: accurate,
+  marketplace: fast,
+  globalInsights: fast,
+  voiceCommand: fast,
+  mealPlan: accurate,
+  coachSummary: fast
+};
+
+const readOverrides = (): Partial<Record<AiTask, ModelRoute>> => {
+  try {
+    const raw = localStorage.getItem(ROUTES_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (e) {
+    console.error("Failed to read model routes", e);
+    return {};
+  }
+};
+
+const writeOverrides = (overrides: Partial<Record<AiTask, ModelRoute>>) => {
+  localStorage.setItem(ROUTES_KEY, JSON.stringify(overrides));
+};
+
+const isValidNumber = (value: unknown, min: number, max: number) =>
+  typeof value === 'number' && isFinite(value) && value >= min && value <= max;
+
+// Drops out-of-range settings from a stored route so a bad edit cannot break a feature
+const sanitize = (route: ModelRoute, fallback: ModelRoute): ModelRoute => ({
+  primary: typeof route.primary === 'string' && route.primary ? route.primary : fallback.primary,
+  fallbacks: Array.isArray(route.fallbacks) ? route.fallbacks.filter(m => typeof m === 'string' && m && m !== route.primary) : [],
+  temperature: isValidNumber(route.temperature, 0, 2) ? route.temperature : undefined,
+  maxOutputTokens: isValidNumber(route.maxOutputTokens, 1, 65536) ? Math.round(route.maxOutputTokens) : undefined
+});
+
+export const modelRouting = {
+  getRoute: (task: AiTask): ModelRoute => {
+    const override = readOverrides()[task];
+    return override ? sanitize(override, DEFAULT_ROUTES[task]) : DEFAULT_ROUTES[task];
+  },
+
+  /** Primary model first, then fallbacks, without duplicates. */
+  getModelChain: (task: AiTask): string[] => {
+    const route = modelRouting.getRoute(task);
+    return Array.from(new Set([route.primary, ...route.fallbacks]));
+  },
+
+  isCustomized: (task: AiTask): boolean => !!readOverrides()[task],
+
+  setRoute: (task: AiTask, route: ModelRoute) => {
+    writeOverrides({ ...readOverrides(), [task]: sanitize(route, DEFAULT_ROUTES[task]) });
+  },
+
+  /** Restores the default route for `task`, or for every task when omitted. */
+  reset: (task?: AiTask) => {
+    if (!task) {
+      localStorage.removeItem(ROUTES_KEY);
+      return;
+    }
+    const { [task]: _removed, ...rest } = readOverrides();
+    writeOverrides(rest);
+  }
+};
@@ -0,0 +1,103 @@
+import { ProfileSummary } from '../types';
+import { storage, DEFAULT_DB_NAME } from './storage';
+
+// Kept in localStorage so the switcher can render before any (possibly encrypted) database is opened
+const PROFILES_KEY = 'flarefinder_profiles';
+
+interface ProfileRegistry {
+  activeId: string;
+  profiles: ProfileSummary[];
+}
+
+const generateId = () => typeof crypto !== 'undefined' && crypto.randomUUID
+  ? crypto.randomUUID()
+  : Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
+
+const save = (registry: ProfileRegistry) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(registry));
+};
+
+// Devices set up before profiles existed already hold one person's data in the default database
+const createRegistry = (): ProfileRegistry => {
+  const first: ProfileSummary = { id: generateId(), name: 'Me', dbName: DEFAULT_DB_NAME, createdAt: new Date().toISOString() };
+  return { activeId: first.id, profiles: [first] };
+};
+
+const load = (): ProfileRegistry => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(PROFILES_KEY) || 'null');
+    if (parsed && Array.isArray(parsed.profiles) && parsed.profiles.length > 0) {
+      if (!parsed.profiles.some((p: ProfileSummary) => p.id === parsed.activeId)) parsed.activeId = parsed.profiles[0].id;
+      return parsed;
+    }
+  } catch (e) {
+    console.error("Failed to read profiles", e);
+  }
+  const registry = createRegistry();
+  save(registry);
+  return registry;
+};
+
+export const profiles = {
+  list: (): ProfileSummary[] => load().profiles,
+
+  getActive: (): ProfileSummary => {
+    const registry = load();
+    return registry.profiles.find(p => p.id === registry.activeId);
+  },
+
+  isDefault: (profile: ProfileSummary) => profile.dbName === DEFAULT_DB_NAME,
+
+  /** Switches the active profile. Callers reload so db.init runs against the new database. */
+  setActive: (id: string): boolean => {
+    const registry = load();
+    if (!registry.profiles.some(p => p.id === id)) return false;
+    save({ ...registry, activeId: id });
+    return true;
+  },
+
+  /** Registers an empty profile and makes it active; onboarding fills it in after reload. */
+  create: (name = 'New Profile'): ProfileSummary => {
+    const registry = load();
+    const id = generateId();
+    const profile: ProfileSummary = { id, name, dbName: `${DEFAULT_DB_NAME}_${id}`, createdAt: new Date().toISOString() };
+    save({ activeId: id, profiles: [...registry.profiles, profile] });
+    return profile;
+  },
+
+  /** Copies profile details into the switcher. Encrypted profiles keep their label. */
+  update: (id: string, changes: Partial<Pick<ProfileSummary, 'name' | 'condition'>>) => {
+    const registry = load();
+    save({ ...registry, profiles: registry.profiles.map(p => p.id === id && !p.encrypted ? { ...p, ...changes } : p) });
+  },
+
+  /** Replaces the name and condition of a profile whose database is now encrypted with a label. */
+  protect: (id: string, label?: string) => {
+    const registry = load();
+    save({
+      ...registry,
+      profiles: registry.profiles.map((p, i) => {
+        if (p.id !== id) return p;
+        const { condition, ...rest } = p;
+        return { ...rest, name: label?.trim() || `Profile ${i + 1}`, encrypted: true };
+      })
+    });
+  },
+
+  /** Lets details sync into the switcher again once a profile is stored unencrypted. */
+  unprotect: (id: string) => {
+    const registry = load();
+    save({ ...registry, profiles: registry.profiles.map(p => p.id === id ? { ...p, encrypted: false } : p) });
+  },
+
+  /** Deletes a profile and its database. The last remaining profile cannot be removed. */
+  remove: async (id: string): Promise<boolean> => {
+    const registry = load();
+    const target = registry.profiles.find(p => p.id === id);
+    if (!target || registry.profiles.length < 2) return false;
+    await storage.destroyDatabase(target.dbName);
+    const remaining = registry.profiles.filter(p => p.id !== id);
+    save({ activeId: registry.activeId === id ? remaining[0].id : registry.activeId, profiles: remaining });
+    return true;
+  }
+};
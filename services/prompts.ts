@@ -0,0 +1,184 @@
+import { AiTask } from './aiProvider';
+import { FoodSensitivity } from '../types';
+
+/*
+ * Prompt registry. Each AI task has one named template with a version that is
+ * stored on the records it produces (`promptVersion`), so outputs can be
+ * compared across prompt revisions. Bump `version` whenever the wording of a
+ * template, one of its variants, or a fragment it uses changes.
+ *
+ * Templates use {{placeholders}}. `condition` and `sensitivityRules` are filled
+ * from the PromptContext; anything else must be passed as a parameter.
+ */
+
+export type ConditionVariant = 'hs' | 'crohns' | 'pcos';
+
+export interface PromptTemplate {
+  task: AiTask;
+  version: number;
+  text: string;
+  variants?: Partial<Record<ConditionVariant, string>>; // Replaces `text` for that condition
+}
+
+export interface PromptContext {
+  condition?: string;
+  sensitivities?: FoodSensitivity[];
+}
+
+export interface RenderedPrompt {
+  text: string;
+  version: string; // e.g. "patternInsights@1/hs"
+}
+
+const SENSITIVITY_RULES = `CRITICAL INSTRUCTION: The user has documented CLINICAL sensitivities from their medical lab reports for the following items: {{sensitivityList}}.
+
+    You MUST check EVERY ingredient in the logged food against this specific list.
+    - If an ingredient matches an item on the list, you MUST flag it in the 'sensitivityAlert' field.
+    - Clinical lab results (the list above) take ABSOLUTE precedence over general nutritional advice.
+    - Even if a food is generally considered healthy, if it is on the user's sensitivity list, you MUST flag it as a risk.`;
+
+const PATTERN_INSIGHTS = 'Pattern Analysis. Condition: {{condition}}. Logs: {{logs}}.';
+const FLARE_DETECTIVE = 'Root cause detective. Condition: {{condition}}. Food History: {{foodHistory}}.';
+const MEAL_PLAN = 'Meal plan for {{condition}}.';
+
+export const PROMPT_TEMPLATES: Record<AiTask, PromptTemplate> = {
+  labResults: {
+    task: 'labResults',
+    version: 1,
+    text: 'Carefully extract all clinical data from this medical report text. Identify food sensitivities with their reactive levels (high, medium, low) and any biomarkers (CRP, Vitamin D, Glucose, etc.) with their values and units. Report text: "{{reportText}}".'
+  },
+  foodImage: {
+    task: 'foodImage',
+    version: 1,
+    text: 'Analyze this meal image for a user with {{condition}}. {{sensitivityRules}} Break down into items with full nutrition and specific clinical warnings.'
+  },
+  manualFood: {
+    task: 'manualFood',
+    version: 1,
+    text: 'Biological analysis for: "{{foodName}}" for a person with {{condition}}. {{sensitivityRules}} Return full nutrition and clinical warnings. JSON.'
+  },
+  patternInsights: {
+    task: 'patternInsights',
+    version: 1,
+    text: `${PATTERN_INSIGHTS} JSON.`,
+    variants: {
+      hs: `${PATTERN_INSIGHTS} Weigh dairy, brewer's yeast, high-glycemic meals, sweat, friction and heat. JSON.`,
+      crohns: `${PATTERN_INSIGHTS} Weigh fiber load, lactose, fat content, alcohol and meal size, and note GI flares separately from skin flares. JSON.`,
+      pcos: `${PATTERN_INSIGHTS} Weigh glycemic load, sugar, dairy and sleep, and relate flares to the menstrual cycle where logged. JSON.`
+    }
+  },
+  coachChat: {
+    task: 'coachChat',
+    version: 3,
+    text: `Coach mode. Condition: {{condition}}. Ground every answer in the user's data below and say so when it does not cover the question.
+Known sensitivities: {{sensitivities}}
+Latest Bio-Forecast: {{analysis}}
+Recent logs: {{logs}}
+Earlier in this conversation: {{summary}}
+Recent turns:
+{{history}}
+Tools you can call through toolCalls:
+{{tools}}
+Only call a write tool when the user asks to log or add something, and say in the reply what you proposed. Query older meals instead of guessing. Do not repeat a call whose result is listed below.
+Tool results: {{toolResults}}
+Message: {{message}}. JSON.`
+  },
+  reminders: {
+    task: 'reminders',
+    version: 1,
+    text: 'Personalized reminders for {{condition}} based on history. JSON.'
+  },
+  flareDetective: {
+    task: 'flareDetective',
+    version: 1,
+    text: `${FLARE_DETECTIVE} JSON.`,
+    variants: {
+      hs: `${FLARE_DETECTIVE} Consider a 24-72h lag for dairy and brewer's yeast. JSON.`,
+      crohns: `${FLARE_DETECTIVE} Consider a 6-48h lag and insoluble fiber, lactose and fried food. JSON.`,
+      pcos: `${FLARE_DETECTIVE} Consider refined sugar and insulin spikes over the previous days. JSON.`
+    }
+  },
+  groceryScan: {
+    task: 'groceryScan',
+    version: 1,
+    text: 'Grocery scan for {{condition}}. {{sensitivityRules}} Safety check. JSON.'
+  },
+  mealSimulation: {
+    task: 'mealSimulation',
+    version: 1,
+    text: 'Simulate impact for {{condition}}. JSON.'
+  },
+  menuAnalysis: {
+    task: 'menuAnalysis',
+    version: 1,
+    text: 'Analyze menu for safety with {{condition}}. JSON.'
+  },
+  marketplace: {
+    task: 'marketplace',
+    version: 1,
+    text: 'Safe products for {{condition}}. JSON.'
+  },
+  globalInsights: {
+    task: 'globalInsights',
+    version: 1,
+    text: 'Aggregated data trends for {{condition}}. JSON.'
+  },
+  voiceCommand: {
+    task: 'voiceCommand',
+    version: 1,
+    text: `The user says: "{{utterance}}". Extract any food mentioned and convert to a food log. For each food item, include nutrition data (calories, protein, carbs, fat) and analyze if it triggers {{condition}}. {{sensitivityRules}} Return a JSON object with 'foodLogs' and 'behaviorLogs' keys.`
+  },
+  mealPlan: {
+    task: 'mealPlan',
+    version: 1,
+    text: `${MEAL_PLAN} JSON.`,
+    variants: {
+      hs: `${MEAL_PLAN} Dairy-free and brewer's yeast-free, low glycemic load. JSON.`,
+      crohns: `${MEAL_PLAN} Low residue, soft-cooked vegetables, small portions. JSON.`,
+      pcos: `${MEAL_PLAN} Low glycemic load with protein at every meal. JSON.`
+    }
+  },
+  coachSummary: {
+    task: 'coachSummary',
+    version: 1,
+    text: `Summarize this conversation between a person with {{condition}} and their health coach in under 150 words. Keep facts about the person, advice given and open questions. Fold in the earlier summary.
+Earlier summary: {{summary}}
+Conversation:
+{{history}}
+JSON.`
+  }
+};
+
+/** Maps a free-text condition ("HS (Hidradenitis Suppurativa)") to its prompt variant, if any. */
+export const conditionVariant = (condition?: string): ConditionVariant | undefined => {
+  if (!condition) return undefined;
+  if (/\bhs\b|hidradenitis/i.test(condition)) return 'hs';
+  if (/crohn/i.test(condition)) return 'crohns';
+  if (/pcos|polycystic/i.test(condition)) return 'pcos';
+  return undefined;
+};
+
+const fill = (text: string, params: Record<string, string>, name: string) =>
+  text.replace(/\{\{(\w+)\}\}/g, (_match, key: string) => {
+    if (!(key in params)) throw new Error(`Missing prompt parameter "${key}" for ${name}`);
+    return params[key];
+  });
+
+const sensitivityRules = (sensitivities: FoodSensitivity[] = []) => {
+  if (sensitivities.length === 0) return "";
+  const sensitivityList = sensitivities.map(s => `${s.food} (${s.level} sensitivity)`).join(', ');
+  return fill(SENSITIVITY_RULES, { sensitivityList }, 'sensitivityRules');
+};
+
+/** Renders the template for `task`, picking the variant for the context's condition when one exists. */
+export const renderPrompt = (task: AiTask, context: PromptContext, params: Record<string, string> = {}): RenderedPrompt => {
+  const template = PROMPT_TEMPLATES[task];
+  const variant = conditionVariant(context.condition);
+  const variantText = variant ? template.variants?.[variant] : undefined;
+  const text = fill(variantText || template.text, {
+    condition: context.condition || 'an inflammatory condition',
+    sensitivityRules: sensitivityRules(context.sensitivities),
+    ...params
+  }, task);
+  return { text, version: `${task}@${template.version}${variantText ? `/${variant}` : ''}` };
+};
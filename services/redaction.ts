@@ -0,0 +1,121 @@
+import { UserProfile } from '../types';
+import { profiles } from './profiles';
+
+// Device-wide, like the AI provider choice
+const SETTINGS_KEY = 'flarefinder_redaction';
+
+export interface RedactionSettings {
+  contacts: boolean; // Emails and phone numbers
+  names: boolean; // Profile names and titled names ("Dr. Patel")
+  addresses: boolean;
+  identifiers: boolean; // Dates of birth and medical record or patient numbers
+  location: boolean; // Coordinates in text; weather readings are rounded
+  maxNoteLength: number; // Free-text notes are cut to this many characters; 0 drops them
+  previewBeforeSending: boolean;
+}
+
+export const DEFAULT_REDACTION: RedactionSettings = {
+  contacts: true,
+  names: true,
+  addresses: true,
+  identifiers: true,
+  location: true,
+  maxNoteLength: 200,
+  previewBeforeSending: true
+};
+
+// Never useful to the model: storage ids, images and body-map drawings
+const OMITTED_KEYS = new Set(['id', 'imageId', 'imageUrl', 'bodyPoints', 'drawnPaths', 'promptVersion']);
+const FREE_TEXT_KEYS = new Set(['notes', 'manualNotes', 'details', 'bio']);
+const STRUCTURED_KEYS = new Set(['timestamp', 'date', 'dateDetected', 'dateUploaded']);
+const GENERIC_NAME_WORDS = new Set(['new', 'profile']);
+
+const EMAIL = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+const PHONE = /(?:\+\d{1,3}[\s.-]?)?\(?\b\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/g;
+const ADDRESS = /\b\d{1,5}\s+(?:[A-Za-z]+\s+){1,3}(?:street|st|avenue|ave|road|rd|boulevard|blvd|lane|ln|drive|dr|court|ct|way|place|pl)\b\.?/gi;
+const COORDINATES = /-?\d{1,3}\.\d{3,}\s*,\s*-?\d{1,3}\.\d{3,}/g;
+const DATE_OF_BIRTH = /\b(?:DOB|D\.O\.B\.?|Date of Birth|Birth ?Date)\s*[:#-]?\s*[\w/.,-]+(?:\s+\d{1,2},?\s+\d{2,4})?/gi;
+const RECORD_NUMBER = /\b(?:MRN|Medical Record(?: No\.?| Number)?|Patient(?: ID| No\.?| Number)|Accession(?: No\.?| Number)?|Acct(?:ount)?(?: No\.?| Number| #)?)\s*[:#-]?\s*[A-Z0-9][A-Z0-9-]{3,}/gi;
+const TITLED_NAME = /\b(?:[Dd]r|[Mm]rs?|[Mm]s|[Mm]iss|[Pp]rof)\.?\s+[A-Z][a-z]+(?:\s+[A-Z][a-z]+)?/g;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Name parts to scrub: the user's and every profile's, ignoring placeholders like "New Profile". */
+export const knownNames = (user?: UserProfile | null): string[] => {
+  const names = [user?.name, ...profiles.list().map(p => p.name)].filter(Boolean).join(' ');
+  return Array.from(new Set(names.split(/\s+/).filter(part => part.length >= 3 && !GENERIC_NAME_WORDS.has(part.toLowerCase()))));
+};
+
+// Names are only scrubbed from free text; elsewhere "Dr" or a first name is usually part of a food or brand
+const redactText = (text: string, settings: RedactionSettings, names: string[], freeText = true): string => {
+  let result = text;
+  if (settings.contacts) result = result.replace(EMAIL, '[email]').replace(PHONE, '[phone]');
+  if (settings.location) result = result.replace(COORDINATES, '[location]');
+  if (settings.addresses) result = result.replace(ADDRESS, '[address]');
+  if (settings.identifiers) result = result.replace(DATE_OF_BIRTH, '[date of birth]').replace(RECORD_NUMBER, '[record number]');
+  if (settings.names && freeText) {
+    result = result.replace(TITLED_NAME, '[name]');
+    if (names.length > 0) result = result.replace(new RegExp(`\\b(?:${names.map(escapeRegExp).join('|')})\\b`, 'gi'), '[name]');
+  }
+  return result;
+};
+
+const truncate = (text: string, max: number) => text.length > max ? `${text.slice(0, max).trimEnd()}…` : text;
+
+const minimizeValue = (value: unknown, key: string, settings: RedactionSettings, names: string[]): unknown => {
+  if (typeof value === 'string') {
+    if (STRUCTURED_KEYS.has(key)) return value;
+    const freeText = FREE_TEXT_KEYS.has(key);
+    const text = redactText(value, settings, names, freeText);
+    return freeText ? truncate(text, settings.maxNoteLength) : text;
+  }
+  if (Array.isArray(value)) return value.map(v => minimizeValue(v, key, settings, names));
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    Object.entries(value).forEach(([k, v]) => {
+      if (OMITTED_KEYS.has(k) || v === undefined || v === '') return;
+      if (FREE_TEXT_KEYS.has(k) && settings.maxNoteLength <= 0) return;
+      if (k === 'weather' && settings.location && v && typeof v === 'object') {
+        // Exact readings can pin down where the user was; missing readings stay missing
+        const { temperature, humidity } = v as { temperature?: unknown; humidity?: unknown };
+        const weather: Record<string, number> = {};
+        if (typeof temperature === 'number' && isFinite(temperature)) weather.temperature = Math.round(temperature / 5) * 5;
+        if (typeof humidity === 'number' && isFinite(humidity)) weather.humidity = Math.round(humidity / 10) * 10;
+        if (Object.keys(weather).length > 0) result[k] = weather;
+        return;
+      }
+      result[k] = minimizeValue(v, k, settings, names);
+    });
+    return result;
+  }
+  return value;
+};
+
+export const redaction = {
+  getSettings: (): RedactionSettings => {
+    try {
+      const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+      return stored && typeof stored === 'object' ? { ...DEFAULT_REDACTION, ...stored } : DEFAULT_REDACTION;
+    } catch (e) {
+      console.error("Failed to read redaction settings", e);
+      return DEFAULT_REDACTION;
+    }
+  },
+
+  setSettings: (settings: RedactionSettings) => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  },
+
+  redactText: (text: string, user?: UserProfile | null): string =>
+    redactText(text, redaction.getSettings(), knownNames(user)),
+
+  /**
+   * Copies `records` for a prompt with ids and images removed, notes
+   * truncated, and personal details replaced by placeholders like [email].
+   */
+  minimize: <T extends object>(records: T[], user?: UserProfile | null): object[] => {
+    const settings = redaction.getSettings();
+    const names = knownNames(user);
+    return records.map(record => minimizeValue(record, '', settings, names) as object);
+  }
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { benjaminiHochberg, fisherExactGreater, relativeRisk, signFlipTest } from './stats';
+
+describe('fisherExactGreater', () => {
+  it('matches the hypergeometric tail', () => {
+    // 3 of 4 exposed vs 1 of 4 unexposed: (C(4,3)C(4,1) + C(4,4)C(4,0)) / C(8,4) = 17/70
+    expect(fisherExactGreater({ exposedCases: 3, exposedTotal: 4, unexposedCases: 1, unexposedTotal: 4 })).toBeCloseTo(17 / 70, 10);
+    expect(fisherExactGreater({ exposedCases: 3, exposedTotal: 3, unexposedCases: 0, unexposedTotal: 3 })).toBeCloseTo(1 / 20, 10);
+  });
+
+  it('is 1 when the exposed had no more cases than chance allows', () => {
+    expect(fisherExactGreater({ exposedCases: 0, exposedTotal: 5, unexposedCases: 3, unexposedTotal: 5 })).toBeCloseTo(1, 10);
+  });
+});
+
+describe('relativeRisk', () => {
+  it('gives the risk ratio with a log-normal 95% interval', () => {
+    const rr = relativeRisk({ exposedCases: 10, exposedTotal: 20, unexposedCases: 5, unexposedTotal: 20 });
+    expect(rr.ratio).toBeCloseTo(2, 10);
+    expect(rr.ciLow).toBeCloseTo(0.8325, 4);
+    expect(rr.ciHigh).toBeCloseTo(4.8051, 4);
+  });
+
+  it('applies the Haldane correction to zero cells', () => {
+    const rr = relativeRisk({ exposedCases: 0, exposedTotal: 10, unexposedCases: 5, unexposedTotal: 10 });
+    expect(rr.ratio).toBeCloseTo((0.5 / 11) / (5.5 / 11), 10);
+    expect(Number.isFinite(rr.ciLow) && Number.isFinite(rr.ciHigh)).toBe(true);
+  });
+});
+
+describe('benjaminiHochberg', () => {
+  it('adjusts step-up and keeps the input order', () => {
+    const q = benjaminiHochberg([0.01, 0.04, 0.03, 0.005]);
+    [0.02, 0.04, 0.04, 0.02].forEach((expected, i) => expect(q[i]).toBeCloseTo(expected, 10));
+  });
+
+  it('never exceeds 1', () => {
+    expect(benjaminiHochberg([0.9, 0.8])).toEqual([0.9, 0.9]);
+  });
+});
+
+describe('signFlipTest', () => {
+  it('bottoms out at 2 / 2^n when every pair points the same way', () => {
+    expect(signFlipTest([1, 2, 3]).pValue).toBe(2 / 8);
+    const six = signFlipTest([-1, -2, -1, -3, -2, -1]);
+    expect(six).toMatchObject({ pValue: 2 / 64, assignments: 64 });
+    expect(six.mean).toBeCloseTo(-10 / 6, 10);
+  });
+
+  it('counts every assignment at least as extreme', () => {
+    // Sums of ±1 ±1 ±2: |4| twice, |2| four times, |0| twice out of 8
+    expect(signFlipTest([1, 1, 2]).pValue).toBe(2 / 8);
+    expect(signFlipTest([1, -1, 2]).pValue).toBe(6 / 8);
+    expect(signFlipTest([1, -1]).pValue).toBe(1);
+  });
+});
@@ -0,0 +1,94 @@
+/*
+ * Small, deterministic statistics helpers for on-device analytics. Everything
+ * here is pure so results are reproducible from the same logs.
+ */
+
+/** Counts for a 2x2 exposure/outcome table. */
+export interface TwoByTwo {
+  exposedCases: number;
+  exposedTotal: number;
+  unexposedCases: number;
+  unexposedTotal: number;
+}
+
+export interface RelativeRisk {
+  ratio: number;
+  ciLow: number;
+  ciHigh: number;
+}
+
+const Z_95 = 1.959964;
+
+const logFactorials: number[] = [0];
+
+const logFactorial = (n: number): number => {
+  for (let i = logFactorials.length; i <= n; i++) logFactorials[i] = logFactorials[i - 1] + Math.log(i);
+  return logFactorials[n];
+};
+
+const logChoose = (n: number, k: number) => logFactorial(n) - logFactorial(k) - logFactorial(n - k);
+
+/**
+ * One-sided Fisher exact test: the probability of seeing at least
+ * `exposedCases` cases among the exposed if exposure made no difference.
+ */
+export const fisherExactGreater = (table: TwoByTwo): number => {
+  const { exposedCases, exposedTotal, unexposedCases, unexposedTotal } = table;
+  const total = exposedTotal + unexposedTotal;
+  const cases = exposedCases + unexposedCases;
+  const denominator = logChoose(total, exposedTotal);
+  let p = 0;
+  for (let k = exposedCases; k <= Math.min(cases, exposedTotal); k++) {
+    p += Math.exp(logChoose(cases, k) + logChoose(total - cases, exposedTotal - k) - denominator);
+  }
+  return Math.min(1, p);
+};
+
+/**
+ * Risk ratio with a 95% log-normal confidence interval. Adds 0.5 to every
+ * cell when one is zero (Haldane correction) so the ratio stays finite.
+ */
+export const relativeRisk = (table: TwoByTwo): RelativeRisk => {
+  const zeroCell = [table.exposedCases, table.exposedTotal - table.exposedCases, table.unexposedCases, table.unexposedTotal - table.unexposedCases].includes(0);
+  const shift = zeroCell ? 0.5 : 0;
+  const a = table.exposedCases + shift;
+  const n1 = table.exposedTotal + 2 * shift;
+  const c = table.unexposedCases + shift;
+  const n0 = table.unexposedTotal + 2 * shift;
+  const ratio = (a / n1) / (c / n0);
+  const se = Math.sqrt(1 / a - 1 / n1 + 1 / c - 1 / n0);
+  return { ratio, ciLow: Math.exp(Math.log(ratio) - Z_95 * se), ciHigh: Math.exp(Math.log(ratio) + Z_95 * se) };
+};
+
+/** Benjamini-Hochberg adjusted p-values (q-values), in the order given. */
+export const benjaminiHochberg = (pValues: number[]): number[] => {
+  const order = pValues.map((p, i) => ({ p, i })).sort((x, y) => x.p - y.p);
+  const adjusted = new Array<number>(pValues.length);
+  let running = 1;
+  for (let rank = order.length; rank >= 1; rank--) {
+    const { p, i } = order[rank - 1];
+    running = Math.min(running, (p * order.length) / rank);
+    adjusted[i] = running;
+  }
+  return adjusted;
+};
+
+/**
+ * Exact two-sided sign-flip randomization test for paired differences. When
+ * the order within each pair was randomized, flipping every subset of signs
+ * enumerates all 2^n equally likely assignments, so with n pairs the
+ * smallest attainable p-value is 2 / 2^n.
+ */
+export const signFlipTest = (differences: number[]): { mean: number; pValue: number; assignments: number } => {
+  const n = differences.length;
+  const observed = Math.abs(differences.reduce((sum, d) => sum + d, 0));
+  const assignments = 2 ** n;
+  let extreme = 0;
+  for (let mask = 0; mask < assignments; mask++) {
+    let sum = 0;
+    for (let i = 0; i < n; i++) sum += mask & (1 << i) ? -differences[i] : differences[i];
+    // Small tolerance so ties from floating-point rounding count as extreme
+    if (Math.abs(sum) >= observed - 1e-9) extreme++;
+  }
+  return { mean: n > 0 ? differences.reduce((sum, d) => sum + d, 0) / n : 0, pValue: extreme / assignments, assignments };
+};
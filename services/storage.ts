@@ -0,0 +1,214 @@
+// Database of the first profile; later profiles get their own database (see services/profiles)
+export const DEFAULT_DB_NAME = 'flarefinder';
+const DB_VERSION = 7;
+
+// One object store per collection so a new meal photo only rewrites that record
+export const STORES = {
+  foodLogs: 'foodLogs',
+  flareLogs: 'flareLogs',
+  behaviorLogs: 'behaviorLogs',
+  labReports: 'labReports',
+  biomarkers: 'biomarkers',
+  shoppingList: 'shoppingList',
+  analyses: 'analyses',
+  detectiveReports: 'detectiveReports',
+  experiments: 'experiments',
+  trials: 'trials',
+  attachments: 'attachments',
+  trash: 'trash',
+  audit: 'audit',
+  aiCache: 'aiCache',
+  meta: 'meta'
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+// Stores whose records carry their own `id`; the rest use generated keys
+const KEYED_STORES: StoreName[] = [
+  STORES.foodLogs,
+  STORES.flareLogs,
+  STORES.behaviorLogs,
+  STORES.labReports,
+  STORES.shoppingList,
+  STORES.analyses,
+  STORES.detectiveReports,
+  STORES.experiments,
+  STORES.trials,
+  STORES.attachments,
+  STORES.trash,
+  STORES.audit,
+  STORES.aiCache
+];
+
+// Transforms records on their way in and out of IndexedDB (used for encryption at rest)
+export interface StorageCodec {
+  encode: (value: any) => Promise<any>;
+  decode: (stored: any) => Promise<any>;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let codec: StorageCodec | null = null;
+
+const encode = <T>(value: T): Promise<any> => codec ? codec.encode(value) : Promise.resolve(value);
+const decode = <T>(stored: any): Promise<T> => codec && stored !== undefined ? codec.decode(stored) : Promise.resolve(stored);
+
+// Encoding is async, so it must finish before a transaction opens or the transaction auto-commits
+const encodeAll = <T>(values: T[]): Promise<any[]> => Promise.all(values.map(v => encode(v)));
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+let dbName = DEFAULT_DB_NAME;
+
+const deleteDatabase = (name: string) => new Promise<void>((resolve, reject) => {
+  const request = indexedDB.deleteDatabase(name);
+  request.onsuccess = () => resolve();
+  request.onerror = () => reject(request.error);
+  request.onblocked = () => resolve();
+});
+
+const open = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB is not available in this browser"));
+      return;
+    }
+    const request = indexedDB.open(dbName, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      KEYED_STORES.forEach(name => {
+        if (!database.objectStoreNames.contains(name)) {
+          database.createObjectStore(name, { keyPath: 'id' });
+        }
+      });
+      if (!database.objectStoreNames.contains(STORES.biomarkers)) {
+        database.createObjectStore(STORES.biomarkers, { autoIncrement: true });
+      }
+      if (!database.objectStoreNames.contains(STORES.meta)) {
+        database.createObjectStore(STORES.meta);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+export const storage = {
+  /** Points every following call at another database. Must be called before the first read. */
+  useDatabase: (name: string) => {
+    if (name === dbName) return;
+    dbPromise?.then(database => database.close());
+    dbPromise = null;
+    dbName = name;
+  },
+
+  setCodec: (next: StorageCodec | null) => {
+    codec = next;
+  },
+
+  getAll: async <T>(store: StoreName): Promise<T[]> => {
+    const database = await open();
+    const stored = await promisify(database.transaction(store, 'readonly').objectStore(store).getAll());
+    return Promise.all(stored.map(v => decode<T>(v)));
+  },
+
+  get: async <T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> => {
+    const database = await open();
+    return decode<T | undefined>(await promisify(database.transaction(store, 'readonly').objectStore(store).get(key)));
+  },
+
+  getAllKeys: async (store: StoreName): Promise<IDBValidKey[]> => {
+    const database = await open();
+    return promisify(database.transaction(store, 'readonly').objectStore(store).getAllKeys());
+  },
+
+  put: async <T>(store: StoreName, value: T): Promise<void> => {
+    const encoded = await encode(value);
+    const database = await open();
+    const tx = database.transaction(store, 'readwrite');
+    tx.objectStore(store).put(encoded);
+    return transactionDone(tx);
+  },
+
+  putMany: async <T>(store: StoreName, input: T[]): Promise<void> => {
+    const values = await encodeAll(input);
+    const database = await open();
+    const tx = database.transaction(store, 'readwrite');
+    const objectStore = tx.objectStore(store);
+    values.forEach(v => objectStore.put(v));
+    return transactionDone(tx);
+  },
+
+  delete: async (store: StoreName, key: IDBValidKey): Promise<void> => {
+    const database = await open();
+    const tx = database.transaction(store, 'readwrite');
+    tx.objectStore(store).delete(key);
+    return transactionDone(tx);
+  },
+
+  replaceAll: async <T>(store: StoreName, input: T[]): Promise<void> => {
+    const values = await encodeAll(input);
+    const database = await open();
+    const tx = database.transaction(store, 'readwrite');
+    const objectStore = tx.objectStore(store);
+    objectStore.clear();
+    values.forEach(v => objectStore.put(v));
+    return transactionDone(tx);
+  },
+
+  getMeta: async <T>(key: string): Promise<T | undefined> => {
+    return decode<T | undefined>(await storage.getRawMeta(key));
+  },
+
+  setMeta: async <T>(key: string, value: T): Promise<void> => {
+    return storage.setRawMeta(key, await encode(value));
+  },
+
+  // Bypass the codec; for values that must be readable before unlock
+  getRawMeta: async <T>(key: string): Promise<T | undefined> => {
+    const database = await open();
+    return promisify(database.transaction(STORES.meta, 'readonly').objectStore(STORES.meta).get(key)) as Promise<T | undefined>;
+  },
+
+  setRawMeta: async <T>(key: string, value: T): Promise<void> => {
+    const database = await open();
+    const tx = database.transaction(STORES.meta, 'readwrite');
+    if (value === undefined) tx.objectStore(STORES.meta).delete(key);
+    else tx.objectStore(STORES.meta).put(value, key);
+    return transactionDone(tx);
+  },
+
+  destroy: async (): Promise<void> => {
+    if (dbPromise) {
+      const database = await dbPromise;
+      database.close();
+      dbPromise = null;
+    }
+    await deleteDatabase(dbName);
+  },
+
+  /** Deletes another (inactive) database, e.g. a removed profile's. */
+  destroyDatabase: (name: string): Promise<void> => {
+    if (name === dbName) return storage.destroy();
+    return deleteDatabase(name);
+  }
+};
+
+export const isQuotaError = (e: any) => e?.name === 'QuotaExceededError' || e?.code === 22;
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { FlareLog } from '../types';
+import { trials } from './trials';
+
+// US clocks spring forward on Mar 8 2026
+process.env.TZ = 'America/New_York';
+
+describe('trials.dayOf', () => {
+  it('keeps blocks and washout days on calendar days across a DST change', () => {
+    const trial = trials.create({ intervention: 'Zinc', hypothesis: 'Zinc helps', blockDays: 5, pairs: 2, washoutDays: 2 }, new Date(2026, 2, 1, 9).getTime(), () => 0);
+    const at = (date: number, hour = 12) => new Date(2026, 2, date, hour).getTime();
+    expect(trials.dayOf(trial, at(8))).toBe(7);
+    expect(trials.dayOf(trial, at(9))).toBe(8);
+    expect(trials.dayOf(trial, at(11, 0))).toBe(10);
+
+    const flare = (date: number): FlareLog => ({ id: `f${date}`, timestamp: new Date(at(date)).toISOString(), severity: 3, location: 'Neck', locations: ['Neck'], notes: '' } as FlareLog);
+    const days = trials.days(trial, [flare(11)], [], at(12));
+    // Mar 11 opens the third block, so it is a washout day of an 'on' block
+    expect(days[10]).toMatchObject({ block: 2, condition: 'on', washout: true, severity: 3 });
+    expect(days.filter(d => d.severity !== undefined).map(d => d.day)).toEqual([10]);
+  });
+});
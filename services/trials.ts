@@ -0,0 +1,223 @@
+import { BehaviorLog, FlareLog, Trial, TrialCheckIn, TrialCondition, TrialOutcome, TrialOutcomeResult, TrialReport } from '../types';
+import { signFlipTest } from './stats';
+
+/*
+ * N-of-1 trials for supplements and habits. The trial alternates on and off
+ * blocks of `blockDays`, with each on/off pair in random order so a slow
+ * trend over the weeks cannot pass for an effect. Doses come from
+ * 'intervention' behavior logs, severity from flare logs, pain from the
+ * trial check-ins and mood from check-ins or mood logs. The first
+ * `washoutDays` of every block are left out of the analysis so the previous
+ * block's effect can wear off.
+ *
+ * Days within a block are correlated, so the analysis works on block means:
+ * each pair contributes its on-minus-off difference, and the p-value comes
+ * from the 2^pairs orders the randomization could have picked.
+ */
+
+export const TRIAL_ALPHA = 0.05;
+// Fewest pairs whose smallest attainable p-value (2 / 2^pairs) is below TRIAL_ALPHA
+export const MIN_TRIAL_PAIRS = 6;
+export const DEFAULT_TRIAL_DESIGN = { blockDays: 5, pairs: MIN_TRIAL_PAIRS, washoutDays: 2 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_ADHERENCE = 0.8;
+
+export const TRIAL_OUTCOMES: { outcome: TrialOutcome; label: string; scale: string; higherIsBetter: boolean }[] = [
+  { outcome: 'severity', label: 'Flare severity', scale: '0-5', higherIsBetter: false },
+  { outcome: 'pain', label: 'Pain', scale: '0-5', higherIsBetter: false },
+  { outcome: 'mood', label: 'Mood', scale: '1-5', higherIsBetter: true }
+];
+
+export interface TrialDay {
+  day: number;
+  block: number;
+  condition: TrialCondition;
+  washout: boolean; // Left out of the analysis
+  took: boolean; // A dose of the intervention was logged
+  checkIn?: TrialCheckIn;
+  severity?: number; // Worst flare; 0 on checked-in days without one, undefined when neither was logged
+  pain?: number;
+  mood?: number;
+}
+
+export type TrialDraft = Pick<Trial, 'intervention' | 'hypothesis'> & Partial<typeof DEFAULT_TRIAL_DESIGN>;
+
+const startOfDay = (time: number) => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// Calendar days since the epoch for the local date, so a 23 or 25 hour DST day still counts as one
+const calendarDay = (time: number) => {
+  const date = new Date(time);
+  return Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS;
+};
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const formatP = (p: number | null) => p === null ? 'n/a' : p < 0.001 ? '< 0.001' : p.toFixed(3);
+
+const outcomeLabel = (outcome: TrialOutcome) => TRIAL_OUTCOMES.find(o => o.outcome === outcome)!.label;
+
+export const trials = {
+  /** New trial starting today; `random` picks the order within each on/off pair. */
+  create: (draft: TrialDraft, now = Date.now(), random = Math.random): Trial => {
+    const timestamp = new Date(now).toISOString();
+    const pairs = draft.pairs ?? DEFAULT_TRIAL_DESIGN.pairs;
+    const schedule: TrialCondition[] = [];
+    for (let i = 0; i < pairs; i++) schedule.push(...(random() < 0.5 ? ['on', 'off'] : ['off', 'on']) as TrialCondition[]);
+    return {
+      id: crypto.randomUUID(),
+      intervention: draft.intervention.trim().toLowerCase(),
+      hypothesis: draft.hypothesis,
+      startDate: new Date(startOfDay(now)).toISOString(),
+      blockDays: draft.blockDays ?? DEFAULT_TRIAL_DESIGN.blockDays,
+      washoutDays: draft.washoutDays ?? DEFAULT_TRIAL_DESIGN.washoutDays,
+      schedule,
+      status: 'active',
+      checkIns: [],
+      createdAt: timestamp,
+      updatedAt: timestamp
+    };
+  },
+
+  totalDays: (trial: Trial) => trial.blockDays * trial.schedule.length,
+
+  /** 0-based trial day for a time; may be negative or past the end. */
+  dayOf: (trial: Trial, time: number) => calendarDay(time) - calendarDay(new Date(trial.startDate).getTime()),
+
+  /** Whether the intervention is due on a given day, or null outside the trial. */
+  conditionOn: (trial: Trial, day: number): TrialCondition | null => {
+    if (day < 0 || day >= trials.totalDays(trial)) return null;
+    return trial.schedule[Math.floor(day / trial.blockDays)];
+  },
+
+  isFinished: (trial: Trial, now = Date.now()) => trials.dayOf(trial, now) >= trials.totalDays(trial),
+
+  /** Whether a behavior log records a dose of this intervention. */
+  isDose: (log: BehaviorLog, intervention: string) =>
+    log.type === 'intervention' && String(log.value).toLowerCase().includes(intervention.trim().toLowerCase()),
+
+  /** Day-by-day doses and outcomes up to today (or the end). */
+  days: (trial: Trial, flareLogs: FlareLog[], behaviorLogs: BehaviorLog[], now = Date.now()): TrialDay[] => {
+    const lastDay = Math.min(trials.dayOf(trial, now), trials.totalDays(trial) - 1);
+    const onDay = <T extends { timestamp: string }>(logs: T[], day: number) => logs.filter(l => trials.dayOf(trial, new Date(l.timestamp).getTime()) === day);
+    const days: TrialDay[] = [];
+    for (let day = 0; day <= lastDay; day++) {
+      const flares = onDay(flareLogs, day);
+      const behaviors = onDay(behaviorLogs, day);
+      const checkIn = trial.checkIns.find(c => c.day === day);
+      const pains = flares.map(f => f.painLevel).filter((p): p is number => typeof p === 'number');
+      const moods = behaviors.filter(b => b.type === 'mood' && typeof b.value === 'number').map(b => b.value as number);
+      days.push({
+        day,
+        block: Math.floor(day / trial.blockDays),
+        condition: trials.conditionOn(trial, day)!,
+        washout: day % trial.blockDays < trial.washoutDays,
+        took: behaviors.some(b => trials.isDose(b, trial.intervention)),
+        checkIn,
+        // Dose logs only exist on on-days, so they must not turn a day into a flare-free one
+        severity: flares.length > 0 || checkIn ? flares.reduce((worst, f) => Math.max(worst, f.severity), 0) : undefined,
+        pain: checkIn?.pain ?? (pains.length > 0 ? Math.max(...pains) : undefined),
+        mood: checkIn?.mood ?? (moods.length > 0 ? mean(moods) : undefined)
+      });
+    }
+    return days;
+  },
+
+  /** Effect of the on blocks against the off blocks for each outcome, from within-pair differences of block means. */
+  evaluate: (trial: Trial, flareLogs: FlareLog[], behaviorLogs: BehaviorLog[], now = Date.now()): TrialReport => {
+    const analysed = trials.days(trial, flareLogs, behaviorLogs, now).filter(d => !d.washout);
+    // Doses are logged, so an off day with nothing logged still followed the plan
+    const adherence = analysed.length > 0 ? analysed.filter(d => d.took === (d.condition === 'on')).length / analysed.length : 0;
+    const pairCount = Math.floor(trial.schedule.length / 2);
+
+    const outcomes: TrialOutcomeResult[] = TRIAL_OUTCOMES.map(({ outcome, higherIsBetter }) => {
+      const blockMean = (block: number) => {
+        const values = analysed.filter(d => d.block === block && d[outcome] !== undefined).map(d => d[outcome]!);
+        return values.length > 0 ? { mean: mean(values), days: values.length } : null;
+      };
+      const pairs: { on: number; off: number; onDays: number; offDays: number }[] = [];
+      for (let pair = 0; pair < pairCount; pair++) {
+        const [first, second] = [blockMean(2 * pair), blockMean(2 * pair + 1)];
+        if (!first || !second) continue;
+        const [on, off] = trial.schedule[2 * pair] === 'on' ? [first, second] : [second, first];
+        pairs.push({ on: on.mean, off: off.mean, onDays: on.days, offDays: off.days });
+      }
+      const onDays = pairs.reduce((sum, p) => sum + p.onDays, 0);
+      const offDays = pairs.reduce((sum, p) => sum + p.offDays, 0);
+      if (pairs.length === 0) {
+        return { outcome, onMean: 0, offMean: 0, difference: 0, onDays, offDays, pairs: 0, pValue: null, minPValue: null, direction: 'unchanged' };
+      }
+      const { mean: difference, pValue, assignments } = signFlipTest(pairs.map(p => p.on - p.off));
+      const better = higherIsBetter ? difference > 0 : difference < 0;
+      return {
+        outcome,
+        onMean: round(mean(pairs.map(p => p.on))),
+        offMean: round(mean(pairs.map(p => p.off))),
+        difference: round(difference),
+        onDays,
+        offDays,
+        pairs: pairs.length,
+        pValue,
+        minPValue: Math.min(1, 2 / assignments),
+        direction: pValue >= TRIAL_ALPHA || difference === 0 ? 'unchanged' : better ? 'improved' : 'worsened'
+      };
+    });
+
+    const improved = outcomes.filter(o => o.direction === 'improved').map(o => outcomeLabel(o.outcome).toLowerCase());
+    const worsened = outcomes.filter(o => o.direction === 'worsened').map(o => outcomeLabel(o.outcome).toLowerCase());
+    const parts: string[] = [];
+    if (improved.length > 0) parts.push(`${trial.intervention} improved ${improved.join(' and ')}`);
+    if (worsened.length > 0) parts.push(`${parts.length ? 'but worsened' : `${trial.intervention} worsened`} ${worsened.join(' and ')}`);
+    let summary = parts.length > 0
+      ? `${parts.join(' ')}.`
+      : `No clear effect of ${trial.intervention} on flare severity, pain or mood.`;
+    summary = summary.charAt(0).toUpperCase() + summary.slice(1);
+    if (pairCount < MIN_TRIAL_PAIRS) summary += ` With ${pairCount} on/off pairs no result can reach p < ${TRIAL_ALPHA}; ${MIN_TRIAL_PAIRS} or more are needed.`;
+    if (adherence < MIN_ADHERENCE) summary += ` Doses matched the schedule on only ${Math.round(adherence * 100)}% of days, so treat this with caution.`;
+
+    return {
+      outcomes,
+      adherence,
+      analysedDays: analysed.length,
+      assignments: 2 ** pairCount,
+      summary,
+      generatedAt: new Date(now).toISOString()
+    };
+  },
+
+  /** Markdown write-up of a finished trial for the clinician summary. */
+  reportMarkdown: (trial: Trial): string => {
+    const report = trial.report;
+    if (!report) return '';
+    const start = new Date(trial.startDate).toISOString().split('T')[0];
+    const rows = report.outcomes.map(o => {
+      const { label, scale } = TRIAL_OUTCOMES.find(t => t.outcome === o.outcome)!;
+      return `| ${label} (${scale}) | ${o.onMean} (${o.onDays} d) | ${o.offMean} (${o.offDays} d) | ${o.difference > 0 ? '+' : ''}${o.difference} | ${o.pairs} | ${formatP(o.pValue)} (min ${formatP(o.minPValue)}) |`;
+    });
+    return [
+      `### N-of-1 trial: ${trial.intervention}`,
+      `Hypothesis: ${trial.hypothesis}`,
+      `Design: ${trial.schedule.length} blocks of ${trial.blockDays} days from ${start} in randomized order (${trial.schedule.join(', ')}); the first ${trial.washoutDays} day(s) of each block were excluded as washout.`,
+      `Adherence: doses matched the schedule on ${Math.round(report.adherence * 100)}% of ${report.analysedDays} analysed days.`,
+      '',
+      '| Outcome | On | Off | Difference | Pairs | p |',
+      '| --- | --- | --- | --- | --- | --- |',
+      ...rows,
+      '',
+      report.summary,
+      `_On and off values are means of block means. p is an exact two-sided randomization test over the ${report.assignments} possible block orders, using within-pair differences; "min" is the smallest p the pairs with data can reach. Not adjusted for the ${report.outcomes.length} outcomes._`
+    ].join('\n');
+  },
+
+  /** The analysis' clinical summary followed by every trial the user attached. */
+  clinicalSummary: (base: string | undefined, all: Trial[]): string => {
+    const attached = all.filter(t => t.attachToClinicalSummary && t.report).map(trials.reportMarkdown);
+    return [base?.trim(), ...attached].filter(Boolean).join('\n\n');
+  }
+};
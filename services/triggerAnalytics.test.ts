@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { FlareLog, FoodLog } from '../types';
+import { LAG_WINDOWS, triggerAnalytics } from './triggerAnalytics';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 5, 1);
+
+const meal = (id: string, hoursAgo: number, ingredient: string, category: string): FoodLog => ({
+  id,
+  timestamp: new Date(NOW - hoursAgo * HOUR).toISOString(),
+  detectedItems: [{ name: ingredient, category, ingredients: [ingredient], confidence: 1 }]
+});
+
+const flare = (id: string, hoursAgo: number, severity = 3): FlareLog => ({
+  id,
+  timestamp: new Date(NOW - hoursAgo * HOUR).toISOString(),
+  severity,
+  location: 'Neck',
+  locations: ['Neck'],
+  notes: ''
+});
+
+// Twelve meals four days apart: cheese every other time, each followed by a flare 12h later
+const meals = Array.from({ length: 12 }, (_, i) => i % 2 === 0
+  ? meal(`m${i}`, 1200 - i * 96, 'cheese', 'dairy')
+  : meal(`m${i}`, 1200 - i * 96, 'rice', 'grain'));
+const flares = meals.filter((_, i) => i % 2 === 0).map((m, i) => flare(`f${i}`, (NOW - new Date(m.timestamp).getTime()) / HOUR - 12));
+
+describe('triggerAnalytics.analyze', () => {
+  it('finds an ingredient that is always followed by a flare', () => {
+    const analysis = triggerAnalytics.analyze(meals, flares, { now: NOW });
+    expect(analysis.meals).toBe(12);
+    expect(analysis.mealsBeforeFlare).toBe(6);
+    const cheese = analysis.tested.find(t => t.kind === 'ingredient' && t.name === 'cheese')!;
+    expect(cheese).toMatchObject({ exposures: 6, flaresAfter: 6, risk: 1, baselineRisk: 0, significant: true });
+    // 6 of 6 vs 0 of 6: 1 / C(12, 6)
+    expect(cheese.pValue).toBeCloseTo(1 / 924, 10);
+    expect(analysis.tested[0].significant).toBe(true);
+    expect(analysis.tested.find(t => t.name === 'rice')!.significant).toBe(false);
+  });
+
+  it('leaves out meals whose window has not closed', () => {
+    const recent = meal('recent', 10, 'cheese', 'dairy');
+    const analysis = triggerAnalytics.analyze([recent, ...meals], flares, { now: NOW });
+    expect(analysis.meals).toBe(12);
+    expect(analysis.tested.find(t => t.name === 'cheese')!.exposures).toBe(6);
+    // The same meal counts once its 48h have passed
+    expect(triggerAnalytics.analyze([recent, ...meals], flares, { now: NOW + 40 * HOUR }).meals).toBe(13);
+  });
+
+  it('ignores flares below the severity threshold', () => {
+    const mild = flares.map(f => ({ ...f, severity: 1 }));
+    const analysis = triggerAnalytics.analyze(meals, mild, { now: NOW });
+    expect(analysis.mealsBeforeFlare).toBe(0);
+    expect(analysis.tested.every(t => !t.significant)).toBe(true);
+  });
+});
+
+describe('triggerAnalytics.analyzeLags', () => {
+  it('uses the default lag windows', () => {
+    const { triggers } = triggerAnalytics.analyzeLags(meals, flares, [], { now: NOW });
+    const cheese = triggers.find(t => t.name === 'cheese')!;
+    expect(cheese.lags.map(l => [l.startHours, l.endHours])).toEqual(LAG_WINDOWS);
+    // Flares come 12h after each meal, the end of the 6-12h window
+    expect(cheese.peak).toMatchObject({ startHours: 6, endHours: 12, exposures: 6, flaresAfter: 6 });
+  });
+
+  it('accepts custom lag windows', () => {
+    const { triggers, options } = triggerAnalytics.analyzeLags(meals, flares, [], { now: NOW, lagWindows: [[0, 8], [8, 16]] });
+    const cheese = triggers.find(t => t.name === 'cheese')!;
+    expect(options.lagWindows).toEqual([[0, 8], [8, 16]]);
+    expect(cheese.lags.map(l => l.flaresAfter)).toEqual([0, 6]);
+    expect(cheese.peak).toMatchObject({ startHours: 8, endHours: 16 });
+  });
+});
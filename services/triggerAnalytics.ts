@@ -0,0 +1,409 @@
+import { BehaviorLog, FlareLog, FoodLog } from '../types';
+import { TwoByTwo, benjaminiHochberg, fisherExactGreater, relativeRisk } from './stats';
+
+/*
+ * On-device trigger statistics. Each eaten meal is one observation; it counts
+ * as "followed by a flare" when a flare of at least `minSeverity` starts within
+ * the window after it. For every ingredient and food category the flare rate
+ * after meals containing it is compared with the rate after meals without it.
+ *
+ * `analyzeLags` asks the same question for separate windows after each
+ * exposure (by default 0-6h up to 72-96h), so delayed reactions show up at
+ * their lag.
+ * `stacking` looks for pairs, such as sleep debt plus dairy, whose combined
+ * flare rate is higher than either one's alone.
+ */
+
+export type TriggerKind = 'ingredient' | 'category' | 'behavior';
+
+export interface TriggerOptions {
+  windowHours: number;
+  minSeverity: number;
+  minExposures: number; // Fewer exposures than this are listed but not tested
+  alpha: number; // False discovery rate for `significant`
+  lagWindows: [number, number][]; // Start and end hours of each analyzeLags window; at least one
+  now?: number; // Meals whose window has not closed yet are left out
+}
+
+/** Hours after an exposure; windows do not overlap so each lag is judged on its own. */
+export const LAG_WINDOWS: [number, number][] = [[0, 6], [6, 12], [12, 24], [24, 48], [48, 72], [72, 96]];
+
+export const DEFAULT_TRIGGER_OPTIONS: TriggerOptions = {
+  windowHours: 48,
+  minSeverity: 2,
+  minExposures: 3,
+  alpha: 0.05,
+  lagWindows: LAG_WINDOWS
+};
+
+export interface TriggerStat {
+  name: string;
+  kind: TriggerKind;
+  exposures: number; // Meals containing it
+  flaresAfter: number; // Of those, meals followed by a flare
+  risk: number; // flaresAfter / exposures
+  baselineRisk: number; // Flare rate after meals without it
+  relativeRisk: number;
+  ciLow: number; // 95% confidence interval of relativeRisk
+  ciHigh: number;
+  pValue: number; // One-sided Fisher exact test
+  qValue: number; // Benjamini-Hochberg adjusted across everything tested
+  significant: boolean;
+}
+
+export interface TriggerAnalysis {
+  meals: number;
+  mealsBeforeFlare: number;
+  baselineRate: number; // Share of all meals followed by a flare
+  tested: TriggerStat[]; // Most likely triggers first
+  insufficient: { name: string; kind: TriggerKind; exposures: number }[];
+  options: TriggerOptions;
+}
+
+export interface LagStat {
+  startHours: number;
+  endHours: number;
+  exposures: number; // Exposures whose window has closed
+  flaresAfter: number;
+  risk: number;
+  baselineRisk: number;
+  relativeRisk: number;
+  ciLow: number;
+  ciHigh: number;
+  pValue: number;
+  qValue: number; // Adjusted across every trigger and lag tested
+}
+
+export interface LaggedTrigger {
+  name: string;
+  kind: TriggerKind;
+  exposures: number;
+  lags: LagStat[]; // One per `lagWindows` entry
+  peak: LagStat; // The lag with the strongest signal
+  significant: boolean;
+}
+
+export interface LagAnalysis {
+  triggers: LaggedTrigger[]; // Strongest first
+  options: TriggerOptions;
+}
+
+export interface RiskGroup {
+  meals: number;
+  flares: number; // Meals followed by a flare
+  risk: number;
+}
+
+export interface StackingPair {
+  a: { name: string; kind: TriggerKind };
+  b: { name: string; kind: TriggerKind };
+  both: RiskGroup;
+  aOnly: RiskGroup;
+  bOnly: RiskGroup;
+  neither: RiskGroup;
+  pValue: number; // The weaker of "both vs a alone" and "both vs b alone"
+  qValue: number; // Adjusted across every pair tested
+  significant: boolean;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+const numeric = (log: BehaviorLog) => typeof log.value === 'number' ? log.value : parseFloat(log.value);
+
+// Behaviour logs that count as an exposure, compared with other logs of the same type.
+// Returns undefined for logs that cannot be classified.
+const BEHAVIOR_TRIGGERS: { name: string; type: BehaviorLog['type']; exposed: (log: BehaviorLog) => boolean | undefined }[] = [
+  { name: 'sleep debt', type: 'sleep', exposed: log => isNaN(numeric(log)) ? undefined : numeric(log) < 7 },
+  { name: 'high stress', type: 'stress', exposed: log => log.value === 'high' || (isNaN(numeric(log)) ? undefined : numeric(log) >= 7) },
+  { name: 'high anxiety', type: 'anxiety', exposed: log => log.value === 'high' || (isNaN(numeric(log)) ? undefined : numeric(log) >= 7) }
+];
+
+// How long a behaviour log colours the meals after it, e.g. last night's sleep
+const BEHAVIOR_CARRYOVER_HOURS = 24;
+
+// Sorted flare start times at or above the severity threshold
+const flareTimesOf = (flareLogs: FlareLog[], minSeverity: number) => flareLogs
+  .filter(f => f.severity >= minSeverity)
+  .map(f => new Date(f.timestamp).getTime())
+  .filter(t => !isNaN(t))
+  .sort((a, b) => a - b);
+
+/** Whether any of the sorted `times` falls in (from, to]. */
+const anyBetween = (times: number[], from: number, to: number) => {
+  let low = 0, high = times.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (times[mid] <= from) low = mid + 1; else high = mid;
+  }
+  return low < times.length && times[low] <= to;
+};
+
+// Generic labels that say nothing about what was eaten
+const IGNORED_CATEGORIES = new Set(['other', 'manual entry']);
+
+const normalize = (name: string) => name.trim().toLowerCase();
+
+// What a meal exposes the user to, keyed as "kind:name"
+const exposuresOf = (log: FoodLog): Map<string, { name: string; kind: TriggerKind }> => {
+  const found = new Map<string, { name: string; kind: TriggerKind }>();
+  const add = (raw: string | undefined, kind: TriggerKind) => {
+    const name = raw && normalize(raw);
+    if (name && !(kind === 'category' && IGNORED_CATEGORIES.has(name))) found.set(`${kind}:${name}`, { name, kind });
+  };
+  (log.detectedItems || []).forEach(item => {
+    const ingredients = item.ingredients?.length ? item.ingredients : [item.name];
+    ingredients.forEach(i => add(i, 'ingredient'));
+    add(item.category, 'category');
+  });
+  return found;
+};
+
+// Eaten meals with what each exposed the user to
+const mealsOf = (foodLogs: FoodLog[]) => foodLogs
+  .filter(l => !l.isGroceryScan)
+  .map(l => ({ time: new Date(l.timestamp).getTime(), exposures: exposuresOf(l) }))
+  .filter(m => !isNaN(m.time) && m.exposures.size > 0);
+
+const riskGroup = (meals: number, flares: number): RiskGroup => ({ meals, flares, risk: meals > 0 ? flares / meals : 0 });
+
+const byLikelihood = (a: TriggerStat, b: TriggerStat) =>
+  Number(b.significant) - Number(a.significant) || a.qValue - b.qValue || b.relativeRisk - a.relativeRisk || b.exposures - a.exposures;
+
+export const triggerAnalytics = {
+  /** Per-ingredient and per-category relative risk of a flare after eating, from the logs alone. */
+  analyze: (foodLogs: FoodLog[], flareLogs: FlareLog[], options: Partial<TriggerOptions> = {}): TriggerAnalysis => {
+    const opts = { ...DEFAULT_TRIGGER_OPTIONS, ...options };
+    const windowMs = opts.windowHours * HOUR;
+    const now = opts.now ?? Date.now();
+    const flareTimes = flareTimesOf(flareLogs, opts.minSeverity);
+
+    const meals = mealsOf(foodLogs)
+      .filter(m => m.time + windowMs <= now)
+      .map(m => ({ ...m, flared: anyBetween(flareTimes, m.time, m.time + windowMs) }));
+    const mealsBeforeFlare = meals.filter(m => m.flared).length;
+
+    const counts = new Map<string, { name: string; kind: TriggerKind; exposures: number; flaresAfter: number }>();
+    meals.forEach(meal => meal.exposures.forEach((exposure, key) => {
+      const entry = counts.get(key) || { ...exposure, exposures: 0, flaresAfter: 0 };
+      entry.exposures++;
+      if (meal.flared) entry.flaresAfter++;
+      counts.set(key, entry);
+    }));
+
+    // Something eaten at every meal has no comparison group
+    const all = Array.from(counts.values());
+    const testable = all.filter(c => c.exposures >= opts.minExposures && c.exposures < meals.length);
+    const tables: TwoByTwo[] = testable.map(c => ({
+      exposedCases: c.flaresAfter,
+      exposedTotal: c.exposures,
+      unexposedCases: mealsBeforeFlare - c.flaresAfter,
+      unexposedTotal: meals.length - c.exposures
+    }));
+    const pValues = tables.map(fisherExactGreater);
+    const qValues = benjaminiHochberg(pValues);
+
+    const tested = testable.map((c, i): TriggerStat => {
+      const rr = relativeRisk(tables[i]);
+      return {
+        ...c,
+        risk: c.flaresAfter / c.exposures,
+        baselineRisk: tables[i].unexposedCases / tables[i].unexposedTotal,
+        relativeRisk: rr.ratio,
+        ciLow: rr.ciLow,
+        ciHigh: rr.ciHigh,
+        pValue: pValues[i],
+        qValue: qValues[i],
+        significant: qValues[i] < opts.alpha
+      };
+    }).sort(byLikelihood);
+
+    return {
+      meals: meals.length,
+      mealsBeforeFlare,
+      baselineRate: meals.length > 0 ? mealsBeforeFlare / meals.length : 0,
+      tested,
+      insufficient: all
+        .filter(c => !testable.includes(c))
+        .map(({ name, kind, exposures }) => ({ name, kind, exposures }))
+        .sort((a, b) => b.exposures - a.exposures),
+      options: opts
+    };
+  },
+
+  /**
+   * Flare risk in each of `options.lagWindows` after eating an ingredient or
+   * after a behaviour trigger such as sleep debt, with the strongest lag per
+   * trigger. `windowHours` is ignored; the lag windows replace it.
+   */
+  analyzeLags: (foodLogs: FoodLog[], flareLogs: FlareLog[], behaviorLogs: BehaviorLog[], options: Partial<TriggerOptions> = {}): LagAnalysis => {
+    const opts = { ...DEFAULT_TRIGGER_OPTIONS, ...options };
+    const now = opts.now ?? Date.now();
+    const flareTimes = flareTimesOf(flareLogs, opts.minSeverity);
+
+    // Each candidate is judged within its own population: meals for ingredients, logs of the same type for behaviours
+    const candidates: { name: string; kind: TriggerKind; events: { time: number; exposed: boolean }[] }[] = [];
+    const meals = mealsOf(foodLogs);
+    const ingredients = new Map<string, string>();
+    meals.forEach(m => m.exposures.forEach((e, key) => e.kind === 'ingredient' && ingredients.set(key, e.name)));
+    ingredients.forEach((name, key) => candidates.push({
+      name, kind: 'ingredient', events: meals.map(m => ({ time: m.time, exposed: m.exposures.has(key) }))
+    }));
+    BEHAVIOR_TRIGGERS.forEach(trigger => candidates.push({
+      name: trigger.name,
+      kind: 'behavior',
+      events: behaviorLogs
+        .filter(l => l.type === trigger.type)
+        .map(l => ({ time: new Date(l.timestamp).getTime(), exposed: trigger.exposed(l) }))
+        .filter((e): e is { time: number; exposed: boolean } => !isNaN(e.time) && e.exposed !== undefined)
+    }));
+
+    const testable = candidates.filter(c => {
+      const exposures = c.events.filter(e => e.exposed).length;
+      return exposures >= opts.minExposures && exposures < c.events.length;
+    });
+    const tables = testable.map(c => opts.lagWindows.map(([start, end]): TwoByTwo => {
+      const table = { exposedCases: 0, exposedTotal: 0, unexposedCases: 0, unexposedTotal: 0 };
+      c.events.forEach(e => {
+        if (e.time + end * HOUR > now) return;
+        const flared = anyBetween(flareTimes, e.time + start * HOUR, e.time + end * HOUR);
+        if (e.exposed) {
+          table.exposedTotal++;
+          if (flared) table.exposedCases++;
+        } else {
+          table.unexposedTotal++;
+          if (flared) table.unexposedCases++;
+        }
+      });
+      return table;
+    }));
+    // A lag with no closed windows on either side cannot be tested
+    const usable = (t: TwoByTwo) => t.exposedTotal > 0 && t.unexposedTotal > 0;
+    const pValues = tables.map(row => row.map(t => usable(t) ? fisherExactGreater(t) : 1));
+    const flat = benjaminiHochberg(pValues.flat());
+
+    const triggers = testable.map((c, i): LaggedTrigger => {
+      const lags = tables[i].map((t, j): LagStat => {
+        const rr = usable(t) ? relativeRisk(t) : { ratio: 1, ciLow: 0, ciHigh: Infinity };
+        return {
+          startHours: opts.lagWindows[j][0],
+          endHours: opts.lagWindows[j][1],
+          exposures: t.exposedTotal,
+          flaresAfter: t.exposedCases,
+          risk: t.exposedTotal > 0 ? t.exposedCases / t.exposedTotal : 0,
+          baselineRisk: t.unexposedTotal > 0 ? t.unexposedCases / t.unexposedTotal : 0,
+          relativeRisk: rr.ratio,
+          ciLow: rr.ciLow,
+          ciHigh: rr.ciHigh,
+          pValue: pValues[i][j],
+          qValue: flat[i * opts.lagWindows.length + j]
+        };
+      });
+      const peak = lags.reduce((best, lag) => lag.pValue < best.pValue || (lag.pValue === best.pValue && lag.relativeRisk > best.relativeRisk) ? lag : best);
+      return {
+        name: c.name,
+        kind: c.kind,
+        exposures: c.events.filter(e => e.exposed).length,
+        lags,
+        peak,
+        significant: peak.qValue < opts.alpha
+      };
+    }).sort((a, b) => Number(b.significant) - Number(a.significant) || a.peak.pValue - b.peak.pValue || b.peak.relativeRisk - a.peak.relativeRisk);
+
+    return { triggers, options: opts };
+  },
+
+  /**
+   * Pairs of exposures that flare more together than either does alone. Each
+   * meal is one observation; a behaviour trigger logged in the 24h before it
+   * (e.g. sleep debt) counts as part of that meal's exposures.
+   */
+  stacking: (foodLogs: FoodLog[], flareLogs: FlareLog[], behaviorLogs: BehaviorLog[], options: Partial<TriggerOptions> = {}): StackingPair[] => {
+    const opts = { ...DEFAULT_TRIGGER_OPTIONS, ...options };
+    const windowMs = opts.windowHours * HOUR;
+    const now = opts.now ?? Date.now();
+    const flareTimes = flareTimesOf(flareLogs, opts.minSeverity);
+    const states = BEHAVIOR_TRIGGERS.map(trigger => ({
+      trigger,
+      logs: behaviorLogs
+        .filter(l => l.type === trigger.type)
+        .map(l => ({ time: new Date(l.timestamp).getTime(), exposed: trigger.exposed(l) }))
+        .filter(l => !isNaN(l.time) && l.exposed !== undefined)
+        .sort((x, y) => x.time - y.time)
+    }));
+
+    const meals = mealsOf(foodLogs)
+      .filter(m => m.time + windowMs <= now)
+      .map(m => {
+        const exposures = new Map(m.exposures);
+        states.forEach(({ trigger, logs }) => {
+          const latest = logs.filter(l => l.time <= m.time && l.time > m.time - BEHAVIOR_CARRYOVER_HOURS * HOUR).pop();
+          if (latest?.exposed) exposures.set(`behavior:${trigger.name}`, { name: trigger.name, kind: 'behavior' });
+        });
+        return { exposures, flared: anyBetween(flareTimes, m.time, m.time + windowMs) };
+      });
+    const flaresTotal = meals.filter(m => m.flared).length;
+
+    const single = new Map<string, { name: string; kind: TriggerKind; meals: number; flares: number }>();
+    const paired = new Map<string, { meals: number; flares: number }>();
+    meals.forEach(meal => {
+      const keys = Array.from(meal.exposures.keys()).sort();
+      keys.forEach((key, i) => {
+        const entry = single.get(key) || { ...meal.exposures.get(key)!, meals: 0, flares: 0 };
+        entry.meals++;
+        if (meal.flared) entry.flares++;
+        single.set(key, entry);
+        keys.slice(i + 1).forEach(other => {
+          const pairKey = `${key}|${other}`;
+          const pair = paired.get(pairKey) || { meals: 0, flares: 0 };
+          pair.meals++;
+          if (meal.flared) pair.flares++;
+          paired.set(pairKey, pair);
+        });
+      });
+    });
+
+    const candidates = Array.from(paired.entries())
+      .filter(([, both]) => both.meals >= opts.minExposures)
+      .map(([pairKey, both]) => {
+        const [keyA, keyB] = pairKey.split('|');
+        const a = single.get(keyA)!;
+        const b = single.get(keyB)!;
+        const aOnly = riskGroup(a.meals - both.meals, a.flares - both.flares);
+        const bOnly = riskGroup(b.meals - both.meals, b.flares - both.flares);
+        const neitherMeals = meals.length - a.meals - b.meals + both.meals;
+        return {
+          // Foods read more naturally first: "dairy + sleep debt"
+          ...(a.kind === 'behavior' && b.kind !== 'behavior'
+            ? { a: { name: b.name, kind: b.kind }, b: { name: a.name, kind: a.kind }, aOnly: bOnly, bOnly: aOnly }
+            : { a: { name: a.name, kind: a.kind }, b: { name: b.name, kind: b.kind }, aOnly, bOnly }),
+          both: riskGroup(both.meals, both.flares),
+          neither: riskGroup(neitherMeals, flaresTotal - a.flares - b.flares + both.flares)
+        };
+      })
+      // Pairs that always come together (an ingredient and its category) cannot be separated
+      .filter(p => p.aOnly.meals > 0 && p.bOnly.meals > 0 && p.both.risk > Math.max(p.aOnly.risk, p.bOnly.risk));
+
+    // Both comparisons must hold, so the pair is only as strong as the weaker one
+    const vsAlone = (both: RiskGroup, alone: RiskGroup) => fisherExactGreater({
+      exposedCases: both.flares, exposedTotal: both.meals, unexposedCases: alone.flares, unexposedTotal: alone.meals
+    });
+    const pValues = candidates.map(p => Math.max(vsAlone(p.both, p.aOnly), vsAlone(p.both, p.bOnly)));
+    const qValues = benjaminiHochberg(pValues);
+
+    return candidates
+      .map((p, i): StackingPair => ({ ...p, pValue: pValues[i], qValue: qValues[i], significant: qValues[i] < opts.alpha }))
+      .sort((x, y) => x.pValue - y.pValue || y.both.risk - x.both.risk);
+  },
+
+  /** Plain-language numbers behind a pair, for stackingTriggers and the Dashboard. */
+  describeStacking: (pair: StackingPair, windowHours = DEFAULT_TRIGGER_OPTIONS.windowHours) => {
+    const pct = (group: RiskGroup) => `${Math.round(group.risk * 100)}%`;
+    const count = (group: RiskGroup) => `${group.flares} of ${group.meals} meals`;
+    return {
+      triggerA: pair.a.name,
+      triggerB: pair.b.name,
+      combinedEffect: `${pair.a.name} + ${pair.b.name} = ${pct(pair.both)} flare risk, vs ${pct(pair.aOnly)} and ${pct(pair.bOnly)} alone`,
+      evidence: `Flares followed ${count(pair.both)} with both, ${count(pair.aOnly)} with ${pair.a.name} alone, ${count(pair.bOnly)} with ${pair.b.name} alone and ${count(pair.neither)} with neither, within ${windowHours}h. Adjusted p ${pair.qValue < 0.001 ? '< 0.001' : `= ${pair.qValue.toFixed(3)}`}.`
+    };
+  }
+};
@@ -0,0 +1,43 @@
+// In-session history of data changes. Entries are not persisted, so a reload starts fresh.
+const MAX_ENTRIES = 50;
+
+export interface UndoEntry {
+  label: string;
+  undo: () => Promise<unknown>;
+  redo: () => Promise<unknown>;
+}
+
+let past: UndoEntry[] = [];
+let future: UndoEntry[] = [];
+
+export const undoStack = {
+  push: (entry: UndoEntry) => {
+    past = [...past, entry].slice(-MAX_ENTRIES);
+    future = [];
+  },
+
+  undo: async (): Promise<UndoEntry | null> => {
+    const entry = past.pop();
+    if (!entry) return null;
+    await entry.undo();
+    future.push(entry);
+    return entry;
+  },
+
+  redo: async (): Promise<UndoEntry | null> => {
+    const entry = future.pop();
+    if (!entry) return null;
+    await entry.redo();
+    past.push(entry);
+    return entry;
+  },
+
+  peekUndo: (): string | null => past[past.length - 1]?.label ?? null,
+
+  peekRedo: (): string | null => future[future.length - 1]?.label ?? null,
+
+  clear: () => {
+    past = [];
+    future = [];
+  }
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { ValidationError, assertValid, validateBehaviorLog, validateFlareLog, validateFoodLog } from './validation';
+
+const timestamp = '2026-05-01T08:00:00.000Z';
+
+describe('validateFlareLog', () => {
+  it('coerces and clamps with warnings', () => {
+    const result = validateFlareLog({ id: 'f1', timestamp, severity: '7', locations: 'Neck, Back' });
+    expect(result.ok).toBe(true);
+    expect(result.value).toMatchObject({ severity: 5, locations: ['Neck', 'Back'], location: 'Neck, Back', notes: '' });
+    expect(result.warnings.map(w => w.path)).toEqual(['locations', 'severity', 'severity']);
+  });
+
+  it('rejects records without a usable timestamp or severity', () => {
+    const result = validateFlareLog({ id: 'f1', timestamp: 'yesterday', severity: 'bad' }, 'flareLogs[3]');
+    expect(result.ok).toBe(false);
+    expect(result.errors.map(e => e.path)).toEqual(['flareLogs[3].timestamp', 'flareLogs[3].severity']);
+  });
+
+  it('checks updatedAt when present', () => {
+    expect(validateFlareLog({ id: 'f1', timestamp, severity: 2, updatedAt: 'later' }).ok).toBe(false);
+  });
+});
+
+describe('validateFoodLog', () => {
+  it('drops invalid items and reports them', () => {
+    const result = validateFoodLog({ id: 'm1', timestamp, detectedItems: 'cheese' });
+    expect(result.ok).toBe(false);
+    expect(result.errors).toEqual([{ path: 'detectedItems', message: 'must be an array' }]);
+  });
+});
+
+describe('validateBehaviorLog', () => {
+  it('normalizes the type and requires a value', () => {
+    expect(validateBehaviorLog({ id: 'b1', timestamp, type: 'Sleep', value: 7 }).value?.type).toBe('sleep');
+    expect(validateBehaviorLog({ id: 'b1', timestamp, type: 'sleep', value: '' }).ok).toBe(false);
+  });
+});
+
+describe('assertValid', () => {
+  it('throws a ValidationError listing the issues', () => {
+    expect(() => assertValid('flare log', validateFlareLog, { id: 'f1', timestamp })).toThrow(ValidationError);
+  });
+});
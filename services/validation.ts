@@ -0,0 +1,672 @@
+import { CoachToolName, Experiment, ExperimentCheckIn, FoodLog, FoodItem, FlareLog, BehaviorLog, LabReport, Biomarker, FoodSensitivity, ShoppingListItem, FlareDetectiveReport, DeepAnalysis, Reminder, SimulationResult, MenuAnalysis, MenuAnalysisItem, DayPlan, Recipe, MarketplaceProduct, GlobalInsight, Trial, TrialCheckIn } from '../types';
+
+export interface ValidationIssue {
+  path: string; // e.g. "detectedItems[0].nutrition.calories"
+  message: string;
+}
+
+export interface ValidationResult<T> {
+  ok: boolean;
+  value?: T; // Coerced record, present when ok
+  errors: ValidationIssue[]; // Reasons the record was rejected
+  warnings: ValidationIssue[]; // Fields that were coerced
+}
+
+export type Validator<T> = (input: unknown, path?: string) => ValidationResult<T>;
+
+export class ValidationError extends Error {
+  constructor(public recordType: string, public issues: ValidationIssue[]) {
+    super(`Invalid ${recordType}: ${issues.map(i => `${i.path} ${i.message}`).join('; ')}`);
+    this.name = 'ValidationError';
+  }
+}
+
+export const BEHAVIOR_TYPES: BehaviorLog['type'][] = ['sleep', 'water', 'workout', 'stress', 'menstrual', 'weather', 'mood', 'anxiety', 'energy', 'symptom_pcos', 'symptom_hs', 'intervention'];
+export const COACH_TOOL_NAMES: CoachToolName[] = ['query_food_logs', 'log_behavior', 'add_to_shopping_list', 'add_sensitivity', 'start_experiment'];
+const LAB_REPORT_TYPES: LabReport['type'][] = ['food_sensitivity', 'microbiome', 'hormonal', 'bloodwork'];
+const LEVELS: FoodSensitivity['level'][] = ['high', 'medium', 'low'];
+const BIOMARKER_STATUSES: Biomarker['status'][] = ['normal', 'high', 'low'];
+
+// Collects errors (reject) and warnings (coerced) while a record is checked
+class Checker {
+  errors: ValidationIssue[] = [];
+  warnings: ValidationIssue[] = [];
+
+  constructor(private base: string) {}
+
+  at(field: string | number) {
+    if (typeof field === 'number') return `${this.base}[${field}]`;
+    return this.base ? `${this.base}.${field}` : field;
+  }
+
+  error(field: string | number, message: string) {
+    this.errors.push({ path: this.at(field), message });
+  }
+
+  warn(field: string | number, message: string) {
+    this.warnings.push({ path: this.at(field), message });
+  }
+
+  string(value: any, field: string, required = true): string | undefined {
+    if (typeof value === 'string' && value.trim().length > 0) return value;
+    if (typeof value === 'number') {
+      this.warn(field, 'coerced number to string');
+      return String(value);
+    }
+    if (required) this.error(field, 'is required');
+    return undefined;
+  }
+
+  date(value: any, field: string): string | undefined {
+    if (typeof value === 'string' && !isNaN(new Date(value).getTime())) return value;
+    this.error(field, 'must be an ISO date');
+    return undefined;
+  }
+
+  number(value: any, field: string, required = true): number | undefined {
+    if (typeof value === 'number' && isFinite(value)) return value;
+    if (typeof value === 'string') {
+      const parsed = parseFloat(value.replace(/[^0-9.eE+\-]/g, ''));
+      if (isFinite(parsed)) {
+        this.warn(field, `coerced "${value}" to ${parsed}`);
+        return parsed;
+      }
+    }
+    if (value === undefined || value === null) {
+      if (required) this.error(field, 'is required');
+      return undefined;
+    }
+    this.error(field, 'must be a number');
+    return undefined;
+  }
+
+  clamp(value: number | undefined, field: string, min: number, max: number): number | undefined {
+    if (value === undefined) return undefined;
+    const clamped = Math.min(max, Math.max(min, Math.round(value)));
+    if (clamped !== value) this.warn(field, `clamped ${value} to ${min}-${max}`);
+    return clamped;
+  }
+
+  oneOf<T extends string>(value: any, field: string, allowed: readonly T[], fallback?: T): T | undefined {
+    const normalized = typeof value === 'string' ? value.trim().toLowerCase() : value;
+    const match = allowed.find(a => a.toLowerCase() === normalized);
+    if (match) {
+      if (match !== value) this.warn(field, `normalized "${value}" to "${match}"`);
+      return match;
+    }
+    if (fallback !== undefined) {
+      if (value !== undefined) this.warn(field, `replaced unknown value "${value}" with "${fallback}"`);
+      return fallback;
+    }
+    this.error(field, `must be one of ${allowed.join(', ')}`);
+    return undefined;
+  }
+
+  stringArray(value: any, field: string): string[] {
+    if (value === undefined || value === null) return [];
+    if (typeof value === 'string') {
+      this.warn(field, 'split comma-separated string into array');
+      return value.split(',').map(v => v.trim()).filter(Boolean);
+    }
+    if (!Array.isArray(value)) {
+      this.error(field, 'must be an array');
+      return [];
+    }
+    return value.filter(v => typeof v === 'string');
+  }
+
+  result<T>(value: T): ValidationResult<T> {
+    return this.errors.length > 0
+      ? { ok: false, errors: this.errors, warnings: this.warnings }
+      : { ok: true, value, errors: [], warnings: this.warnings };
+  }
+}
+
+const isObject = (input: unknown): input is Record<string, any> => !!input && typeof input === 'object' && !Array.isArray(input);
+
+const notAnObject = <T>(path: string): ValidationResult<T> => ({ ok: false, errors: [{ path: path || '(root)', message: 'must be an object' }], warnings: [] });
+
+// Runs a nested validator and folds its issues into the parent checker
+const nested = <T>(c: Checker, validator: Validator<T>, input: unknown, path: string): T | undefined => {
+  const result = validator(input, path);
+  if (result.ok) {
+    c.warnings.push(...result.warnings);
+    return result.value;
+  }
+  c.errors.push(...result.errors);
+  return undefined;
+};
+
+export const validateFoodItem: Validator<FoodItem> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  const item: FoodItem = {
+    ...input,
+    name: c.string(input.name, 'name')!,
+    category: c.string(input.category, 'category', false) || 'Other',
+    ingredients: c.stringArray(input.ingredients, 'ingredients'),
+    confidence: c.number(input.confidence, 'confidence', false) ?? 1
+  } as FoodItem;
+  if (isObject(input.nutrition)) {
+    item.nutrition = {
+      calories: c.number(input.nutrition.calories, 'nutrition.calories', false) ?? 0,
+      protein: c.number(input.nutrition.protein, 'nutrition.protein', false) ?? 0,
+      carbs: c.number(input.nutrition.carbs, 'nutrition.carbs', false) ?? 0,
+      fat: c.number(input.nutrition.fat, 'nutrition.fat', false) ?? 0
+    };
+  }
+  return c.result(item);
+};
+
+export const validateFoodLog: Validator<FoodLog> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  const items = Array.isArray(input.detectedItems) ? input.detectedItems : [];
+  if (!Array.isArray(input.detectedItems)) c.error('detectedItems', 'must be an array');
+  const log: FoodLog = {
+    ...input,
+    id: c.string(input.id, 'id')!,
+    timestamp: c.date(input.timestamp, 'timestamp')!,
+    detectedItems: items
+      .map((item: unknown, i: number) => nested(c, validateFoodItem, item, `${c.at('detectedItems')}[${i}]`))
+      .filter((item: FoodItem | undefined): item is FoodItem => !!item)
+  } as FoodLog;
+  if (input.updatedAt !== undefined) log.updatedAt = c.date(input.updatedAt, 'updatedAt');
+  return c.result(log);
+};
+
+export const validateFlareLog: Validator<FlareLog> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  const locations = c.stringArray(input.locations, 'locations');
+  const log: FlareLog = {
+    ...input,
+    id: c.string(input.id, 'id')!,
+    timestamp: c.date(input.timestamp, 'timestamp')!,
+    severity: c.clamp(c.number(input.severity, 'severity'), 'severity', 0, 5)!,
+    location: c.string(input.location, 'location', false) || locations.join(', ') || 'Unspecified',
+    locations,
+    notes: typeof input.notes === 'string' ? input.notes : ''
+  } as FlareLog;
+  if (input.painLevel !== undefined) log.painLevel = c.clamp(c.number(input.painLevel, 'painLevel', false), 'painLevel', 0, 5);
+  if (input.updatedAt !== undefined) log.updatedAt = c.date(input.updatedAt, 'updatedAt');
+  return c.result(log);
+};
+
+export const validateBehaviorLog: Validator<BehaviorLog> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  const value = typeof input.value === 'string' || typeof input.value === 'number' ? input.value : undefined;
+  if (value === undefined || value === '') c.error('value', 'is required');
+  const log: BehaviorLog = {
+    ...input,
+    id: c.string(input.id, 'id')!,
+    timestamp: c.date(input.timestamp, 'timestamp')!,
+    type: c.oneOf(input.type, 'type', BEHAVIOR_TYPES)!,
+    value: value!
+  } as BehaviorLog;
+  if (input.quality !== undefined) log.quality = c.number(input.quality, 'quality', false);
+  if (input.updatedAt !== undefined) log.updatedAt = c.date(input.updatedAt, 'updatedAt');
+  return c.result(log);
+};
+
+export const validateBiomarker: Validator<Biomarker> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  const biomarker: Biomarker = {
+    ...input,
+    name: c.string(input.name, 'name')!,
+    value: c.number(input.value, 'value')!,
+    unit: c.string(input.unit, 'unit', false) || '',
+    date: c.date(input.date, 'date')!,
+    status: c.oneOf(input.status, 'status', BIOMARKER_STATUSES, 'normal')!
+  } as Biomarker;
+  return c.result(biomarker);
+};
+
+export const validateFoodSensitivity: Validator<FoodSensitivity> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  const sensitivity: FoodSensitivity = {
+    ...input,
+    food: c.string(input.food, 'food')!,
+    level: c.oneOf(input.level, 'level', LEVELS)!,
+    source: c.oneOf(input.source, 'source', ['lab_result', 'manual'] as const, 'manual')!,
+    dateDetected: typeof input.dateDetected === 'string' && !isNaN(new Date(input.dateDetected).getTime())
+      ? input.dateDetected
+      : new Date().toISOString()
+  } as FoodSensitivity;
+  return c.result(sensitivity);
+};
+
+export const validateLabReport: Validator<LabReport> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  const biomarkers = Array.isArray(input.extractedBiomarkers) ? input.extractedBiomarkers : [];
+  const report: LabReport = {
+    ...input,
+    id: c.string(input.id, 'id')!,
+    type: c.oneOf(input.type, 'type', LAB_REPORT_TYPES)!,
+    dateUploaded: c.date(input.dateUploaded, 'dateUploaded')!,
+    summary: typeof input.summary === 'string' ? input.summary : ''
+  } as LabReport;
+  if (input.extractedBiomarkers !== undefined) {
+    report.extractedBiomarkers = biomarkers
+      .map((b: unknown, i: number) => nested(c, validateBiomarker, b, `${c.at('extractedBiomarkers')}[${i}]`))
+      .filter((b: Biomarker | undefined): b is Biomarker => !!b);
+  }
+  return c.result(report);
+};
+
+export const validateShoppingListItem: Validator<ShoppingListItem> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  const item: ShoppingListItem = {
+    ...input,
+    id: c.string(input.id, 'id')!,
+    name: c.string(input.name, 'name')!,
+    addedAt: c.date(input.addedAt, 'addedAt')!,
+    status: c.oneOf(input.status, 'status', ['pending', 'bought'] as const, 'pending')!
+  } as ShoppingListItem;
+  return c.result(item);
+};
+
+export const validateFlareDetectiveReport: Validator<FlareDetectiveReport> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  const report: FlareDetectiveReport = {
+    ...input,
+    id: c.string(input.id, 'id')!,
+    dateGenerated: c.date(input.dateGenerated, 'dateGenerated')!,
+    suspects: Array.isArray(input.suspects) ? input.suspects : [],
+    conclusion: typeof input.conclusion === 'string' ? input.conclusion : ''
+  } as FlareDetectiveReport;
+  return c.result(report);
+};
+
+const validateExperimentCheckIn: Validator<ExperimentCheckIn> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  return c.result({
+    ...input,
+    day: c.number(input.day, 'day')!,
+    severity: c.clamp(c.number(input.severity, 'severity'), 'severity', 0, 5)!,
+    followedPlan: input.followedPlan !== false,
+    timestamp: c.date(input.timestamp, 'timestamp')!
+  } as ExperimentCheckIn);
+};
+
+export const validateExperiment: Validator<Experiment> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  const days = (field: string, min: number) => c.clamp(c.number(input[field], field), field, min, 90)!;
+  const experiment: Experiment = {
+    ...input,
+    id: c.string(input.id, 'id')!,
+    hypothesis: c.string(input.hypothesis, 'hypothesis', false) || `Does ${input.target} affect my flares?`,
+    target: c.string(input.target, 'target')!,
+    startDate: c.date(input.startDate, 'startDate')!,
+    eliminationDays: days('eliminationDays', 1),
+    challengeDays: days('challengeDays', 1),
+    washoutDays: days('washoutDays', 0),
+    status: c.oneOf(input.status, 'status', ['active', 'completed', 'abandoned'] as const, 'active')!,
+    checkIns: listOf(c, validateExperimentCheckIn, input.checkIns, 'checkIns'),
+    createdAt: c.date(input.createdAt, 'createdAt')!,
+    updatedAt: c.date(input.updatedAt, 'updatedAt')!
+  } as Experiment;
+  return c.result(experiment);
+};
+
+const validateTrialCheckIn: Validator<TrialCheckIn> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  const checkIn = {
+    ...input,
+    day: c.number(input.day, 'day')!,
+    pain: c.clamp(c.number(input.pain, 'pain'), 'pain', 0, 5)!,
+    timestamp: c.date(input.timestamp, 'timestamp')!
+  } as TrialCheckIn;
+  if (input.mood !== undefined) checkIn.mood = c.clamp(c.number(input.mood, 'mood', false), 'mood', 1, 5);
+  return c.result(checkIn);
+};
+
+export const validateTrial: Validator<Trial> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  const blockDays = c.clamp(c.number(input.blockDays, 'blockDays'), 'blockDays', 2, 30)!;
+  const schedule = Array.isArray(input.schedule)
+    ? input.schedule.map((condition: unknown, i: number) => c.oneOf(condition, `schedule[${i}]`, ['on', 'off'] as const)!)
+    : [];
+  if (!schedule.includes('on') || !schedule.includes('off')) c.error('schedule', 'needs at least one on and one off block');
+  const trial: Trial = {
+    ...input,
+    id: c.string(input.id, 'id')!,
+    intervention: c.string(input.intervention, 'intervention')!,
+    hypothesis: c.string(input.hypothesis, 'hypothesis', false) || `Does ${input.intervention} help my symptoms?`,
+    startDate: c.date(input.startDate, 'startDate')!,
+    blockDays,
+    washoutDays: c.clamp(c.number(input.washoutDays, 'washoutDays'), 'washoutDays', 0, (blockDays ?? 2) - 1)!,
+    schedule,
+    status: c.oneOf(input.status, 'status', ['active', 'completed', 'abandoned'] as const, 'active')!,
+    checkIns: listOf(c, validateTrialCheckIn, input.checkIns, 'checkIns'),
+    createdAt: c.date(input.createdAt, 'createdAt')!,
+    updatedAt: c.date(input.updatedAt, 'updatedAt')!
+  } as Trial;
+  return c.result(trial);
+};
+
+// --- AI responses ---
+// These check model output before ids and timestamps are attached, and
+// coerce what they can so only unusable answers trigger a repair re-prompt.
+
+export type LabExtraction = {
+  sensitivities: Pick<FoodSensitivity, 'food' | 'level' | 'category'>[];
+  biomarkers: Omit<Biomarker, 'date'>[];
+  summary: string;
+};
+export type CoachToolCall = { name: CoachToolName; args: Record<string, unknown> };
+export type CoachReply = { reply: string; suggestions: string[]; toolCalls?: CoachToolCall[]; richContent?: any };
+export type CoachSummary = { summary: string };
+export type VoiceCommandResult = { foodLogs: Partial<FoodLog>[]; behaviorLogs: Partial<BehaviorLog>[] };
+export type AiDeepAnalysis = Omit<DeepAnalysis, 'id' | 'timestamp'>;
+export type AiDetectiveReport = Omit<FlareDetectiveReport, 'id' | 'dateGenerated'>;
+
+const slugId = (prefix: string, text: string) => `${prefix}-${text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}`;
+
+// Validates each element of a top-level array, folding issues into one result
+export const arrayOf = <T>(validator: Validator<T>): Validator<T[]> => (input, path = '') => {
+  if (!Array.isArray(input)) return { ok: false, errors: [{ path: path || '(root)', message: 'must be an array' }], warnings: [] };
+  const c = new Checker(path);
+  const values = input
+    .map((item, i) => nested(c, validator, item, c.at(i)))
+    .filter((item): item is T => item !== undefined);
+  return c.result(values);
+};
+
+const listOf = <T>(c: Checker, validator: Validator<T>, value: unknown, field: string, required = false): T[] => {
+  if (value === undefined || value === null) {
+    if (required) c.error(field, 'is required');
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    c.error(field, 'must be an array');
+    return [];
+  }
+  return value
+    .map((item, i) => nested(c, validator, item, `${c.at(field)}[${i}]`))
+    .filter((item): item is T => item !== undefined);
+};
+
+const text = (value: unknown) => typeof value === 'string' ? value : '';
+
+export const validateFoodAnalysis: Validator<{ detectedItems: FoodItem[] }> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  return c.result({ ...input, detectedItems: listOf(c, validateFoodItem, input.detectedItems, 'detectedItems', true) });
+};
+
+const validateExtractedSensitivity: Validator<LabExtraction['sensitivities'][number]> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  return c.result({
+    food: c.string(input.food, 'food')!,
+    level: c.oneOf(input.level, 'level', LEVELS)!,
+    category: typeof input.category === 'string' ? input.category : undefined
+  });
+};
+
+const validateExtractedBiomarker: Validator<LabExtraction['biomarkers'][number]> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  return c.result({
+    name: c.string(input.name, 'name')!,
+    value: c.number(input.value, 'value')!,
+    unit: c.string(input.unit, 'unit', false) || '',
+    status: c.oneOf(input.status, 'status', BIOMARKER_STATUSES, 'normal')!
+  });
+};
+
+export const validateLabExtraction: Validator<LabExtraction> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  return c.result({
+    sensitivities: listOf(c, validateExtractedSensitivity, input.sensitivities, 'sensitivities'),
+    biomarkers: listOf(c, validateExtractedBiomarker, input.biomarkers, 'biomarkers'),
+    summary: text(input.summary)
+  });
+};
+
+export const validateDeepAnalysis: Validator<AiDeepAnalysis> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  const afir = isObject(input.afirScore) ? input.afirScore : {};
+  const forecast = isObject(input.forecast) ? input.forecast : {};
+  const analysis: AiDeepAnalysis = {
+    ...input,
+    dailyNarrative: c.string(input.dailyNarrative, 'dailyNarrative'),
+    afirScore: {
+      value: c.clamp(c.number(afir.value, 'afirScore.value', false) ?? 50, 'afirScore.value', 0, 100)!,
+      trend: c.oneOf(afir.trend, 'afirScore.trend', ['improving', 'worsening', 'stable'] as const, 'stable')!,
+      influencingFactors: c.stringArray(afir.influencingFactors, 'afirScore.influencingFactors')
+    },
+    forecast: {
+      riskLevel: c.oneOf(forecast.riskLevel, 'forecast.riskLevel', ['low', 'medium', 'high'] as const, 'medium')!,
+      explanation: text(forecast.explanation)
+    },
+    topTriggers: Array.isArray(input.topTriggers) ? input.topTriggers.filter(isObject) as AiDeepAnalysis['topTriggers'] : [],
+    protectiveBehaviors: Array.isArray(input.protectiveBehaviors) ? input.protectiveBehaviors.filter(isObject) as AiDeepAnalysis['protectiveBehaviors'] : [],
+    dailySummary: text(input.dailySummary),
+    recommendations: c.stringArray(input.recommendations, 'recommendations'),
+    experiments: c.stringArray(input.experiments, 'experiments')
+  };
+  if (isObject(input.bioWeather)) {
+    analysis.bioWeather = {
+      status: c.oneOf(input.bioWeather.status, 'bioWeather.status', ['Sunny', 'Cloudy', 'Stormy'] as const)!,
+      headline: c.string(input.bioWeather.headline, 'bioWeather.headline')!,
+      summary: text(input.bioWeather.summary)
+    };
+  } else {
+    c.error('bioWeather', 'is required');
+  }
+  return c.result(analysis);
+};
+
+// Tool arguments are checked by the record validators when the call is carried out
+const validateCoachToolCall: Validator<CoachToolCall> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  return c.result({
+    name: c.oneOf(input.name, 'name', COACH_TOOL_NAMES)!,
+    args: isObject(input.args) ? input.args : {}
+  });
+};
+
+export const validateCoachReply: Validator<CoachReply> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  return c.result({
+    ...input,
+    reply: c.string(input.reply, 'reply')!,
+    suggestions: c.stringArray(input.suggestions, 'suggestions'),
+    toolCalls: listOf(c, validateCoachToolCall, input.toolCalls, 'toolCalls')
+  });
+};
+
+export const validateCoachSummary: Validator<CoachSummary> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  return c.result({ summary: c.string(input.summary, 'summary')! });
+};
+
+const validateReminderItem: Validator<Omit<Reminder, 'id' | 'timestamp'>> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  return c.result({
+    type: c.oneOf(input.type, 'type', ['weather', 'cycle', 'habit', 'general'] as const, 'general')!,
+    text: c.string(input.text, 'text')!,
+    priority: c.oneOf(input.priority, 'priority', ['low', 'high'] as const, 'low')!
+  });
+};
+
+export const validateReminders: Validator<{ reminders: Omit<Reminder, 'id' | 'timestamp'>[] }> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  return c.result({ reminders: listOf(c, validateReminderItem, input.reminders, 'reminders', true) });
+};
+
+const validateSuspect: Validator<AiDetectiveReport['suspects'][number]> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  return c.result({
+    name: c.string(input.name, 'name')!,
+    reason: text(input.reason),
+    confidence: c.clamp(c.number(input.confidence, 'confidence', false) ?? 0, 'confidence', 0, 100)!
+  });
+};
+
+export const validateDetectiveFindings: Validator<AiDetectiveReport> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  const suspects = listOf(c, validateSuspect, input.suspects, 'suspects', true);
+  if (typeof input.spikeDetected !== 'boolean' && input.spikeDetected !== undefined) c.warn('spikeDetected', 'coerced to boolean');
+  return c.result({
+    spikeDetected: !!input.spikeDetected && input.spikeDetected !== 'false',
+    suspects,
+    conclusion: c.string(input.conclusion, 'conclusion')!
+  });
+};
+
+export const validateSimulationResult: Validator<SimulationResult> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  const result: SimulationResult = {
+    riskScore: c.clamp(c.number(input.riskScore, 'riskScore'), 'riskScore', 0, 100)!,
+    prediction: c.string(input.prediction, 'prediction')!,
+    biologicalMechanisms: c.stringArray(input.biologicalMechanisms, 'biologicalMechanisms'),
+    verdict: c.oneOf(input.verdict, 'verdict', ['Safe', 'Caution', 'Avoid'] as const)!
+  };
+  if (typeof input.betterOption === 'string') result.betterOption = input.betterOption;
+  return c.result(result);
+};
+
+const validateMenuItem: Validator<MenuAnalysisItem> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  return c.result({
+    dishName: c.string(input.dishName, 'dishName')!,
+    description: text(input.description),
+    safetyLevel: c.oneOf(input.safetyLevel, 'safetyLevel', ['safe', 'caution', 'avoid'] as const)!,
+    modification: typeof input.modification === 'string' && input.modification.trim() ? input.modification : null,
+    reason: text(input.reason)
+  });
+};
+
+export const validateMenuAnalysis: Validator<MenuAnalysis> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  return c.result({
+    safeOptions: listOf(c, validateMenuItem, input.safeOptions, 'safeOptions'),
+    cautionOptions: listOf(c, validateMenuItem, input.cautionOptions, 'cautionOptions'),
+    avoidOptions: listOf(c, validateMenuItem, input.avoidOptions, 'avoidOptions'),
+    chefCardText: text(input.chefCardText)
+  });
+};
+
+const validateRecipe: Validator<Recipe> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  const title = c.string(input.title, 'title')!;
+  return c.result({
+    id: typeof input.id === 'string' && input.id ? input.id : slugId('recipe', title || ''),
+    title,
+    description: text(input.description),
+    ingredients: c.stringArray(input.ingredients, 'ingredients'),
+    prepTime: text(input.prepTime),
+    tags: c.stringArray(input.tags, 'tags'),
+    matchScore: c.clamp(c.number(input.matchScore, 'matchScore', false) ?? 0, 'matchScore', 0, 100)!
+  });
+};
+
+export const validateDayPlan: Validator<DayPlan> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  const slot = (field: keyof DayPlan) => nested(c, validateRecipe, input[field], c.at(field))!;
+  return c.result({ breakfast: slot('breakfast'), lunch: slot('lunch'), dinner: slot('dinner'), snack: slot('snack') });
+};
+
+export const validateMarketplaceProduct: Validator<MarketplaceProduct> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  const name = c.string(input.name, 'name')!;
+  return c.result({
+    ...input,
+    id: typeof input.id === 'string' && input.id ? input.id : slugId('product', name || ''),
+    name,
+    brand: text(input.brand),
+    category: c.oneOf(input.category, 'category', ['supplement', 'food', 'skincare', 'device'] as const, 'food')!,
+    price: c.string(input.price, 'price', false) || '',
+    matchScore: c.clamp(c.number(input.matchScore, 'matchScore', false) ?? 0, 'matchScore', 0, 100)!,
+    matchReason: text(input.matchReason)
+  } as MarketplaceProduct);
+};
+
+export const validateGlobalInsight: Validator<GlobalInsight> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  return c.result({
+    topic: c.string(input.topic, 'topic')!,
+    stat: c.string(input.stat, 'stat')!,
+    trend: c.oneOf(input.trend, 'trend', ['up', 'down', 'neutral'] as const, 'neutral')!
+  });
+};
+
+const validateVoiceBehavior: Validator<Partial<BehaviorLog>> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  const value = typeof input.value === 'string' || typeof input.value === 'number' ? input.value : undefined;
+  if (value === undefined || value === '') c.error('value', 'is required');
+  return c.result({
+    ...input,
+    type: c.oneOf(input.type, 'type', BEHAVIOR_TYPES)!,
+    value
+  });
+};
+
+export const validateVoiceCommand: Validator<VoiceCommandResult> = (input, path = '') => {
+  if (!isObject(input)) return notAnObject(path);
+  const c = new Checker(path);
+  return c.result({
+    foodLogs: listOf(c, validateFoodAnalysis, input.foodLogs, 'foodLogs'),
+    behaviorLogs: listOf(c, validateVoiceBehavior, input.behaviorLogs, 'behaviorLogs')
+  });
+};
+
+export const formatValidationIssues = (issues: ValidationIssue[]): string =>
+  issues.map(i => `• ${i.path}: ${i.message}`).join('\n');
+
+/** Returns the coerced record or throws ValidationError. */
+export const assertValid = <T>(recordType: string, validator: Validator<T>, input: unknown): T => {
+  const result = validator(input);
+  if (!result.ok) throw new ValidationError(recordType, result.errors);
+  if (result.warnings.length > 0) console.warn(`Coerced ${recordType}`, result.warnings);
+  return result.value;
+};
+
+/** Splits a batch (e.g. AI output) into coerced valid records and per-item errors. */
+export const partitionValid = <T>(items: unknown[], validator: Validator<T>): { valid: T[]; errors: ValidationIssue[] } => {
+  const valid: T[] = [];
+  const errors: ValidationIssue[] = [];
+  items.forEach((item, i) => {
+    const result = validator(item, `[${i}]`);
+    if (result.ok) valid.push(result.value);
+    else errors.push(...result.errors);
+  });
+  return { valid, errors };
+};
+
+/** Like assertValid for a whole batch: all records must pass or nothing is returned. */
+export const assertAllValid = <T>(recordType: string, validator: Validator<T>, items: unknown[]): T[] => {
+  const { valid, errors } = partitionValid(items, validator);
+  if (errors.length > 0) throw new ValidationError(recordType, errors);
+  return valid;
+};
@@ -25,7 +25,8 @@ export interface LabReport {
   type: 'food_sensitivity' | 'microbiome' | 'hormonal' | 'bloodwork';
   dateUploaded: string;
   summary: string;
-  imageUrl?: string;
+  imageId?: string; // Attachment id of the scanned report
+  imageUrl?: string; // Inline data URL, kept for backward compatibility
   rawText?: string;
   extractedBiomarkers?: Biomarker[]; // New field for numerical trends
 }
@@ -55,6 +56,7 @@ export interface FoodItem {
   category: string; // dairy, nightshade, processed, etc.
   ingredients: string[];
   confidence: number;
+  promptVersion?: string; // Prompt template that produced this item, e.g. "manualFood@1"
   tags?: ('inflammatory' | 'neutral' | 'anti-inflammatory' | 'potential trigger')[];
   cookingMethod?: string;
   reasoning?: string; // Explanation for the tags
@@ -80,10 +82,12 @@ export interface FoodItem {
 export interface FoodLog {
   id: string;
   timestamp: string;
-  imageUrl?: string;
+  imageId?: string; // Attachment id of the meal photo
+  imageUrl?: string; // Inline data URL, kept for backward compatibility
   detectedItems: FoodItem[];
   manualNotes?: string;
   isGroceryScan?: boolean; // Distinguish between eating and shopping
+  updatedAt?: string; // Last save; older records only have `timestamp`
 }
 
 export interface FlareLog {
@@ -100,16 +104,18 @@ export interface FlareLog {
     humidity: number;
   };
   painLevel?: number; // Kept as optional for backward compatibility
+  updatedAt?: string; // Last save; older records only have `timestamp`
 }
 
 export interface BehaviorLog {
   id: string;
   timestamp: string;
-  type: 'sleep' | 'water' | 'workout' | 'stress' | 'menstrual' | 'weather' | 'mood' | 'anxiety' | 'energy' | 'symptom_pcos' | 'symptom_hs';
-  value: number | string; // 8 (hours), 5 (cups), 'high' (stress)
+  type: 'sleep' | 'water' | 'workout' | 'stress' | 'menstrual' | 'weather' | 'mood' | 'anxiety' | 'energy' | 'symptom_pcos' | 'symptom_hs' | 'intervention';
+  value: number | string; // 8 (hours), 5 (cups), 'high' (stress), 'zinc' (intervention)
   unit?: string;
   details?: string;
   quality?: number; // 1-5 for sleep quality, or stress level
+  updatedAt?: string; // Last save; older records only have `timestamp`
 }
 
 export interface Reminder {
@@ -120,12 +126,24 @@ export interface Reminder {
   timestamp: string;
 }
 
+export type CoachToolName = 'query_food_logs' | 'log_behavior' | 'add_to_shopping_list' | 'add_sensitivity' | 'start_experiment';
+
+// A change the coach proposed; nothing is written until the user confirms the card
+export interface CoachAction {
+  id: string;
+  tool: CoachToolName;
+  args: Record<string, unknown>;
+  label: string; // e.g. "Log sleep: 6 hours"
+  status: 'pending' | 'confirmed' | 'dismissed';
+}
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'model';
   text: string;
   timestamp: string;
   suggestions?: string[];
+  actions?: CoachAction[];
   // Billion Dollar Upgrade: Rich Content Cards inside Chat
   richContent?: {
       type: 'product' | 'recipe' | 'action' | 'insight';
@@ -134,9 +152,17 @@ export interface ChatMessage {
 }
 
 // New Deep Analysis Types
+// Rolling memory for the coach: older turns folded into one summary
+export interface ChatSummary {
+  text: string;
+  coversThrough: string; // Id of the last message the summary includes
+  updatedAt: string;
+}
+
 export interface DeepAnalysis {
   id: string;
   timestamp: string;
+  promptVersion?: string;
   afirScore: {
     value: number; // 0-100
     trend: 'improving' | 'worsening' | 'stable';
@@ -185,6 +211,7 @@ export interface DeepAnalysis {
       triggerA: string;
       triggerB: string;
       combinedEffect: string; // "High Sleep Debt + Sugar = 90% Flare Risk"
+      evidence?: string; // Counts and adjusted p-value behind the pair
   }[];
   
   cycleAnalysis?: {
@@ -202,6 +229,7 @@ export interface DeepAnalysis {
 export interface FlareDetectiveReport {
   id: string;
   dateGenerated: string;
+  promptVersion?: string;
   spikeDetected: boolean;
   suspects: {
     name: string;
@@ -272,7 +300,148 @@ export interface MenuAnalysis {
     chefCardText: string; // Generated text to show waiter
 }
 
+// Binary blob (meal photo, lab scan) stored once per unique content
+export interface Attachment {
+  id: string; // SHA-256 of the raw bytes
+  mimeType: string;
+  size: number;
+  createdAt: string;
+  blob: Blob;
+  thumbnail?: string; // Small JPEG data URL for history lists
+}
+
+// Device-level registry entry; each profile's data lives in its own database
+export interface ProfileSummary {
+  id: string;
+  name: string;
+  condition?: string;
+  dbName: string;
+  createdAt: string;
+  encrypted?: boolean; // The database is encrypted, so `name` is a user-chosen label and `condition` is never kept
+}
+
+export type AuditSource = 'manual' | 'lab_result' | 'ai' | 'import' | 'system';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge';
+
+// One append-only change record; before/after are snapshots of the whole record
+export interface AuditEntry {
+  id: string;
+  collection: string; // AppState collection name, 'user' or 'analyses'
+  recordId: string;
+  action: AuditAction;
+  source: AuditSource;
+  timestamp: string;
+  before?: any;
+  after?: any;
+  note?: string;
+}
+
+export type ExperimentPhase = 'elimination' | 'reintroduction' | 'washout';
+
+// The user's own rating for one day of an experiment
+export interface ExperimentCheckIn {
+  day: number; // 0-based day of the experiment
+  severity: number; // 0-5, worst symptoms that day
+  followedPlan: boolean;
+  notes?: string;
+  timestamp: string;
+}
+
+export interface ExperimentResult {
+  eliminationSeverity: number; // Mean daily severity while avoiding the target
+  reintroductionSeverity: number; // Mean daily severity from the first challenge day through washout
+  difference: number;
+  adherence: number; // 0-1, share of days with data that followed the plan
+  daysWithData: number;
+  verdict: 'reactive' | 'tolerated' | 'inconclusive';
+  summary: string;
+  evaluatedAt: string;
+  savedAsSensitivity?: FoodSensitivity['level']; // Set once the verdict is written to foodSensitivities
+}
+
+/**
+ * Elimination-reintroduction trial for one food: avoid it, eat it on the
+ * challenge days, then avoid it again while delayed reactions show up.
+ */
+export interface Experiment {
+  id: string;
+  hypothesis: string; // "Dairy makes my flares worse"
+  target: string; // Ingredient or category, e.g. "dairy"
+  startDate: string; // ISO, start of the first elimination day
+  eliminationDays: number;
+  challengeDays: number;
+  washoutDays: number;
+  status: 'active' | 'completed' | 'abandoned';
+  checkIns: ExperimentCheckIn[];
+  result?: ExperimentResult;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type TrialCondition = 'on' | 'off';
+export type TrialOutcome = 'severity' | 'pain' | 'mood';
+
+// The user's own ratings for one day of a trial
+export interface TrialCheckIn {
+  day: number; // 0-based day of the trial
+  pain: number; // 0-5
+  mood?: number; // 1-5, falls back to mood logs when missing
+  timestamp: string;
+}
+
+export interface TrialOutcomeResult {
+  outcome: TrialOutcome;
+  onMean: number; // Mean of the on-block means, over pairs with data in both blocks
+  offMean: number;
+  difference: number; // Mean within-pair difference, on minus off
+  onDays: number;
+  offDays: number;
+  pairs: number; // On/off pairs with data in both blocks
+  pValue: number | null; // Exact two-sided randomization p-value over the pairs; null without any pair
+  minPValue: number | null; // Smallest p-value this many pairs can reach, 2 / 2^pairs
+  direction: 'improved' | 'worsened' | 'unchanged'; // Judged at the trial's alpha
+}
+
+export interface TrialReport {
+  outcomes: TrialOutcomeResult[];
+  adherence: number; // 0-1, share of analysed days taken as scheduled
+  analysedDays: number;
+  assignments: number; // Block orders the randomization could have produced, 2^pairs
+  summary: string;
+  generatedAt: string;
+}
+
+/**
+ * N-of-1 trial of a supplement or habit: alternating on/off blocks in a
+ * randomized order, with doses logged as 'intervention' BehaviorLogs.
+ */
+export interface Trial {
+  id: string;
+  intervention: string; // Matched against the value of 'intervention' logs, e.g. "zinc"
+  hypothesis: string;
+  startDate: string; // ISO, start of the first block
+  blockDays: number;
+  washoutDays: number; // Leading days of each block left out of the analysis
+  schedule: TrialCondition[]; // One entry per block, randomized within each on/off pair
+  status: 'active' | 'completed' | 'abandoned';
+  checkIns: TrialCheckIn[];
+  report?: TrialReport;
+  attachToClinicalSummary?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Soft-deleted record, restorable until it is purged after 30 days
+export interface TrashItem {
+  id: string;
+  collection: 'foodLogs' | 'flareLogs' | 'behaviorLogs' | 'shoppingList';
+  record: FoodLog | FlareLog | BehaviorLog | ShoppingListItem;
+  deletedAt: string;
+}
+
 export interface AppState {
+  schemaVersion?: number; // Stamped by services/migrations on every load
   user: UserProfile | null;
   foodLogs: FoodLog[];
   flareLogs: FlareLog[];
@@ -280,8 +449,11 @@ export interface AppState {
   currentAnalysis: DeepAnalysis | null;
   flareDetectiveReports?: FlareDetectiveReport[];
   chatHistory?: ChatMessage[];
+  chatSummary?: ChatSummary | null;
   reminders?: Reminder[];
   shoppingList: ShoppingListItem[];
   marketplaceRecommendations?: MarketplaceProduct[];
   biomarkers?: Biomarker[]; // Global store for plotted data
+  experiments?: Experiment[];
+  trials?: Trial[];
 }
@@ -19,6 +19,8 @@ export default defineConfig(({ mode }) => {
         'process.env.API_KEY': JSON.stringify(env.API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.API_KEY),
         'process.env.WORKER_VERSION': JSON.stringify(env.WORKER_VERSION),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.APP_VERSION': JSON.stringify(process.env.npm_package_version),
       },
       resolve: {
         alias: {